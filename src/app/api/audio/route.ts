@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createDriveFile, listAudioFiles } from '@/lib/drive';
+
+// Music uploads are held in memory on their way to Drive
+const MAX_AUDIO_SIZE = 50 * 1024 * 1024;
+
+// List audio files in Drive to pick background music from
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const files = await listAudioFiles(token);
+
+    return NextResponse.json({
+      success: true,
+      files
+    });
+
+  } catch (error) {
+    console.error('Failed to list audio files:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list audio files',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Upload a local audio file to Drive so exports on the server can use it
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file || !file.type.startsWith('audio/')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Upload an audio file'
+      }, { status: 400 });
+    }
+
+    if (file.size > MAX_AUDIO_SIZE) {
+      return NextResponse.json({
+        success: false,
+        error: `Audio must be smaller than ${MAX_AUDIO_SIZE / 1024 / 1024} MB`
+      }, { status: 413 });
+    }
+
+    const created = await createDriveFile(token, {
+      name: file.name || 'music',
+      parents: ['root'],
+      mimeType: file.type,
+    }, Buffer.from(await file.arrayBuffer()));
+
+    return NextResponse.json({
+      success: true,
+      file: created
+    });
+
+  } catch (error) {
+    console.error('Failed to upload audio file:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to upload audio file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBrandingSettings, LOGO_MIME_TYPES, MAX_LOGO_SIZE, saveBrandingLogo } from '@/lib/branding';
+import { fetchDriveFile } from '@/lib/drive';
+
+// Serve the logo for previews and the in-browser export
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const settings = await getBrandingSettings(token);
+    if (!settings.logoFileId) {
+      return NextResponse.json({
+        success: false,
+        error: 'No logo uploaded'
+      }, { status: 404 });
+    }
+
+    const response = await fetchDriveFile(token, settings.logoFileId);
+
+    return new NextResponse(response.body, {
+      headers: {
+        'Content-Type': settings.logoMimeType || 'image/png',
+        'Cache-Control': 'private, no-cache',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to load branding logo:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load branding logo',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Upload or replace the logo
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as Blob | null;
+
+    if (!file || !LOGO_MIME_TYPES.includes(file.type)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Upload a PNG, JPEG or WebP image'
+      }, { status: 400 });
+    }
+
+    if (file.size > MAX_LOGO_SIZE) {
+      return NextResponse.json({
+        success: false,
+        error: `Logo must be smaller than ${MAX_LOGO_SIZE / 1024 / 1024} MB`
+      }, { status: 413 });
+    }
+
+    const settings = await saveBrandingLogo(token, Buffer.from(await file.arrayBuffer()), file.type);
+
+    return NextResponse.json({
+      success: true,
+      settings
+    });
+
+  } catch (error) {
+    console.error('Failed to upload branding logo:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to upload branding logo',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
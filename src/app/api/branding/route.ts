@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BrandingSettings, getBrandingSettings, saveBrandingSettings } from '@/lib/branding';
+
+// Branding settings, stored in the account's Drive app data
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const settings = await getBrandingSettings(token);
+
+    return NextResponse.json({
+      success: true,
+      settings
+    });
+
+  } catch (error) {
+    console.error('Failed to load branding settings:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load branding settings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const body: Partial<BrandingSettings> = await request.json();
+    const current = await getBrandingSettings(token);
+
+    // The logo is only changed through /api/branding/logo
+    const settings = await saveBrandingSettings(token, {
+      ...current,
+      ...body,
+      logoFileId: current.logoFileId,
+      logoMimeType: current.logoMimeType,
+    });
+
+    return NextResponse.json({
+      success: true,
+      settings
+    });
+
+  } catch (error) {
+    console.error('Failed to save branding settings:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save branding settings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDriveFile, getGoogleUser } from '@/lib/drive';
+import { jobQueue } from '@/lib/jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!token || !user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Not authenticated' 
+      }, { status: 401 });
+    }
+
+    const { jobId } = await params;
+    const job = jobQueue.get(jobId);
+
+    // Jobs computing a result of the video itself can be followed by anyone
+    // who can open the video; cancelling stays with the user who queued it
+    const canFollow = job && (job.userId === user.id
+      || (job.shared && await canAccessDriveFile(token, job.videoId)));
+
+    if (!job || !canFollow) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Job not found' 
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ 
+      success: true, 
+      job 
+    });
+  } catch (error) {
+    console.error('Failed to fetch job:', error);
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Failed to fetch job' 
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Not authenticated' 
+      }, { status: 401 });
+    }
+
+    const { jobId } = await params;
+    const job = jobQueue.get(jobId);
+
+    if (!job || job.userId !== user.id) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Job not found' 
+      }, { status: 404 });
+    }
+
+    if (!jobQueue.cancel(jobId)) {
+      return NextResponse.json({ 
+        success: false, 
+        error: `Job already ${job.status}` 
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({ 
+      success: true, 
+      message: 'Job cancelled successfully',
+      job: jobQueue.get(jobId)
+    });
+  } catch (error) {
+    console.error('Failed to cancel job:', error);
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Failed to cancel job' 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGoogleUser } from '@/lib/drive';
+import { jobQueue } from '@/lib/jobs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Not authenticated' 
+      }, { status: 401 });
+    }
+
+    return NextResponse.json({ 
+      success: true, 
+      jobs: jobQueue.listForUser(user.id) 
+    });
+  } catch (error) {
+    console.error('Failed to list jobs:', error);
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Failed to list jobs' 
+    }, { status: 500 });
+  }
+}
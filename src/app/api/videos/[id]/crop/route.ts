@@ -0,0 +1,11 @@
+import { createAnalysisRoute } from '@/lib/videoAnalysis';
+
+// Detect black borders so the editor can suggest a crop
+const route = createAnalysisRoute({
+  kind: 'crop',
+  label: 'crop detection',
+  analyze: (editor, inputPath, settings, runOptions) => editor.detectCrop(inputPath, {}, runOptions),
+});
+
+export const GET = route.GET;
+export const POST = route.POST;
@@ -1,12 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+// Request headers forwarded to Drive so it can answer partial requests
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range'];
+
+// File extensions for MIME types we expect to serve
+const MIME_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'video/x-matroska': 'mkv',
+  'video/x-msvideo': 'avi',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/mp4': 'm4a',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// Drive response headers passed through to the client
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-length',
+  'content-range',
+  'etag',
+  'last-modified',
+];
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const token = request.cookies.get('google_token')?.value;
-    
+
     if (!token) {
       return NextResponse.json({ 
         success: false, 
@@ -15,29 +40,83 @@ export async function GET(
     }
 
     const fileId = (await params).id;
+    const disposition = request.nextUrl.searchParams.get('disposition') === 'inline'
+      ? 'inline'
+      : 'attachment';
 
-    
-    // Download file from Google Drive
-    const response = await fetch(
-      `https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`,
+    // Look up the real name and type so players and downloads get them right
+    const metadataResponse = await fetch(
+      `https://www.googleapis.com/drive/v3/files/${fileId}?fields=name,mimeType`,
       {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
+        signal: request.signal,
+      }
+    );
+
+    if (!metadataResponse.ok) {
+      if (metadataResponse.status === 404) {
+        return NextResponse.json({ 
+          success: false, 
+          error: 'Video not found' 
+        }, { status: 404 });
+      }
+      throw new Error('Failed to fetch file metadata');
+    }
+
+    const metadata: { name?: string; mimeType?: string } = await metadataResponse.json();
+    const mimeType = metadata.mimeType || 'application/octet-stream';
+    const fileName = withExtension(metadata.name || `video-${fileId}`, mimeType);
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${token}`,
+    };
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = request.headers.get(name);
+      if (value) {
+        headers[name] = value;
+      }
+    }
+
+    // Stream the file from Google Drive instead of buffering it
+    const response = await fetch(
+      `https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`,
+      {
+        headers,
+        signal: request.signal,
       }
     );
 
-    if (!response.ok) {
+    if (response.status === 416) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: {
+          'Content-Range': response.headers.get('content-range') || 'bytes */*',
+        },
+      });
+    }
+
+    if (!response.ok || !response.body) {
       throw new Error('Failed to download file');
     }
 
-    const fileBuffer = await response.arrayBuffer();
+    const responseHeaders = new Headers({
+      'Content-Type': mimeType,
+      'Content-Disposition': contentDisposition(disposition, fileName),
+      'Accept-Ranges': 'bytes',
+    });
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) {
+        responseHeaders.set(name, value);
+      }
+    }
 
-    return new NextResponse(fileBuffer, {
-      headers: {
-        'Content-Type': 'video/webm',
-        'Content-Disposition': `attachment; filename="video-${fileId}.webm"`,
-      },
+    // 206 Partial Content when Drive honoured the Range header
+    return new NextResponse(response.body, {
+      status: response.status,
+      headers: responseHeaders,
     });
   } catch (error) {
     console.error('Failed to download video:', error);
@@ -47,3 +126,30 @@ export async function GET(
     }, { status: 500 });
   }
 }
+
+/**
+ * Append the extension matching the MIME type if the name lacks one
+ */
+function withExtension(name: string, mimeType: string): string {
+  const extension = MIME_EXTENSIONS[mimeType];
+  if (!extension || /\.[a-z0-9]{2,4}$/i.test(name)) {
+    return name;
+  }
+  return `${name}.${extension}`;
+}
+
+/**
+ * Build a Content-Disposition header with an ASCII fallback and an
+ * RFC 5987 encoded UTF-8 filename
+ */
+function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const asciiName = fileName
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7e]/g, '')
+    .replace(/["\\]/g, '_')
+    .trim() || 'video';
+  const encodedName = encodeURIComponent(fileName)
+    .replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FFmpegVideoEditor, ProcessAssets, VideoEditOptions } from '@/lib/ffmpeg';
+import { AUDIO_BITRATES, AUDIO_FORMATS, AudioFormat, isAudioFormat } from '@/lib/encodingProfiles';
+import { downloadDriveFile, findDriveFolder, getGoogleUser, requireSignedIn, uploadDriveFile } from '@/lib/drive';
+import { jobQueue } from '@/lib/jobs';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+
+const RECORDING_FOLDER_NAME = 'Screen Recordings';
+
+interface ExtractAudioRequest {
+  format: AudioFormat;
+  bitrate?: string;
+  edit?: VideoEditOptions; // Cuts and audio edits to apply; the whole track when unset
+  name?: string; // File name without extension
+}
+
+// Save the audio track as MP3, M4A or WAV to Drive in the background.
+// Downloads are extracted in the browser.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const body: ExtractAudioRequest = await request.json();
+
+    if (!isAudioFormat(body.format)) {
+      return NextResponse.json({
+        success: false,
+        error: `format must be one of ${Object.keys(AUDIO_FORMATS).join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (body.bitrate !== undefined && !AUDIO_BITRATES.includes(body.bitrate)) {
+      return NextResponse.json({
+        success: false,
+        error: `bitrate must be one of ${AUDIO_BITRATES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const { format, bitrate, edit } = body;
+    const fileName = `${body.name?.trim() || `audio_${Date.now()}`}.${format}`;
+    const mimeType = AUDIO_FORMATS[format].mimeType;
+
+    // Download the source, plus the overlay video and music whose sound is mixed in
+    const prepare = async (tempDir: string, signal: AbortSignal) => {
+      await mkdir(tempDir, { recursive: true });
+      const inputPath = path.join(tempDir, 'input');
+      const assets: ProcessAssets = {};
+
+      await downloadDriveFile(token, id, inputPath, signal);
+      if (edit?.pictureInPicture) {
+        assets.pipPath = path.join(tempDir, 'pip');
+        await downloadDriveFile(token, edit.pictureInPicture.videoId, assets.pipPath, signal);
+      }
+      if (edit?.backgroundMusic) {
+        assets.musicPath = path.join(tempDir, 'music');
+        await downloadDriveFile(token, edit.backgroundMusic.fileId, assets.musicPath, signal);
+      }
+
+      return { inputPath, outputPath: path.join(tempDir, `output.${format}`), assets };
+    };
+
+    const user = await getGoogleUser(token);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const folderId = await findDriveFolder(token, RECORDING_FOLDER_NAME);
+    if (!folderId) {
+      return NextResponse.json({
+        success: false,
+        error: `${RECORDING_FOLDER_NAME} folder not found`
+      }, { status: 404 });
+    }
+
+    const job = jobQueue.enqueue(
+      { type: 'extract-audio', userId: user.id, videoId: id },
+      async ({ jobId, signal, setStage, setPercent }) => {
+        const tempDir = path.join(process.cwd(), 'temp', jobId);
+
+        try {
+          setStage('downloading');
+          await requireSignedIn(token);
+          const { inputPath, outputPath, assets } = await prepare(tempDir, signal);
+
+          setStage('processing');
+          const editor = new FFmpegVideoEditor(tempDir);
+          editor.on('progress', ({ percent, timemark, fps, speed }) => {
+            setPercent(percent, { timemark, fps, speed });
+          });
+          await editor.extractAudio(inputPath, outputPath, { format, bitrate, edit }, { signal }, assets);
+
+          setStage('uploading');
+          await requireSignedIn(token);
+          const uploadResult = await uploadDriveFile(token, {
+            name: fileName,
+            parents: [folderId],
+            mimeType,
+          }, outputPath, signal);
+
+          return { fileId: uploadResult.id };
+        } finally {
+          // Clean up temp files
+          await rm(tempDir, { recursive: true, force: true });
+        }
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Audio extraction queued',
+      jobId: job.id,
+      job
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Failed to extract audio:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to extract audio',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
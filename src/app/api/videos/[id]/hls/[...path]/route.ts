@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDriveFile } from '@/lib/drive';
+import { resolveHlsFile } from '@/lib/hlsCache';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+
+// Playlists name their segments with relative URIs, so they resolve to
+// this route too
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.mp4': 'video/mp4',
+  '.m4s': 'video/iso.segment',
+};
+
+// Serve a packaged playlist or segment to anyone who can read the video
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  try {
+    const { id, path: parts } = await params;
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const filePath = resolveHlsFile(id, parts);
+    if (!filePath || !await canAccessDriveFile(token, id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not found'
+      }, { status: 404 });
+    }
+
+    let size: number;
+    try {
+      ({ size } = await stat(filePath));
+    } catch {
+      return NextResponse.json({
+        success: false,
+        error: 'Not found'
+      }, { status: 404 });
+    }
+
+    const extension = filePath.slice(filePath.lastIndexOf('.'));
+    return new NextResponse(Readable.toWeb(createReadStream(filePath)) as ReadableStream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+        'Content-Length': String(size),
+        // Packaged files only change if the video is packaged again
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to serve stream file:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to serve stream file'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FFmpegVideoEditor } from '@/lib/ffmpeg';
+import { canAccessDriveFile, downloadDriveFile, getGoogleUser, requireSignedIn } from '@/lib/drive';
+import { createHlsWorkDir, publishHls, readHlsManifest } from '@/lib/hlsCache';
+import { jobQueue } from '@/lib/jobs';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+
+const HLS_JOB_TYPE = 'hls';
+
+// Whether the video has been packaged for streaming, and the packaging
+// job in progress if there is one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!token || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    if (!await canAccessDriveFile(token, id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Video not found'
+      }, { status: 404 });
+    }
+
+    const manifest = await readHlsManifest(id);
+    const job = jobQueue.findActive(HLS_JOB_TYPE, id);
+
+    return NextResponse.json({
+      success: true,
+      ready: Boolean(manifest),
+      manifest,
+      jobId: job?.id
+    });
+
+  } catch (error) {
+    console.error('Failed to read streaming status:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read streaming status',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Package the video as multi-bitrate HLS in the background
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!token || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    if (!await canAccessDriveFile(token, id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Video not found'
+      }, { status: 404 });
+    }
+
+    const manifest = await readHlsManifest(id);
+    if (manifest) {
+      return NextResponse.json({
+        success: true,
+        ready: true,
+        manifest
+      });
+    }
+
+    // Opening the video again, as anyone, reuses the packaging job in progress
+    const running = jobQueue.findActive(HLS_JOB_TYPE, id);
+    if (running) {
+      return NextResponse.json({
+        success: true,
+        message: 'Streaming packaging already queued',
+        jobId: running.id,
+        job: running
+      }, { status: 202 });
+    }
+
+    const job = jobQueue.enqueue(
+      { type: HLS_JOB_TYPE, userId: user.id, videoId: id, shared: true },
+      async ({ jobId, signal, setStage, setPercent }) => {
+        const tempDir = path.join(process.cwd(), 'temp', jobId);
+        const inputPath = path.join(tempDir, 'input');
+        const workDir = await createHlsWorkDir(id, jobId);
+
+        try {
+          setStage('downloading');
+          await requireSignedIn(token);
+          await mkdir(tempDir, { recursive: true });
+          await downloadDriveFile(token, id, inputPath, signal);
+
+          setStage('processing');
+          const editor = new FFmpegVideoEditor(tempDir);
+          editor.on('progress', ({ percent, timemark, fps, speed }) => {
+            setPercent(percent, { timemark, fps, speed });
+          });
+          const packaged = await editor.packageHls(inputPath, workDir, undefined, { signal });
+          await publishHls(id, workDir, packaged);
+
+          return { manifest: packaged };
+        } finally {
+          // Clean up temp files, and the work directory if it was not published
+          await rm(tempDir, { recursive: true, force: true });
+          await rm(workDir, { recursive: true, force: true });
+        }
+      },
+      // Streaming is a nicety over the proxied file; it never holds up an export
+      'background'
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Streaming packaging queued',
+      jobId: job.id,
+      job
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Failed to queue streaming packaging:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to queue streaming packaging',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
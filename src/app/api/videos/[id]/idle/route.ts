@@ -0,0 +1,28 @@
+import { createAnalysisRoute } from '@/lib/videoAnalysis';
+
+// Accepted freezedetect settings
+const MIN_NOISE = -90;
+const MAX_NOISE = -10;
+const MAX_MIN_DURATION = 120;
+
+// Find stretches where the screen does not change so the editor can cut or fast-forward them
+const route = createAnalysisRoute({
+  kind: 'idle',
+  label: 'idle screen detection',
+  parseSettings: (searchParams) => {
+    const noise = Number(searchParams.get('noise') ?? -50);
+    const minDuration = Number(searchParams.get('minDuration') ?? 3);
+
+    if (!Number.isFinite(noise) || noise < MIN_NOISE || noise > MAX_NOISE) {
+      return `noise must be between ${MIN_NOISE} and ${MAX_NOISE} dB`;
+    }
+    if (!Number.isFinite(minDuration) || minDuration <= 0 || minDuration > MAX_MIN_DURATION) {
+      return `minDuration must be between 0 and ${MAX_MIN_DURATION} seconds`;
+    }
+    return { noise, minDuration };
+  },
+  analyze: (editor, inputPath, settings, runOptions) => editor.detectIdle(inputPath, settings, runOptions),
+});
+
+export const GET = route.GET;
+export const POST = route.POST;
@@ -0,0 +1,13 @@
+import { createAnalysisRoute } from '@/lib/videoAnalysis';
+
+// Keyframe positions of the video, for lossless trims and the timeline
+// ticks. Probing needs the whole file, which can take longer to download
+// than a request may stay open.
+const route = createAnalysisRoute({
+  kind: 'keyframes',
+  label: 'keyframe search',
+  analyze: (editor, inputPath, settings, runOptions) => editor.getKeyframes(inputPath, runOptions),
+});
+
+export const GET = route.GET;
+export const POST = route.POST;
@@ -0,0 +1,11 @@
+import { createAnalysisRoute } from '@/lib/videoAnalysis';
+
+// Measure the integrated loudness and true peak of the original audio
+const route = createAnalysisRoute({
+  kind: 'loudness',
+  label: 'loudness measurement',
+  analyze: (editor, inputPath, settings, runOptions) => editor.measureLoudness(inputPath, runOptions),
+});
+
+export const GET = route.GET;
+export const POST = route.POST;
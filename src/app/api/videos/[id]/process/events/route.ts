@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDriveFile, getGoogleUser } from '@/lib/drive';
+import { isActive, Job, jobQueue } from '@/lib/jobs';
+
+// Keeps proxies from closing an idle stream while FFmpeg is still probing
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!token || !user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Not authenticated' 
+      }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    // Without a jobId, follow the user's most recent export of this video;
+    // thumbnails, keyframes and streaming have jobs of their own
+    const job = jobId
+      ? jobQueue.get(jobId)
+      : jobQueue.listForUser(user.id).find(candidate => candidate.videoId === id && candidate.type === 'process');
+
+    // Jobs computing a result of the video itself can be followed by anyone
+    // who can open the video
+    const canFollow = job?.videoId === id && (job.userId === user.id
+      || (job.shared && await canAccessDriveFile(token, id)));
+
+    if (!job || !canFollow) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Job not found' 
+      }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const send = (event: string, data: Job) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const handleUpdate = (update: Job) => {
+          if (closed || update.id !== job.id) return;
+
+          if (isActive(update)) {
+            send('progress', update);
+          } else {
+            send('end', update);
+            cleanup();
+            controller.close();
+          }
+        };
+
+        const keepAlive = setInterval(() => {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        }, KEEP_ALIVE_INTERVAL_MS);
+
+        const handleDisconnect = () => {
+          if (!closed) {
+            cleanup();
+            controller.close();
+          }
+        };
+
+        cleanup = () => {
+          closed = true;
+          clearInterval(keepAlive);
+          jobQueue.off('update', handleUpdate);
+          request.signal.removeEventListener('abort', handleDisconnect);
+        };
+
+        jobQueue.on('update', handleUpdate);
+        request.signal.addEventListener('abort', handleDisconnect, { once: true });
+
+        // Send the current state straight away
+        handleUpdate(jobQueue.get(job.id) ?? job);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to stream job progress:', error);
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Failed to stream job progress' 
+    }, { status: 500 });
+  }
+}
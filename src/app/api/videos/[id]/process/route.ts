@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { FFmpegVideoEditor, VideoEditOptions } from '@/lib/ffmpeg';
+import { getContainerMimeType, getEncodingProfile } from '@/lib/encodingProfiles';
+import { downloadDriveFile, getGoogleUser, requireSignedIn, uploadDriveFile } from '@/lib/drive';
+import { jobQueue } from '@/lib/jobs';
 import path from 'path';
-import fs from 'fs/promises';
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir, rm } from 'fs/promises';
+
+// Folder that processed videos are uploaded to
+const OUTPUT_FOLDER_ID = '1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms'; // Replace with your folder ID
 
 export async function POST(
   request: NextRequest,
@@ -19,100 +24,100 @@ export async function POST(
       }, { status: 401 });
     }
 
-    const editOptions: VideoEditOptions = await request.json();
-    
-    // Create temp directory
-    const tempDir = path.join(process.cwd(), 'temp', id);
-    await mkdir(tempDir, { recursive: true });
-
-    const editor = new FFmpegVideoEditor(tempDir);
-    
-    // Download original video
-    const downloadResponse = await fetch(
-      `https://www.googleapis.com/drive/v3/files/${id}?alt=media`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
-
-    if (!downloadResponse.ok) {
-      throw new Error('Failed to download video from Google Drive');
+    const user = await getGoogleUser(token);
+    if (!user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Not authenticated' 
+      }, { status: 401 });
     }
 
-    const videoBuffer = await downloadResponse.arrayBuffer();
-    const inputPath = path.join(tempDir, 'input.webm');
-    await writeFile(inputPath, Buffer.from(videoBuffer));
-
-    // Get video info
-    const videoInfo = await editor.getVideoInfo(inputPath);
-    console.log('Video info:', videoInfo);
-
-    // Process video with FFmpeg
-    const outputPath = path.join(tempDir, 'output.mp4');
-    await editor.processVideo(inputPath, outputPath, editOptions);
+    const editOptions: VideoEditOptions = await request.json();
 
-    // Upload processed video back to Google Drive
-    const processedVideoBuffer = await fs.readFile(outputPath);
-    
-    // Create metadata for the new file
-    const metadata = {
-      name: `edited_${Date.now()}.mp4`,
-      parents: ['1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms'] // Replace with your folder ID
-    };
-
-    // Upload to Google Drive
-    const uploadResponse = await fetch(
-      'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-        body: createMultipartBody(metadata, processedVideoBuffer)
+    // Processing runs in the background; clients poll /api/jobs/[jobId]
+    // or subscribe to /api/videos/[id]/process/events
+    const job = jobQueue.enqueue(
+      { type: 'process', userId: user.id, videoId: id },
+      async ({ jobId, signal, setStage, setPercent }) => {
+        const tempDir = path.join(process.cwd(), 'temp', jobId);
+        await mkdir(tempDir, { recursive: true });
+
+        const editor = new FFmpegVideoEditor(tempDir);
+        const profile = getEncodingProfile(editOptions.quality);
+        const inputPath = path.join(tempDir, 'input.webm');
+        const outputPath = path.join(tempDir, `output.${profile.container}`);
+        const watermarkFileId = editOptions.watermark?.imageFileId;
+        const watermarkPath = watermarkFileId ? path.join(tempDir, 'watermark') : undefined;
+        const pipFileId = editOptions.pictureInPicture?.videoId;
+        const pipPath = pipFileId ? path.join(tempDir, 'pip') : undefined;
+        const musicFileId = editOptions.backgroundMusic?.fileId;
+        const musicPath = musicFileId ? path.join(tempDir, 'music') : undefined;
+
+        try {
+          // Download original video, plus the logo from Drive app data,
+          // the picture-in-picture video and the background music
+          setStage('downloading');
+          await requireSignedIn(token);
+          await downloadDriveFile(token, id, inputPath, signal);
+          if (watermarkFileId && watermarkPath) {
+            await downloadDriveFile(token, watermarkFileId, watermarkPath, signal);
+          }
+          if (pipFileId && pipPath) {
+            await downloadDriveFile(token, pipFileId, pipPath, signal);
+          }
+          if (musicFileId && musicPath) {
+            await downloadDriveFile(token, musicFileId, musicPath, signal);
+          }
+
+          // Get video info
+          setStage('probing');
+          const videoInfo = await editor.getVideoInfo(inputPath);
+          console.log('Video info:', videoInfo);
+
+          // Process video with FFmpeg
+          setStage('processing');
+          editor.on('progress', ({ percent, timemark, fps, speed }) => {
+            setPercent(percent, { timemark, fps, speed });
+          });
+          await editor.processVideo(inputPath, outputPath, editOptions, { signal }, { watermarkPath, pipPath, musicPath });
+
+          // Upload processed video back to Google Drive
+          setStage('uploading');
+          await requireSignedIn(token);
+          const uploadResult = await uploadDriveFile(token, {
+            name: `edited_${Date.now()}.${profile.container}`,
+            parents: [OUTPUT_FOLDER_ID],
+            mimeType: getContainerMimeType(profile),
+          }, outputPath, signal);
+
+          return {
+            videoId: uploadResult.id,
+            videoInfo: videoInfo
+          };
+        } finally {
+          // Clean up temp files
+          await rm(tempDir, { recursive: true, force: true });
+        }
       }
     );
 
-    if (!uploadResponse.ok) {
-      const error = await uploadResponse.text();
-      throw new Error(`Failed to upload processed video: ${error}`);
-    }
-
-    const uploadResult = await uploadResponse.json();
-
-    // Clean up temp files
-    await editor.cleanup([inputPath, outputPath]);
-
     return NextResponse.json({
       success: true,
-      message: 'Video processed successfully',
-      videoId: uploadResult.id,
-      videoInfo: videoInfo
-    });
+      message: 'Video processing queued',
+      jobId: job.id,
+      job
+    }, { status: 202 });
 
   } catch (error) {
-    console.error('Video processing failed:', error);
+    console.error('Failed to queue video processing:', error);
     return NextResponse.json({
       success: false,
-      error: 'Video processing failed',
+      error: 'Failed to queue video processing',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
 }
 
-function createMultipartBody(metadata: { name: string; parents: string[] }, fileBuffer: Buffer): FormData {
-  const formData = new FormData();
-  
-  // Add metadata part
-  formData.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
-  
-  // Add file part
-  formData.append('file', new Blob([new Uint8Array(fileBuffer)], { type: 'video/mp4' }), 'video.mp4');
-  
-  return formData;
-}
-
 // Get video info endpoint
 export async function GET(
   request: NextRequest,
@@ -0,0 +1,28 @@
+import { createAnalysisRoute } from '@/lib/videoAnalysis';
+
+// Accepted silencedetect settings
+const MIN_THRESHOLD = -90;
+const MAX_THRESHOLD = -10;
+const MAX_MIN_DURATION = 30;
+
+// Find pauses in the audio so the editor can offer to cut them
+const route = createAnalysisRoute({
+  kind: 'silences',
+  label: 'silence detection',
+  parseSettings: (searchParams) => {
+    const threshold = Number(searchParams.get('threshold') ?? -35);
+    const minDuration = Number(searchParams.get('minDuration') ?? 1);
+
+    if (!Number.isFinite(threshold) || threshold < MIN_THRESHOLD || threshold > MAX_THRESHOLD) {
+      return `threshold must be between ${MIN_THRESHOLD} and ${MAX_THRESHOLD} dB`;
+    }
+    if (!Number.isFinite(minDuration) || minDuration <= 0 || minDuration > MAX_MIN_DURATION) {
+      return `minDuration must be between 0 and ${MAX_MIN_DURATION} seconds`;
+    }
+    return { threshold, minDuration };
+  },
+  analyze: (editor, inputPath, settings, runOptions) => editor.detectSilence(inputPath, settings, runOptions),
+});
+
+export const GET = route.GET;
+export const POST = route.POST;
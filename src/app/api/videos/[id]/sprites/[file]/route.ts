@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canAccessDriveFile } from '@/lib/drive';
+import { getVideoCacheDir } from '@/lib/videoCache';
+import { getAnalysisVariant } from '@/lib/videoAnalysis';
+import { parseSpriteOptions, SPRITE_IMAGE_NAME, SPRITE_TRACK_NAME } from '@/lib/sprites';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// The track names the sheet with a relative URI carrying the sheet's
+// options, so it resolves here too
+const CONTENT_TYPES: Record<string, string> = {
+  [SPRITE_IMAGE_NAME]: 'image/jpeg',
+  [SPRITE_TRACK_NAME]: 'text/vtt; charset=utf-8',
+};
+
+// Serve the sprite sheet or its thumbnails track, made with the options in
+// the query, to anyone who can read the video
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; file: string }> }
+) {
+  try {
+    const { id, file } = await params;
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const contentType = CONTENT_TYPES[file];
+    const options = parseSpriteOptions(request.nextUrl.searchParams);
+    if (!contentType || typeof options === 'string' || !await canAccessDriveFile(token, id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not found'
+      }, { status: 404 });
+    }
+
+    let data: Buffer;
+    try {
+      data = await readFile(path.join(getVideoCacheDir('sprites', id, getAnalysisVariant(options)), file));
+    } catch {
+      return NextResponse.json({
+        success: false,
+        error: 'Not found'
+      }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(data.length),
+        // Sprites only change if they are generated again
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+
+  } catch (error) {
+    console.error('Failed to serve sprite file:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to serve sprite file'
+    }, { status: 500 });
+  }
+}
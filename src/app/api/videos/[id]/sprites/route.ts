@@ -0,0 +1,21 @@
+import { createAnalysisRoute } from '@/lib/videoAnalysis';
+import { parseSpriteOptions } from '@/lib/sprites';
+
+// Thumbnail sprite sheet and WebVTT track for timeline hover previews,
+// generated the first time a video is opened
+const route = createAnalysisRoute({
+  kind: 'sprites',
+  label: 'thumbnail sprites',
+  parseSettings: parseSpriteOptions,
+  // Thumbnails are a nicety; they never hold up an export
+  lane: 'background',
+  analyze: (editor, inputPath, options, runOptions, { workDir, searchParams }) => {
+    // Seconds, from Drive metadata; used when the file has none
+    const duration = Number(searchParams.get('duration'));
+    const knownDuration = Number.isFinite(duration) && duration > 0 ? duration : 0;
+    return editor.generateSprites(inputPath, workDir, options, knownDuration, runOptions);
+  },
+});
+
+export const GET = route.GET;
+export const POST = route.POST;
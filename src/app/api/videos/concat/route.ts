@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConcatOptions, FFmpegVideoEditor } from '@/lib/ffmpeg';
+import { getContainerMimeType, getEncodingProfile } from '@/lib/encodingProfiles';
+import { downloadDriveFile, findDriveFolder, getGoogleUser, requireSignedIn, uploadDriveFile } from '@/lib/drive';
+import { jobQueue } from '@/lib/jobs';
+import path from 'path';
+import { mkdir, rm } from 'fs/promises';
+
+const RECORDING_FOLDER_NAME = 'Screen Recordings';
+
+// Upper bound on clips per merge; each one is downloaded to disk first
+const MAX_CONCAT_VIDEOS = 20;
+
+// Longest crossfade we accept between two clips, in seconds
+const MAX_CROSSFADE = 5;
+
+interface ConcatRequest extends Partial<ConcatOptions> {
+  videoIds: string[]; // Drive file IDs, in playback order
+  name?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('google_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const user = await getGoogleUser(token);
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    const body: ConcatRequest = await request.json();
+    const videoIds = Array.isArray(body.videoIds)
+      ? body.videoIds.filter(id => typeof id === 'string' && id.length > 0)
+      : [];
+
+    if (videoIds.length < 2 || videoIds.length > MAX_CONCAT_VIDEOS) {
+      return NextResponse.json({
+        success: false,
+        error: `Select between 2 and ${MAX_CONCAT_VIDEOS} videos to merge`
+      }, { status: 400 });
+    }
+
+    const options: ConcatOptions = {
+      quality: body.quality || 'medium',
+      crossfade: Math.max(0, Math.min(Number(body.crossfade) || 0, MAX_CROSSFADE)),
+      // xfade transition names are plain lowercase words
+      transition: typeof body.transition === 'string' && /^[a-z]+$/.test(body.transition) ? body.transition : undefined,
+    };
+
+    const folderId = await findDriveFolder(token, RECORDING_FOLDER_NAME);
+    if (!folderId) {
+      return NextResponse.json({
+        success: false,
+        error: `${RECORDING_FOLDER_NAME} folder not found`
+      }, { status: 404 });
+    }
+
+    // The job is filed under the first clip so the progress stream at
+    // /api/videos/[firstId]/process/events can follow it
+    const job = jobQueue.enqueue(
+      { type: 'concat', userId: user.id, videoId: videoIds[0] },
+      async ({ jobId, signal, setStage, setPercent }) => {
+        const tempDir = path.join(process.cwd(), 'temp', jobId);
+        await mkdir(tempDir, { recursive: true });
+
+        const editor = new FFmpegVideoEditor(tempDir);
+        const profile = getEncodingProfile(options.quality);
+        const inputPaths = videoIds.map((_, index) => path.join(tempDir, `input_${index}`));
+        const outputPath = path.join(tempDir, `output.${profile.container}`);
+
+        try {
+          // Download every clip before starting FFmpeg
+          setStage('downloading');
+          await requireSignedIn(token);
+          for (const [index, videoId] of videoIds.entries()) {
+            await downloadDriveFile(token, videoId, inputPaths[index], signal);
+            setPercent(((index + 1) / videoIds.length) * 100);
+          }
+
+          setStage('processing');
+          editor.on('progress', ({ percent, timemark, fps, speed }) => {
+            setPercent(percent, { timemark, fps, speed });
+          });
+          await editor.concatVideos(inputPaths, outputPath, options, { signal });
+
+          setStage('uploading');
+          await requireSignedIn(token);
+          const uploadResult = await uploadDriveFile(token, {
+            name: `${body.name?.trim() || `merged_${Date.now()}`}.${profile.container}`,
+            parents: [folderId],
+            mimeType: getContainerMimeType(profile),
+          }, outputPath, signal);
+
+          return {
+            videoId: uploadResult.id,
+            sourceVideoIds: videoIds
+          };
+        } finally {
+          // Clean up temp files
+          await rm(tempDir, { recursive: true, force: true });
+        }
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Video merge queued',
+      jobId: job.id,
+      job
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Failed to queue video merge:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to queue video merge',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
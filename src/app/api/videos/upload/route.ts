@@ -30,15 +30,16 @@ export async function POST(request: NextRequest) {
     const drive = google.drive({ version: 'v3', auth });
 
     const fileBuffer = Buffer.from(await file.arrayBuffer());
+    const mimeType = file.type || 'video/mp4';
 
     const response = await drive.files.create({
       requestBody: {
         name: fileName,
         parents: [folderId],
-        mimeType: 'video/mp4',
+        mimeType,
       },
       media: {
-        mimeType: 'video/mp4',
+        mimeType,
         body: fileBuffer,
       },
       fields: 'id,webViewLink',
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import VideoList from '@/components/VideoList';
 import GoogleAuth from '@/components/GoogleAuth';
 import { Video } from '@/types/video';
@@ -94,6 +95,9 @@ export default function Home() {
           <p className="text-gray-600">
             Manage and edit your screen recordings from Google Drive
           </p>
+          <Link href="/settings/branding" className="inline-block mt-2 text-sm text-indigo-600 hover:text-indigo-800">
+            Branding settings
+          </Link>
         </header>
 
         <VideoList
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import GoogleAuth from '@/components/GoogleAuth';
+import WatermarkControls from '@/components/WatermarkControls';
+import WatermarkPreview from '@/components/WatermarkPreview';
+import type { BrandingSettings } from '@/lib/branding';
+
+// Frame size the preview lays the logo out against
+const PREVIEW_WIDTH = 1920;
+const PREVIEW_HEIGHT = 1080;
+
+export default function BrandingSettingsPage() {
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<BrandingSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [logoVersion, setLogoVersion] = useState(0);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/branding');
+      const data = await response.json();
+
+      if (data.success) {
+        setSettings(data.settings);
+      } else {
+        setMessage(data.error || 'Failed to load branding settings');
+      }
+    } catch (error) {
+      console.error('Failed to load branding settings:', error);
+      setMessage('Failed to load branding settings');
+    }
+  }, []);
+
+  const checkAuthentication = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/status');
+      const data = await response.json();
+      setIsAuthenticated(data.authenticated);
+
+      if (data.authenticated) {
+        await loadSettings();
+      }
+    } catch (error) {
+      console.error('Failed to check authentication:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [loadSettings]);
+
+  useEffect(() => {
+    checkAuthentication();
+  }, [checkAuthentication]);
+
+  const handleLogoUpload = async (file: File) => {
+    try {
+      setUploading(true);
+      setMessage(null);
+
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/branding/logo', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSettings(data.settings);
+        setLogoVersion(version => version + 1);
+        setMessage('Logo uploaded');
+      } else {
+        setMessage(data.error || 'Failed to upload logo');
+      }
+    } catch (error) {
+      console.error('Failed to upload logo:', error);
+      setMessage('Failed to upload logo');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setMessage(null);
+
+      const response = await fetch('/api/branding', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSettings(data.settings);
+        setMessage('Branding saved');
+      } else {
+        setMessage(data.error || 'Failed to save branding settings');
+      }
+    } catch (error) {
+      console.error('Failed to save branding settings:', error);
+      setMessage('Failed to save branding settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <GoogleAuth onAuthenticated={checkAuthentication} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <header className="mb-8">
+          <Link href="/" className="text-sm text-indigo-600 hover:text-indigo-800">
+            ← Back to videos
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800 mt-2 mb-2">Branding</h1>
+          <p className="text-gray-600">
+            Upload your logo once and add it as a watermark to your exports. Settings are stored in your Google Drive app data.
+          </p>
+        </header>
+
+        {!settings ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm text-gray-700">
+            {message || 'Branding settings are unavailable. Try signing in again to grant access.'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm space-y-4">
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Logo</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  PNG with transparency works best. JPEG and WebP are accepted too.
+                </p>
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleLogoUpload(file);
+                    e.target.value = '';
+                  }}
+                  disabled={uploading}
+                  className="text-sm text-gray-700"
+                />
+                {uploading && <p className="text-sm text-gray-500 mt-2">Uploading...</p>}
+              </div>
+
+              <WatermarkControls
+                value={settings}
+                onChange={(changes) => setSettings({ ...settings, ...changes })}
+                disabled={saving}
+              />
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.applyByDefault}
+                  onChange={(e) => setSettings({ ...settings, applyByDefault: e.target.checked })}
+                  disabled={saving || !settings.logoFileId}
+                />
+                Add the watermark to every export by default
+              </label>
+
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white rounded-lg transition duration-200"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                {message && <span className="text-sm text-gray-600">{message}</span>}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-4">Preview</h3>
+              <div className="relative aspect-video rounded-lg overflow-hidden bg-gradient-to-br from-slate-700 to-slate-900">
+                {settings.logoFileId ? (
+                  <WatermarkPreview
+                    videoWidth={PREVIEW_WIDTH}
+                    videoHeight={PREVIEW_HEIGHT}
+                    watermark={settings}
+                    logoUrl={`/api/branding/logo?v=${logoVersion}`}
+                  />
+                ) : (
+                  <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-300">
+                    No logo uploaded yet
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
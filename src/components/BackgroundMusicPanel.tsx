@@ -0,0 +1,201 @@
+'use client';
+
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import type { VideoEditOptions } from '@/types/video';
+import type { BackgroundMusic } from '@/lib/filterGraph';
+import type { DriveFile } from '@/lib/drive';
+
+/**
+ * The music bed in the edit options
+ */
+export function useBackgroundMusic(
+  backgroundMusic: BackgroundMusic | undefined,
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>
+) {
+  const select = (file: DriveFile | undefined) => {
+    setEditOptions(prev => {
+      if (!file) {
+        return { ...prev, backgroundMusic: undefined };
+      }
+      // Keep the levels and placement when switching to another file
+      const music: BackgroundMusic = prev.backgroundMusic
+        ? { ...prev.backgroundMusic, fileId: file.id, name: file.name }
+        : { fileId: file.id, name: file.name, start: 0, volume: 25, loop: true, fadeIn: 2, fadeOut: 3, ducking: true };
+      return { ...prev, backgroundMusic: music };
+    });
+  };
+
+  const update = (changes: Partial<BackgroundMusic>) => {
+    setEditOptions(prev => prev.backgroundMusic
+      ? { ...prev, backgroundMusic: { ...prev.backgroundMusic, ...changes } }
+      : prev);
+  };
+
+  return { music: backgroundMusic, select, update };
+}
+
+export type BackgroundMusicEditor = ReturnType<typeof useBackgroundMusic>;
+
+interface BackgroundMusicPanelProps {
+  editor: BackgroundMusicEditor;
+  disabled?: boolean;
+}
+
+/**
+ * Picks a music bed from Drive or an upload and sets its levels
+ */
+export default function BackgroundMusicPanel({ editor, disabled = false }: BackgroundMusicPanelProps) {
+  const [audioFiles, setAudioFiles] = useState<DriveFile[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState('');
+  const { music } = editor;
+
+  // Audio files in Drive that can be used as background music
+  useEffect(() => {
+    const loadAudioFiles = async () => {
+      const response = await fetch('/api/audio');
+      const data = await response.json();
+      if (data.success) {
+        setAudioFiles(data.files);
+      }
+    };
+
+    loadAudioFiles().catch((error) => {
+      console.error('Failed to load audio files:', error);
+    });
+  }, []);
+
+  // Local files go to Drive first so the server export can read them too
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setMessage('');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/audio', {
+        method: 'POST',
+        body: formData
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setAudioFiles(prev => [data.file, ...prev]);
+        editor.select(data.file);
+      } else {
+        setMessage(data.error || 'Failed to upload music');
+      }
+    } catch (error) {
+      console.error('Failed to upload music:', error);
+      setMessage('Failed to upload music');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🎵</span>
+        Background Music
+      </h3>
+      <div className="space-y-3 text-sm text-gray-700">
+        <p className="text-gray-600">
+          Add a music bed from Drive or your computer. It plays on across cuts and drags on the Music lane.
+        </p>
+        <select
+          value={music?.fileId || ''}
+          onChange={(e) => editor.select(audioFiles.find(file => file.id === e.target.value))}
+          disabled={disabled}
+          className="w-full p-1 border border-gray-300 rounded bg-white text-gray-900"
+        >
+          <option value="">None</option>
+          {audioFiles.map(file => (
+            <option key={file.id} value={file.id}>{file.name}</option>
+          ))}
+        </select>
+        <label className="block">
+          <span className="block mb-1">Or upload</span>
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+              e.target.value = '';
+            }}
+            disabled={disabled || uploading}
+            className="text-sm text-gray-700"
+          />
+        </label>
+        {uploading && <p className="text-gray-500">Uploading to Drive...</p>}
+        {music && (
+          <>
+            <label className="block">
+              <span className="block mb-1">Volume: {music.volume}%</span>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="5"
+                value={music.volume}
+                onChange={(e) => editor.update({ volume: parseInt(e.target.value) })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex items-center gap-1">
+                Fade in
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={music.fadeIn}
+                  onChange={(e) => editor.update({ fadeIn: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  disabled={disabled}
+                  className="w-16 p-1 border border-gray-300 rounded bg-white text-gray-900"
+                />
+                s
+              </label>
+              <label className="flex items-center gap-1">
+                Fade out
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={music.fadeOut}
+                  onChange={(e) => editor.update({ fadeOut: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  disabled={disabled}
+                  className="w-16 p-1 border border-gray-300 rounded bg-white text-gray-900"
+                />
+                s
+              </label>
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={music.loop}
+                onChange={(e) => editor.update({ loop: e.target.checked })}
+                disabled={disabled}
+              />
+              Loop until the end
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={music.ducking}
+                onChange={(e) => editor.update({ ducking: e.target.checked })}
+                disabled={disabled}
+              />
+              Lower the music while someone is talking
+            </label>
+          </>
+        )}
+        {message && (
+          <p className="text-amber-700">{message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
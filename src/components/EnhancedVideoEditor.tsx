@@ -1,10 +1,89 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
 import { Video, VideoEditOptions } from '@/types/video';
-import Timeline from './Timeline';
+import {
+  AUDIO_BITRATES,
+  AUDIO_FORMATS,
+  AudioFormat,
+  DEFAULT_AUDIO_BITRATE,
+  getContainerMimeType,
+  getEncodingProfile,
+  getResolutionLabel,
+  listEncodingProfiles
+} from '@/lib/encodingProfiles';
+import {
+  buildAnimationArgs,
+  buildAudioPreviewArgs,
+  buildEditArgs,
+  buildTrimArgs,
+  deleteEditInputs,
+  deleteFiles,
+  loadBackgroundMusic,
+  loadOverlayFonts,
+  loadPictureInPicture,
+  loadWatermark,
+  PALETTE_FILE_NAME,
+  probeCodecs,
+  probeInput,
+  TRIM_LIST_FILE_NAME
+} from '@/lib/browserFFmpeg';
+import {
+  getBoundaryEncodingArgs,
+  getStreamCopyConflicts,
+  planFastTrim,
+  planSmartTrim,
+  TRIM_MODES,
+  TrimMode
+} from '@/lib/fastTrim';
+import {
+  formatTime,
+  nextPlayableTime,
+  overlayRanges,
+  shrinkRanges,
+  subtractRanges,
+  TimeRange,
+  totalDuration
+} from '@/lib/timeRanges';
+import { getZoomView, interpolateKeyframes } from '@/lib/keyframes';
+import { getLoudnessPresetId, LOUDNESS_PRESETS, LoudnessMeasurement, LoudnessPresetId } from '@/lib/loudness';
+import { waitForJob } from '@/lib/jobProgress';
+import {
+  getOutputTime,
+  getPlaybackRanges,
+  NOISE_REDUCTION_PRESETS,
+  NoiseReductionStrength
+} from '@/lib/filterGraph';
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FPS_OPTIONS,
+  ANIMATION_WIDTH_OPTIONS,
+  AnimationFormat,
+  AnimationOptions,
+  DEFAULT_ANIMATION_OPTIONS,
+  DITHER_MODES,
+  DitherMode,
+  estimateAnimationSize,
+  getAnimationSize
+} from '@/lib/animation';
+import type { CropRect } from '@/lib/filterGraph';
+import Timeline, { TimelineRegion, TimelineTrack } from './Timeline';
+import RegionOverlay, { useContainedBox } from './RegionOverlay';
+import RedactionPreview from './RedactionPreview';
+import TextOverlayPreview from './TextOverlayPreview';
+import WatermarkPreview from './WatermarkPreview';
+import PictureInPicturePreview from './PictureInPicturePreview';
+import RedactionPanel, { useRedactions } from './RedactionPanel';
+import TextOverlayPanel, { useTextOverlays } from './TextOverlayPanel';
+import WatermarkPanel from './WatermarkPanel';
+import PictureInPicturePanel from './PictureInPicturePanel';
+import ZoomPanel, { useZoomKeyframes } from './ZoomPanel';
+import BackgroundMusicPanel, { useBackgroundMusic } from './BackgroundMusicPanel';
+import SpeedRangesPanel, { useSpeedRanges } from './SpeedRangesPanel';
+import { useHlsPlayback } from './useHlsPlayback';
+import { useSpriteThumbnails } from './useSpriteThumbnails';
 
 interface EnhancedVideoEditorProps {
   video: Video;
@@ -12,6 +91,35 @@ interface EnhancedVideoEditorProps {
   onCancel: () => void;
 }
 
+const LOGO_URL = '/api/branding/logo';
+
+// Length of the noise reduction A/B snippet, in seconds
+const NOISE_PREVIEW_LENGTH = 8;
+
+const PROFILE_COLORS = [
+  'bg-blue-50 border-blue-200 text-blue-700',
+  'bg-green-50 border-green-200 text-green-700',
+  'bg-purple-50 border-purple-200 text-purple-700',
+  'bg-amber-50 border-amber-200 text-amber-700'
+];
+
+// What the save dialog exports: the edited video, its soundtrack, or a
+// silent GIF/WebP for pasting into pull requests and chat
+type ExportMode = 'video' | 'audio' | 'animation';
+
+// Animations much larger than this are rejected by many chat and code
+// review tools
+const LARGE_ANIMATION_SIZE = 10 * 1024 * 1024;
+
+// Recordings at least this long are offered adaptive streaming, in seconds
+const LONG_VIDEO_DURATION = 10 * 60;
+
+// A range found by analysing the video, which the user can pick to cut
+interface DetectedRange extends TimeRange {
+  id: string;
+  selected: boolean;
+}
+
 interface ProcessingState {
   isProcessing: boolean;
   progress: number;
@@ -20,12 +128,32 @@ interface ProcessingState {
 
 export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEditorProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const videoContainerRef = useRef<HTMLDivElement>(null);
   const ffmpegRef = useRef<FFmpeg | null>(null);
   
-  const [loading, setLoading] = useState(false);
-  const [videoUrl, setVideoUrl] = useState<string>('');
   const [videoBlob, setVideoBlob] = useState<Blob | null>(null);
   const [duration, setDuration] = useState(0);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [cropMode, setCropMode] = useState(false);
+  const [detectingCrop, setDetectingCrop] = useState(false);
+  const [cropMessage, setCropMessage] = useState('');
+  const [silences, setSilences] = useState<DetectedRange[]>([]);
+  const [silenceSettings, setSilenceSettings] = useState({ threshold: -35, minDuration: 1, padding: 0.25 });
+  const [detectingSilence, setDetectingSilence] = useState(false);
+  const [silenceMessage, setSilenceMessage] = useState('');
+  const [idleRanges, setIdleRanges] = useState<DetectedRange[]>([]);
+  const [idleSettings, setIdleSettings] = useState({ minDuration: 3, action: 'fast-forward' as 'cut' | 'fast-forward', speed: 8 });
+  const [detectingIdle, setDetectingIdle] = useState(false);
+  const [idleMessage, setIdleMessage] = useState('');
+  const [loudness, setLoudness] = useState<LoudnessMeasurement | null>(null);
+  const [measuringLoudness, setMeasuringLoudness] = useState(false);
+  const [loudnessMessage, setLoudnessMessage] = useState('');
+  const [noisePreview, setNoisePreview] = useState<{ original: string; cleaned: string } | null>(null);
+  const [noisePreviewSide, setNoisePreviewSide] = useState<'original' | 'cleaned'>('cleaned');
+  const [previewingNoise, setPreviewingNoise] = useState(false);
+  const [noiseMessage, setNoiseMessage] = useState('');
+  const noiseAudioRef = useRef<HTMLAudioElement>(null);
+  const noiseResumeRef = useRef<{ position: number; playing: boolean } | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [processing, setProcessing] = useState<ProcessingState>({
@@ -43,6 +171,19 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
   const [showSuccessPopup, setShowSuccessPopup] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
   const [successType, setSuccessType] = useState<'download' | 'google-drive'>('download');
+  const [exportMode, setExportMode] = useState<ExportMode>('video');
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>('mp3');
+  const [audioBitrate, setAudioBitrate] = useState(DEFAULT_AUDIO_BITRATE);
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS);
+  const [exporting, setExporting] = useState(false);
+  const [trimMode, setTrimMode] = useState<TrimMode>('reencode');
+  const [keyframes, setKeyframes] = useState<number[] | null>(null);
+  const [loadingKeyframes, setLoadingKeyframes] = useState(false);
+  const [keyframesError, setKeyframesError] = useState<string | null>(null);
+  const [snapToKeyframes, setSnapToKeyframes] = useState(true);
+  const [copiedContainer, setCopiedContainer] = useState<string | null>(null); // Set when the output was stream-copied
+  const [packaging, setPackaging] = useState(false);
+  const [packagingError, setPackagingError] = useState<string | null>(null);
   
   const [editOptions, setEditOptions] = useState<VideoEditOptions>({
     startTime: 0,
@@ -51,9 +192,30 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
     fadeIn: 0,
     fadeOut: 0,
     speed: 1,
-    quality: 'medium'
+    quality: 'medium',
+    segments: []
   });
 
+  const redactionEditor = useRedactions(editOptions.redactions || [], setEditOptions);
+  const textOverlayEditor = useTextOverlays(editOptions.textOverlays || [], setEditOptions);
+  const speedRangeEditor = useSpeedRanges(editOptions.speedRanges || [], setEditOptions);
+  const speedRanges = speedRangeEditor.items;
+  const redactions = redactionEditor.items;
+  const selectedRedaction = redactionEditor.selected;
+  const zoomEditor = useZoomKeyframes(editOptions.zoomKeyframes || [], setEditOptions);
+  const musicEditor = useBackgroundMusic(editOptions.backgroundMusic, setEditOptions);
+  const zoomKeyframes = zoomEditor.items;
+  const selectedZoom = zoomEditor.selected;
+
+  // Zoom rectangles are in the pixels of the cropped frame
+  const zoomFrame = editOptions.crop || { x: 0, y: 0, width: videoSize.width, height: videoSize.height };
+  const videoBox = useContainedBox(videoContainerRef, videoSize.width, videoSize.height);
+
+  // The kept ranges; until the duration is known the whole video is kept
+  const segments: TimeRange[] = editOptions.segments && editOptions.segments.length > 0
+    ? editOptions.segments
+    : [{ start: 0, end: duration }];
+
   // Initialize FFmpeg
   useEffect(() => {
     const initFFmpeg = async () => {
@@ -76,49 +238,53 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
     });
   }, []);
 
-  const loadVideo = useCallback(async () => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/videos/${video.id}/download`);
-      const blob = await response.blob();
-      setVideoBlob(blob);
-      const url = URL.createObjectURL(blob);
-      setVideoUrl(url);
-    } catch (error) {
-      console.error('Failed to load video:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [video.id]);
+  // Stream the video through the download proxy so playback and seeking
+  // start immediately; the full file is only fetched when FFmpeg needs it
+  const videoUrl = `/api/videos/${video.id}/download?disposition=inline`;
+  // Long recordings play from their HLS renditions once they are packaged
+  const hls = useHlsPlayback(videoRef, video.id, videoUrl);
+  const thumbnails = useSpriteThumbnails(video.id, video.durationInMs ? video.durationInMs / 1000 : 0);
 
-  // Load video and set duration
+  // Set duration from Drive metadata when available
   useEffect(() => {
-    loadVideo();
     if (video.durationInMs) {
       setDuration(video.durationInMs / 1000);
     }
-  }, [video.id, video.durationInMs, loadVideo]);
+  }, [video.id, video.durationInMs]);
 
   // Cleanup URLs on unmount
   useEffect(() => {
     return () => {
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
-      }
       if (outputUrl) {
         URL.revokeObjectURL(outputUrl);
       }
     };
-  }, [videoUrl, outputUrl]);
+  }, [outputUrl]);
+
+  useEffect(() => {
+    return () => {
+      if (noisePreview) {
+        URL.revokeObjectURL(noisePreview.original);
+        URL.revokeObjectURL(noisePreview.cleaned);
+      }
+    };
+  }, [noisePreview]);
 
   const handleVideoLoaded = () => {
     if (videoRef.current) {
+      // Renditions are scaled down, but edits are in source pixels
+      setVideoSize(hls.manifest
+        ? { width: hls.manifest.width, height: hls.manifest.height }
+        : { width: videoRef.current.videoWidth, height: videoRef.current.videoHeight });
+
       const videoDuration = video.durationInMs ? video.durationInMs / 1000 : videoRef.current.duration;
       if (videoDuration && videoDuration !== duration) {
         setDuration(videoDuration);
         setEditOptions(prev => ({
           ...prev,
-          endTime: 100
+          startTime: 0,
+          endTime: 100,
+          segments: []
         }));
       }
     }
@@ -127,19 +293,31 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
   const handleTimeUpdate = () => {
     if (videoRef.current) {
       const currentVideoTime = videoRef.current.currentTime;
-      const startTime = (editOptions.startTime / 100) * duration;
-      const endTime = (editOptions.endTime / 100) * duration;
-      
-      // Constrain current time to stay exactly within trim range
-      const constrainedTime = Math.max(startTime, Math.min(currentVideoTime, endTime));
-      
-      // If video has gone beyond the end time, pause it
-      if (currentVideoTime >= endTime) {
+      const playableTime = nextPlayableTime(segments, currentVideoTime);
+
+      // Past the last kept segment: stop at its end
+      if (playableTime === null) {
+        const lastEnd = segments[segments.length - 1].end;
         videoRef.current.pause();
         setIsPlaying(false);
+        setCurrentTime(Math.min(currentVideoTime, lastEnd));
+        return;
       }
-      
-      setCurrentTime(constrainedTime);
+
+      // Inside a removed range: jump to the start of the next kept segment
+      if (playableTime !== currentVideoTime) {
+        videoRef.current.currentTime = playableTime;
+      }
+
+      // Speed ranges play back at their speed on top of the clip's; browsers
+      // allow 1/16x to 16x
+      const speedRange = speedRanges.find(range => playableTime >= range.start && playableTime < range.end);
+      const rate = Math.max(1 / 16, Math.min((speedRange?.speed ?? 1) * editOptions.speed, 16));
+      if (videoRef.current.playbackRate !== rate) {
+        videoRef.current.playbackRate = rate;
+      }
+
+      setCurrentTime(playableTime);
     }
   };
 
@@ -156,79 +334,398 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
 
   const handleSeek = (time: number) => {
     if (videoRef.current) {
-      // Constrain the seek time to be within the trim range
-      const startTime = (editOptions.startTime / 100) * duration;
-      const endTime = (editOptions.endTime / 100) * duration;
-      const constrainedTime = Math.max(startTime, Math.min(time, endTime));
+      // Seeking into a removed range lands on the next kept segment
+      const constrainedTime = nextPlayableTime(segments, time) ?? segments[segments.length - 1].end;
       
       videoRef.current.currentTime = constrainedTime;
       setCurrentTime(constrainedTime); // Update the state to move the red line
     }
   };
 
-  const handleStartTimeChange = (time: number) => {
-    const percentage = (time / duration) * 100;
-    const constrainedPercentage = Math.max(0, Math.min(percentage, editOptions.endTime - 1));
-    
+  const handleSegmentsChange = (newSegments: TimeRange[]) => {
+    // Keep the percentage range in step with the outer bounds of the cut list
     setEditOptions(prev => ({
       ...prev,
-      startTime: constrainedPercentage
+      startTime: duration > 0 ? (newSegments[0].start / duration) * 100 : 0,
+      endTime: duration > 0 ? (newSegments[newSegments.length - 1].end / duration) * 100 : 100,
+      segments: newSegments
     }));
-    
-    // If current time is before the new start time, move it to the start
-    if (videoRef.current && videoRef.current.currentTime < time) {
-      videoRef.current.currentTime = time;
-    }
-  };
 
-  const handleEndTimeChange = (time: number) => {
-    const percentage = (time / duration) * 100;
-    const constrainedPercentage = Math.max(editOptions.startTime + 1, Math.min(percentage, 100));
-    
-    setEditOptions(prev => ({
-      ...prev,
-      endTime: constrainedPercentage
-    }));
-    
-    // If current time is after the new end time, move it to the end
-    if (videoRef.current && videoRef.current.currentTime > time) {
-      videoRef.current.currentTime = time;
+    // If the playhead is now in a removed range, move it to the next kept one
+    if (videoRef.current) {
+      const playableTime = nextPlayableTime(newSegments, videoRef.current.currentTime);
+      if (playableTime !== null && playableTime !== videoRef.current.currentTime) {
+        videoRef.current.currentTime = playableTime;
+        setCurrentTime(playableTime);
+      }
     }
   };
 
   const handlePreview = () => {
     if (videoRef.current) {
-      const startTime = (editOptions.startTime / 100) * duration;
-      const endTime = (editOptions.endTime / 100) * duration;
+      // handleTimeUpdate skips the removed ranges and stops after the last segment
+      const startTime = segments[0].start;
 
       videoRef.current.currentTime = startTime;
       setCurrentTime(startTime); // Update the state to position the red line
       videoRef.current.play();
       setIsPlaying(true); // Update the playing state
+    }
+  };
+
+  const handleCropChange = (crop: CropRect) => {
+    setEditOptions(prev => ({ ...prev, crop }));
+  };
+
+  // Redaction boxes, zoom rectangles and the crop all draw on the video, so
+  // only one of them is edited at a time
+  const handleSelectRedaction = (id: string | null) => {
+    redactionEditor.select(id);
+    zoomEditor.select(null);
+    setCropMode(false);
+  };
+
+  const handleSelectZoom = (id: string | null) => {
+    zoomEditor.select(id);
+    redactionEditor.select(null);
+    setCropMode(false);
+  };
+
+  const handleDetectSilence = async () => {
+    setDetectingSilence(true);
+    setSilenceMessage('');
+
+    try {
+      const query = new URLSearchParams({
+        threshold: String(silenceSettings.threshold),
+        minDuration: String(silenceSettings.minDuration)
+      });
+      const data = await runAnalysis('silences', query);
+
+      if (!data.success) {
+        setSilenceMessage(data.error || 'Failed to detect silence');
+        return;
+      }
+
+      const found: DetectedRange[] = (data.silences as TimeRange[]).map((range, index) => ({
+        ...range,
+        id: `silence-${index}`,
+        selected: true
+      }));
+      setSilences(found);
+      setSilenceMessage(found.length > 0
+        ? `Found ${found.length} pauses, ${formatTime(totalDuration(found))} in total`
+        : 'No pauses found at this threshold');
+    } catch (error) {
+      console.error('Failed to detect silence:', error);
+      setSilenceMessage('Failed to detect silence');
+    } finally {
+      setDetectingSilence(false);
+    }
+  };
+
+  const handleRemoveSilences = () => {
+    const cuts = shrinkRanges(silences.filter(range => range.selected), silenceSettings.padding);
+    const remaining = subtractRanges(segments, cuts, duration);
+    if (cuts.length === 0 || remaining.length === 0) {
+      setSilenceMessage('Nothing left to cut with this padding');
+      return;
+    }
+
+    handleSegmentsChange(remaining);
+    setSilences([]);
+    setSilenceMessage(`Cut ${cuts.length} pauses, ${formatTime(totalDuration(segments) - totalDuration(remaining))} shorter`);
+  };
+
+  const handleDetectIdle = async () => {
+    setDetectingIdle(true);
+    setIdleMessage('');
+
+    try {
+      const query = new URLSearchParams({ minDuration: String(idleSettings.minDuration) });
+      const data = await runAnalysis('idle', query);
+
+      if (!data.success) {
+        setIdleMessage(data.error || 'Failed to detect idle screen');
+        return;
+      }
+
+      const found: DetectedRange[] = (data.idle as TimeRange[]).map((range, index) => ({
+        ...range,
+        id: `idle-${index}`,
+        selected: true
+      }));
+      setIdleRanges(found);
+      setIdleMessage(found.length > 0
+        ? `Found ${found.length} idle stretches, ${formatTime(totalDuration(found))} in total`
+        : 'The screen never stays still that long');
+    } catch (error) {
+      console.error('Failed to detect idle screen:', error);
+      setIdleMessage('Failed to detect idle screen');
+    } finally {
+      setDetectingIdle(false);
+    }
+  };
+
+  const handleMeasureLoudness = async () => {
+    setMeasuringLoudness(true);
+    setLoudnessMessage('');
+
+    try {
+      const data = await runAnalysis('loudness');
+
+      if (!data.success) {
+        setLoudnessMessage(data.error || 'Failed to measure loudness');
+        return;
+      }
+
+      setLoudness(data.loudness);
+      if (!data.loudness) {
+        setLoudnessMessage('This video has no audible sound to measure');
+      }
+    } catch (error) {
+      console.error('Failed to measure loudness:', error);
+      setLoudnessMessage('Failed to measure loudness');
+    } finally {
+      setMeasuringLoudness(false);
+    }
+  };
+
+  const toggleDetectedRange = (id: string) => {
+    const toggle = (ranges: DetectedRange[]) =>
+      ranges.map(range => range.id === id ? { ...range, selected: !range.selected } : range);
+    setSilences(toggle);
+    setIdleRanges(toggle);
+  };
+
+  const handleApplyIdle = () => {
+    const selected: TimeRange[] = idleRanges
+      .filter(range => range.selected)
+      .map(({ start, end }) => ({ start, end }));
+    if (selected.length === 0) return;
+
+    if (idleSettings.action === 'cut') {
+      const remaining = subtractRanges(segments, selected, duration);
+      if (remaining.length === 0) {
+        setIdleMessage('Cutting these would remove the whole video');
+        return;
+      }
+      handleSegmentsChange(remaining);
+      setIdleMessage(`Cut ${selected.length} idle stretches`);
+    } else {
+      // New ranges replace any earlier speed over the same stretch
+      const added = selected.map(range => ({ ...range, speed: idleSettings.speed }));
+      setEditOptions(prev => ({ ...prev, speedRanges: overlayRanges(prev.speedRanges || [], added, duration) }));
+      setIdleMessage(`Fast-forwarding ${selected.length} idle stretches at ${idleSettings.speed}x`);
+    }
+    setIdleRanges([]);
+  };
+
+  const handleToggleCropMode = () => {
+    // Start from the full frame the first time the crop tool is opened
+    if (!cropMode && !editOptions.crop && videoSize.width > 0) {
+      handleCropChange({ x: 0, y: 0, width: videoSize.width, height: videoSize.height });
+    }
+    setCropMode(!cropMode);
+    redactionEditor.select(null);
+    zoomEditor.select(null);
+    setCropMessage('');
+  };
+
+  const handleRemoveCrop = () => {
+    setEditOptions(prev => ({ ...prev, crop: undefined }));
+    setCropMode(false);
+    setCropMessage('');
+  };
+
+  const handleDetectCrop = async () => {
+    setDetectingCrop(true);
+    setCropMessage('');
 
-      const stopAtEnd = () => {
-        if (videoRef.current && videoRef.current.currentTime >= endTime) {
-          videoRef.current.pause();
-          setIsPlaying(false); // Update the playing state
-          videoRef.current.removeEventListener('timeupdate', stopAtEnd);
+    try {
+      const data = await runAnalysis('crop');
+
+      if (!data.success) {
+        setCropMessage(data.error || 'Failed to detect borders');
+      } else if (data.crop) {
+        handleCropChange(data.crop);
+        setCropMode(true);
+      } else {
+        setCropMessage('No black borders found');
+      }
+    } catch (error) {
+      console.error('Failed to detect crop:', error);
+      setCropMessage('Failed to detect borders');
+    } finally {
+      setDetectingCrop(false);
+    }
+  };
+
+  // Fetch the full file once; re-processing and previews reuse it
+  const loadSourceBlob = async (): Promise<Blob> => {
+    if (videoBlob) {
+      return videoBlob;
+    }
+    const response = await fetch(videoUrl);
+    if (!response.ok) {
+      throw new Error('Failed to download video');
+    }
+    const blob = await response.blob();
+    setVideoBlob(blob);
+    return blob;
+  };
+
+  const getInputFileName = (blob: Blob) =>
+    blob.type === 'video/webm' || video.name.endsWith('.webm') ? 'input.webm' : 'input.mp4';
+
+  // Cut the same few seconds from the playhead with and without noise
+  // reduction, so they can be compared by ear
+  const handleNoisePreview = async () => {
+    if (!ffmpegRef.current || !editOptions.noiseReduction) return;
+
+    setPreviewingNoise(true);
+    setNoiseMessage('');
+
+    const ffmpeg = ffmpegRef.current;
+    const start = Math.max(0, Math.min(currentTime, duration - NOISE_PREVIEW_LENGTH));
+
+    try {
+      const sourceBlob = await loadSourceBlob();
+      const inputFileName = getInputFileName(sourceBlob);
+      await ffmpeg.writeFile(inputFileName, await fetchFile(sourceBlob));
+
+      const urls: string[] = [];
+      for (const [fileName, strength] of [['original.wav', undefined], ['cleaned.wav', editOptions.noiseReduction]] as const) {
+        await ffmpeg.exec(buildAudioPreviewArgs(inputFileName, fileName, start, NOISE_PREVIEW_LENGTH, strength));
+        const data = await ffmpeg.readFile(fileName);
+        urls.push(URL.createObjectURL(new Blob([new Uint8Array(data as unknown as ArrayBuffer)], { type: 'audio/wav' })));
+        await ffmpeg.deleteFile(fileName);
+      }
+      await ffmpeg.deleteFile(inputFileName);
+
+      setNoisePreview({ original: urls[0], cleaned: urls[1] });
+      setNoisePreviewSide('cleaned');
+      setNoiseMessage(`Comparing ${formatTime(start)}–${formatTime(start + NOISE_PREVIEW_LENGTH)}`);
+    } catch (error) {
+      console.error('Failed to preview noise reduction:', error);
+      setNoiseMessage('Failed to preview noise reduction. Does this video have audio?');
+    } finally {
+      setPreviewingNoise(false);
+    }
+  };
+
+  // Switch between the two snippets without losing the listening
+  // position; it is restored once the other snippet has loaded
+  const switchNoisePreview = (side: 'original' | 'cleaned') => {
+    const audio = noiseAudioRef.current;
+    if (audio && side !== noisePreviewSide) {
+      noiseResumeRef.current = { position: audio.currentTime, playing: !audio.paused };
+    }
+    setNoisePreviewSide(side);
+  };
+
+  const handleNoisePreviewLoaded = () => {
+    const audio = noiseAudioRef.current;
+    const resume = noiseResumeRef.current;
+    if (!audio || !resume) return;
+
+    noiseResumeRef.current = null;
+    audio.currentTime = resume.position;
+    if (resume.playing) {
+      audio.play().catch(() => {
+        // Playback can be refused; the user can press play again
+      });
+    }
+  };
+
+  // Keyframes come from ffprobe in a server job, only once a trim mode
+  // without a full re-encode is picked
+  const changeTrimMode = async (mode: TrimMode) => {
+    setTrimMode(mode);
+    if (mode === 'reencode' || keyframes || loadingKeyframes) return;
+
+    setLoadingKeyframes(true);
+    setKeyframesError(null);
+    try {
+      const keyframesUrl = `/api/videos/${video.id}/keyframes`;
+      let data = await (await fetch(keyframesUrl)).json();
+      if (data.success && !data.ready) {
+        if (!data.jobId) {
+          data = await (await fetch(keyframesUrl, { method: 'POST' })).json();
         }
-      };
+        if (data.success && !data.ready) {
+          const job = await waitForJob(video.id, data.jobId);
+          data = job.status === 'completed'
+            ? await (await fetch(keyframesUrl)).json()
+            : { success: false, error: job.error };
+        }
+      }
 
-      videoRef.current.addEventListener('timeupdate', stopAtEnd);
+      if (data.success && data.ready) {
+        setKeyframes(data.keyframes);
+      } else {
+        setKeyframesError(data.error || 'Failed to find keyframes');
+      }
+    } catch (error) {
+      console.error('Failed to load keyframes:', error);
+      setKeyframesError('Failed to find keyframes');
+    } finally {
+      setLoadingKeyframes(false);
+    }
+  };
+
+  // Cut by stream copy, re-encoding at most the partial GOPs around each
+  // cut, so the kept video keeps its original quality
+  const runStreamCopyTrim = async (ffmpeg: FFmpeg, inputFileName: string) => {
+    const codecs = await probeCodecs(ffmpeg, inputFileName);
+    if (!codecs.video) {
+      throw new Error('No video stream found');
+    }
+
+    const parts = trimMode === 'smart'
+      ? planSmartTrim(segments, keyframes || [])
+      : planFastTrim(segments, keyframes || []).parts;
+    const container = inputFileName.slice(inputFileName.lastIndexOf('.') + 1);
+    const outputFileName = `output.${container}`;
+    const { passes, partFiles, list } = buildTrimArgs(
+      inputFileName,
+      outputFileName,
+      parts,
+      codecs.video,
+      getBoundaryEncodingArgs(codecs.video, codecs.audio)
+    );
+
+    try {
+      await ffmpeg.writeFile(TRIM_LIST_FILE_NAME, list);
+      for (const [index, args] of passes.entries()) {
+        const joining = index === passes.length - 1;
+        setProcessing(prev => ({
+          ...prev,
+          stage: joining ? 'Joining parts...' : `Cutting part ${index + 1} of ${passes.length - 1}...`,
+          progress: 20 + Math.round((index / passes.length) * 70)
+        }));
+        if (await ffmpeg.exec(args) !== 0) {
+          throw new Error(joining ? 'Failed to join the parts' : `Failed to cut part ${index + 1}`);
+        }
+      }
+
+      setProcessing(prev => ({ ...prev, stage: 'Finalizing...', progress: 90 }));
+      const data = await ffmpeg.readFile(outputFileName);
+      const blob = new Blob([new Uint8Array(data as unknown as ArrayBuffer)], { type: `video/${container}` });
+      setOutputUrl(URL.createObjectURL(blob));
+      setProcessedQuality('');
+      setCopiedContainer(container);
+    } finally {
+      await deleteFiles(ffmpeg, [...partFiles, TRIM_LIST_FILE_NAME, outputFileName]);
     }
   };
 
   const trimVideo = async () => {
-    console.log('Starting video trim...');
-    console.log('FFmpeg loaded:', !!ffmpegRef.current);
-    console.log('Video blob available:', !!videoBlob);
-    console.log('Edit options:', editOptions);
-    console.log('Duration:', duration);
-    
-    if (!ffmpegRef.current || !videoBlob) {
-      console.error('FFmpeg not loaded or video blob not available');
+    if (!ffmpegRef.current) {
+      console.error('FFmpeg not loaded');
       return;
     }
+    const ffmpeg = ffmpegRef.current;
 
     try {
       setProcessing({
@@ -237,53 +734,54 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
         stage: 'Initializing...'
       });
 
-      const ffmpeg = ffmpegRef.current;
-      const startTime = (editOptions.startTime / 100) * duration;
-      const endTime = (editOptions.endTime / 100) * duration;
-      const trimDuration = endTime - startTime;
-      
-      console.log('Trim parameters:', {
-        startTime,
-        endTime,
-        trimDuration,
-        duration,
-        videoName: video.name
-      });
+      if (!videoBlob) {
+        setProcessing(prev => ({ ...prev, stage: 'Downloading video...', progress: 5 }));
+      }
+      const sourceBlob = await loadSourceBlob();
 
       // Write input file to FFmpeg file system
       setProcessing(prev => ({ ...prev, stage: 'Loading video...', progress: 10 }));
-      const inputFileName = video.name.endsWith('.webm') ? 'input.webm' : 'input.mp4';
-      await ffmpeg.writeFile(inputFileName, await fetchFile(videoBlob));
+      const inputFileName = getInputFileName(sourceBlob);
+      await ffmpeg.writeFile(inputFileName, await fetchFile(sourceBlob));
       setProcessing(prev => ({ ...prev, stage: 'Video loaded, starting processing...', progress: 15 }));
 
-      // Build FFmpeg command
-      const args = [
-        '-i', inputFileName,
-        '-ss', startTime.toString(),
-        '-t', trimDuration.toString(),
-        '-c:v', 'libx264',
-        '-c:a', 'aac',
-        '-avoid_negative_ts', 'make_zero'
-      ];
-
-      // Add quality settings based on selection
-      if (editOptions.quality === 'low') {
-        args.push('-crf', '28', '-preset', 'fast');
-      } else if (editOptions.quality === 'medium') {
-        args.push('-crf', '23', '-preset', 'medium');
-      } else if (editOptions.quality === 'high') {
-        args.push('-crf', '18', '-preset', 'slow');
+      if (trimMode !== 'reencode') {
+        try {
+          await runStreamCopyTrim(ffmpeg, inputFileName);
+        } finally {
+          await deleteFiles(ffmpeg, [inputFileName]);
+        }
+        setProcessing({ isProcessing: false, progress: 0, stage: '' });
+        return;
       }
 
-      args.push('output.mp4');
-
-      console.log('FFmpeg command:', args);
+      // Build FFmpeg command from the same filter graph the server uses.
+      // MediaRecorder WebM files often have no duration in the header, so
+      // fall back to the one the player reported.
+      const probed = await probeInput(ffmpeg, inputFileName);
+      await loadOverlayFonts(ffmpeg, editOptions);
+      const watermarkFileName = await loadWatermark(ffmpeg, editOptions);
+      const pip = await loadPictureInPicture(ffmpeg, editOptions);
+      const musicFileName = await loadBackgroundMusic(ffmpeg, editOptions);
+      const profile = getEncodingProfile(editOptions.quality);
+      const outputFileName = `output.${profile.container}`;
+      const { args } = buildEditArgs(
+        inputFileName,
+        outputFileName,
+        { ...editOptions, startTime: 0, endTime: 0, segments },
+        {
+          ...probed,
+          duration: probed.duration || duration,
+          width: probed.width || videoSize.width,
+          height: probed.height || videoSize.height
+        },
+        { watermark: watermarkFileName, pip, music: musicFileName }
+      );
 
       // Set up progress tracking
       let currentProgress = 20;
       
-      ffmpeg.on('progress', ({ progress, time }) => {
-        console.log('FFmpeg progress:', { progress, time });
+      const handleProgress = ({ progress }: { progress: number }) => {
         const progressPercent = Math.round(progress * 100);
         currentProgress = Math.max(currentProgress, progressPercent);
         setProcessing(prev => ({
@@ -291,7 +789,8 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
           progress: Math.round(currentProgress),
           stage: `Processing video... ${Math.round(currentProgress)}%`
         }));
-      });
+      };
+      ffmpeg.on('progress', handleProgress);
 
       // Fallback progress mechanism
       const progressInterval: NodeJS.Timeout = setInterval(() => {
@@ -308,29 +807,28 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
 
       setProcessing(prev => ({ ...prev, stage: 'Processing video...', progress: 20 }));
 
-      // Run FFmpeg command
-      console.log('Executing FFmpeg command...');
-      await ffmpeg.exec(args);
-      console.log('FFmpeg command completed');
-      
-      // Clear the fallback progress interval
-      if (progressInterval) {
+      // Run FFmpeg command. The listener is removed even if it fails, or
+      // every later export would update this one's progress too.
+      try {
+        await ffmpeg.exec(args);
+      } finally {
         clearInterval(progressInterval);
+        ffmpeg.off('progress', handleProgress);
       }
 
       // Read output file
       setProcessing(prev => ({ ...prev, stage: 'Finalizing...', progress: 90 }));
-      const data = await ffmpeg.readFile('output.mp4');
+      const data = await ffmpeg.readFile(outputFileName);
       const uint8Array = new Uint8Array(data as unknown as ArrayBuffer);
-      const blob = new Blob([uint8Array], { type: 'video/mp4' });
+      const blob = new Blob([uint8Array], { type: getContainerMimeType(profile) });
       const url = URL.createObjectURL(blob);
-      console.log('Output video created, URL:', url);
       setOutputUrl(url);
       setProcessedQuality(editOptions.quality);
+      setCopiedContainer(null);
 
       // Clean up FFmpeg files
       await ffmpeg.deleteFile(inputFileName);
-      await ffmpeg.deleteFile('output.mp4');
+      await ffmpeg.deleteFile(outputFileName);
 
       setProcessing(prev => ({ ...prev, stage: 'Complete!', progress: 100 }));
       
@@ -352,13 +850,163 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
         progress: 0,
         stage: 'Error occurred'
       });
+    } finally {
+      await deleteEditInputs(ffmpeg, editOptions);
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+  };
+
+  // Lanes under the main timeline for the time-ranged edits
+  const allTracks: TimelineTrack[] = [{
+    id: 'text',
+    label: 'Text',
+    color: 'bg-sky-500',
+    items: textOverlayEditor.items.map(overlay => ({
+      id: overlay.id,
+      start: overlay.start,
+      end: overlay.end,
+      label: overlay.text
+    })),
+    selectedId: textOverlayEditor.selectedId,
+    onItemChange: (id, range) => textOverlayEditor.update(id, range),
+    onItemSelect: textOverlayEditor.select
+  }, {
+    id: 'redactions',
+    label: 'Redactions',
+    color: 'bg-amber-500',
+    items: redactions.map((redaction, index) => ({
+      id: redaction.id,
+      start: redaction.start,
+      end: redaction.end,
+      label: `${index + 1}. ${redaction.style === 'blur' ? 'Blur' : 'Pixelate'}`
+    })),
+    selectedId: redactionEditor.selectedId,
+    onItemChange: (id, range) => redactionEditor.update(id, range),
+    onItemSelect: handleSelectRedaction
+  }];
+  allTracks.push({
+    id: 'zoom',
+    label: 'Zoom',
+    color: 'bg-violet-500',
+    points: true,
+    items: zoomKeyframes.map(keyframe => ({
+      id: keyframe.id,
+      start: keyframe.time,
+      end: keyframe.time,
+      label: `${getZoomView(keyframe, zoomFrame).zoom.toFixed(1)}x`
+    })),
+    selectedId: zoomEditor.selectedId,
+    onItemChange: (id, range) => zoomEditor.update(id, { time: range.start }),
+    onItemSelect: handleSelectZoom
+  });
+  allTracks.push({
+    id: 'speed',
+    label: 'Speed',
+    color: 'bg-emerald-500',
+    items: speedRanges.map((range, index) => ({
+      id: String(index),
+      start: range.start,
+      end: range.end,
+      label: `${range.speed}x`
+    })),
+    selectedId: speedRangeEditor.selectedIndex !== null ? String(speedRangeEditor.selectedIndex) : null,
+    onItemChange: (id, range) => speedRangeEditor.update(Number(id), range),
+    onItemSelect: (id) => speedRangeEditor.select(Number(id))
+  });
+  const backgroundMusic = musicEditor.music;
+  allTracks.push({
+    id: 'music',
+    label: 'Music',
+    color: 'bg-pink-500',
+    items: backgroundMusic ? [{
+      id: 'music',
+      start: backgroundMusic.start,
+      end: backgroundMusic.end ?? duration,
+      label: `♪ ${backgroundMusic.name || 'Music'}${backgroundMusic.loop ? ' (loop)' : ''}`
+    }] : [],
+    onItemChange: (_, range) => musicEditor.update({
+      start: range.start,
+      // Reaching the end keeps the music running to the end of the video
+      end: range.end >= duration ? undefined : range.end
+    })
+  });
+  const timelineTracks = allTracks.filter(track => track.items.length > 0);
+
+  const timelineRegions: TimelineRegion[] = [
+    ...silences.map(range => ({
+      id: range.id,
+      start: range.start,
+      end: range.end,
+      color: 'bg-yellow-400',
+      selected: range.selected,
+      label: `Silence ${formatTime(range.start)}–${formatTime(range.end)}`
+    })),
+    ...idleRanges.map(range => ({
+      id: range.id,
+      start: range.start,
+      end: range.end,
+      color: 'bg-slate-500',
+      selected: range.selected,
+      label: `Idle ${formatTime(range.start)}–${formatTime(range.end)}`
+    }))
+  ];
+
+  // Preview the zoom by scaling the <video>; the picture box is mapped onto
+  // the visible area. Off while a rectangle is being edited on the video.
+  const zoomView = zoomKeyframes.length > 0 && zoomFrame.width > 0 && !cropMode && !selectedRedaction && !selectedZoom
+    ? getZoomView(interpolateKeyframes(zoomKeyframes, currentTime, zoomFrame), zoomFrame)
+    : null;
+  const zoomScale = zoomView ? zoomView.zoom * videoSize.width / zoomFrame.width : 1;
+  const zoomTransform = zoomView && zoomScale > 1.001 && videoSize.width > 0
+    ? (() => {
+        const pixel = videoBox.width / videoSize.width;
+        const left = videoBox.left + (zoomFrame.x + zoomView.x) * pixel;
+        const top = videoBox.top + (zoomFrame.y + zoomView.y) * pixel;
+        return `translate(${videoBox.left - left * zoomScale}px, ${videoBox.top - top * zoomScale}px) scale(${zoomScale})`;
+      })()
+    : undefined;
+
+  const selectedProfile = getEncodingProfile(editOptions.quality);
+  const streamCopy = trimMode !== 'reencode';
+  const copyConflicts = getStreamCopyConflicts(editOptions);
+  // Cuts inside one GOP that a fast trim would put back
+  const lostCuts = trimMode === 'fast' && keyframes ? planFastTrim(segments, keyframes).lostCuts : [];
+  const outputExtension = exportMode === 'audio'
+    ? audioFormat
+    : exportMode === 'animation'
+      ? animationOptions.format
+      : copiedContainer || getEncodingProfile(processedQuality || editOptions.quality).container;
+
+  // Sized against the cropped frame and the length after cuts and speed changes
+  const outputDuration = getOutputTime(
+    getPlaybackRanges({ ...editOptions, startTime: 0, endTime: 0, segments }, duration),
+    duration,
+    editOptions.speed,
+    duration
+  );
+  const animationSize = getAnimationSize(animationOptions, zoomFrame);
+  const estimatedAnimationSize = estimateAnimationSize(animationOptions, outputDuration, zoomFrame);
+
+  const updateAnimationOptions = (changes: Partial<AnimationOptions>) => {
+    setAnimationOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const downloadTrimmedVideo = () => {
@@ -373,12 +1021,235 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
       
       // Show success popup
       setSuccessType('download');
-      setSuccessMessage(`Video downloaded successfully as "${fileName}.mp4"`);
+      setSuccessMessage(`Video downloaded successfully as "${fileName}.${outputExtension}"`);
       setShowSuccessPopup(true);
       setShowSaveOptions(false);
     }
   };
 
+  // Export just the edited soundtrack in the browser, with the same cuts
+  // and audio edits as the video
+  const downloadAudio = async () => {
+    if (!ffmpegRef.current) return;
+
+    setExporting(true);
+    setSaveStatus({ type: null, message: '' });
+
+    const ffmpeg = ffmpegRef.current;
+    const outputFileName = `output.${audioFormat}`;
+
+    try {
+      const sourceBlob = await loadSourceBlob();
+      const inputFileName = getInputFileName(sourceBlob);
+      await ffmpeg.writeFile(inputFileName, await fetchFile(sourceBlob));
+
+      const probed = await probeInput(ffmpeg, inputFileName);
+      if (!probed.hasAudio && !editOptions.backgroundMusic) {
+        await ffmpeg.deleteFile(inputFileName);
+        setSaveStatus({ type: 'error', message: 'This video has no audio to export' });
+        return;
+      }
+
+      const pip = await loadPictureInPicture(ffmpeg, editOptions);
+      const musicFileName = await loadBackgroundMusic(ffmpeg, editOptions);
+      const { args } = buildEditArgs(
+        inputFileName,
+        outputFileName,
+        { ...editOptions, startTime: 0, endTime: 0, segments },
+        { ...probed, duration: probed.duration || duration },
+        { pip, music: musicFileName },
+        { format: audioFormat, bitrate: audioBitrate }
+      );
+
+      await ffmpeg.exec(args);
+      const data = await ffmpeg.readFile(outputFileName);
+      const blob = new Blob([new Uint8Array(data as unknown as ArrayBuffer)], { type: AUDIO_FORMATS[audioFormat].mimeType });
+      await ffmpeg.deleteFile(inputFileName);
+      await ffmpeg.deleteFile(outputFileName);
+
+      const fileName = `${customFileName || `trimmed_${video.name}`}.${audioFormat}`;
+      downloadBlob(blob, fileName);
+
+      setSuccessType('download');
+      setSuccessMessage(`Audio downloaded successfully as "${fileName}"`);
+      setShowSuccessPopup(true);
+      setShowSaveOptions(false);
+    } catch (error) {
+      console.error('Audio export failed:', error);
+      setSaveStatus({ type: 'error', message: 'Failed to export audio' });
+    } finally {
+      await deleteEditInputs(ffmpeg, editOptions);
+      setExporting(false);
+    }
+  };
+
+  // Render the edit as a GIF or WebP in the browser, then download it or
+  // upload it to the Screen Recordings folder
+  const exportAnimation = async (destination: 'download' | 'google-drive') => {
+    if (!ffmpegRef.current) return;
+
+    setExporting(true);
+    setSaveStatus({ type: null, message: '' });
+
+    const ffmpeg = ffmpegRef.current;
+    const { format } = animationOptions;
+    const outputFileName = `output.${format}`;
+    const fileName = `${customFileName || `trimmed_${video.name}`}.${format}`;
+
+    try {
+      const sourceBlob = await loadSourceBlob();
+      const inputFileName = getInputFileName(sourceBlob);
+      await ffmpeg.writeFile(inputFileName, await fetchFile(sourceBlob));
+
+      const probed = await probeInput(ffmpeg, inputFileName);
+      await loadOverlayFonts(ffmpeg, editOptions);
+      const watermarkFileName = await loadWatermark(ffmpeg, editOptions);
+      const pip = await loadPictureInPicture(ffmpeg, editOptions);
+      const passes = buildAnimationArgs(
+        inputFileName,
+        outputFileName,
+        { ...editOptions, startTime: 0, endTime: 0, segments },
+        {
+          ...probed,
+          duration: probed.duration || duration,
+          width: probed.width || videoSize.width,
+          height: probed.height || videoSize.height
+        },
+        { watermark: watermarkFileName, pip },
+        animationOptions
+      );
+
+      for (const args of passes) {
+        await ffmpeg.exec(args);
+      }
+      const data = await ffmpeg.readFile(outputFileName);
+      const blob = new Blob([new Uint8Array(data as unknown as ArrayBuffer)], { type: ANIMATION_FORMATS[format].mimeType });
+      await ffmpeg.deleteFile(inputFileName);
+      await ffmpeg.deleteFile(outputFileName);
+      if (passes.length > 1) {
+        await ffmpeg.deleteFile(PALETTE_FILE_NAME);
+      }
+
+      if (destination === 'download') {
+        downloadBlob(blob, fileName);
+        setSuccessType('download');
+        setSuccessMessage(`${ANIMATION_FORMATS[format].label} downloaded successfully as "${fileName}"`);
+      } else {
+        const formData = new FormData();
+        formData.append('file', blob, fileName);
+        formData.append('fileName', fileName);
+        formData.append('folderId', googleDriveFolderId);
+
+        const uploadResponse = await fetch('/api/videos/upload', {
+          method: 'POST',
+          body: formData
+        });
+        const uploadData = await uploadResponse.json();
+
+        if (!uploadData.success) {
+          setSaveStatus({ type: 'error', message: uploadData.error || 'Failed to save to Google Drive' });
+          return;
+        }
+        setSuccessType('google-drive');
+        setSuccessMessage(`${ANIMATION_FORMATS[format].label} saved successfully to Google Drive!`);
+      }
+      setShowSuccessPopup(true);
+      setShowSaveOptions(false);
+    } catch (error) {
+      console.error('Animation export failed:', error);
+      setSaveStatus({ type: 'error', message: `Failed to export ${ANIMATION_FORMATS[format].label}` });
+    } finally {
+      await deleteEditInputs(ffmpeg, editOptions);
+      setExporting(false);
+    }
+  };
+
+  // The server cuts the audio from the original in Drive, so nothing
+  // needs uploading from here
+  const saveAudioToGoogleDrive = async () => {
+    setSaving(true);
+    setSaveStatus({ type: null, message: '' });
+
+    try {
+      const response = await fetch(`/api/videos/${video.id}/extract-audio`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format: audioFormat,
+          bitrate: audioBitrate,
+          edit: { ...editOptions, startTime: 0, endTime: 0, segments },
+          name: customFileName || `trimmed_${video.name.replace(/\.[^/.]+$/, '')}`
+        })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setSaveStatus({ type: 'error', message: data.error || 'Failed to save audio to Google Drive' });
+        return;
+      }
+
+      const job = await waitForJob(video.id, data.jobId);
+      if (job.status === 'completed') {
+        setSuccessType('google-drive');
+        setSuccessMessage('Audio saved successfully to Google Drive!');
+        setShowSuccessPopup(true);
+        setShowSaveOptions(false);
+      } else {
+        setSaveStatus({ type: 'error', message: job.error || 'Failed to save audio to Google Drive' });
+      }
+    } catch (error) {
+      console.error('Save audio to Google Drive failed:', error);
+      setSaveStatus({ type: 'error', message: 'Failed to save audio to Google Drive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Analyses run as server jobs and are cached per video and settings.
+  // Resolves to the analysis response once there is a result to read.
+  const runAnalysis = async (kind: string, query: URLSearchParams = new URLSearchParams()) => {
+    const analysisUrl = `/api/videos/${video.id}/${kind}?${query}`;
+    let data = await (await fetch(analysisUrl, { method: 'POST' })).json();
+    if (data.success && !data.ready) {
+      const job = await waitForJob(video.id, data.jobId);
+      data = job.status === 'completed'
+        ? await (await fetch(analysisUrl)).json()
+        : { success: false, error: job.error };
+    }
+    return data.ready ? data : { success: false, error: data.error };
+  };
+
+  // Package the recording for adaptive streaming on the server, then
+  // switch playback over to it
+  const prepareStreaming = async () => {
+    setPackaging(true);
+    setPackagingError(null);
+
+    try {
+      const response = await fetch(`/api/videos/${video.id}/hls`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        setPackagingError(data.error || 'Failed to prepare streaming');
+        return;
+      }
+
+      if (!data.ready) {
+        const job = await waitForJob(video.id, data.jobId);
+        if (job.status !== 'completed') {
+          setPackagingError(job.error || 'Failed to prepare streaming');
+          return;
+        }
+      }
+      hls.reload();
+    } catch (error) {
+      console.error('Prepare streaming failed:', error);
+      setPackagingError('Failed to prepare streaming');
+    } finally {
+      setPackaging(false);
+    }
+  };
+
   const loadGoogleDriveFolder = async () => {
     try {
       const response = await fetch('/api/videos/folders');
@@ -405,8 +1276,8 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
       
       // Create form data
       const formData = new FormData();
-      formData.append('file', blob, `${customFileName || `trimmed_${video.name}`}.mp4`);
-      formData.append('fileName', `${customFileName || `trimmed_${video.name}`}.mp4`);
+      formData.append('file', blob, `${customFileName || `trimmed_${video.name}`}.${outputExtension}`);
+      formData.append('fileName', `${customFileName || `trimmed_${video.name}`}.${outputExtension}`);
       formData.append('folderId', googleDriveFolderId);
 
       // Upload to Google Drive
@@ -448,17 +1319,6 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
   };
 
 
-  if (loading || !videoUrl) {
-    return (
-      <div className="flex justify-center items-center py-12">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading video...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="max-w-7xl mx-auto">
       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
@@ -493,7 +1353,7 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                     className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition duration-200 flex items-center gap-2"
                   >
                     <span>💾</span>
-                    Save Video ({editOptions.quality === 'low' ? '480p' : editOptions.quality === 'medium' ? '720p' : '1080p'})
+                    Save Video ({getResolutionLabel(selectedProfile)})
                   </button>
                   <button
                     onClick={trimVideo}
@@ -513,19 +1373,119 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
           {/* Video Player */}
           <div className="lg:col-span-2 space-y-6">
             {/* Video Display */}
-            <div className="aspect-video bg-black rounded-lg overflow-hidden">
+            <div ref={videoContainerRef} className="relative aspect-video bg-black rounded-lg overflow-hidden">
               <video
                 ref={videoRef}
-                src={videoUrl}
-                controls
-                className="w-full h-full"
+                controls={!cropMode && !selectedRedaction && !selectedZoom && !zoomTransform}
+                className="w-full h-full origin-top-left"
+                style={{ transform: zoomTransform }}
                 onLoadedMetadata={handleVideoLoaded}
                 onTimeUpdate={handleTimeUpdate}
                 onPlay={() => setIsPlaying(true)}
                 onPause={() => setIsPlaying(false)}
               />
+              {videoSize.width > 0 && (
+                <RedactionPreview
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  redactions={redactions.filter(redaction => redaction.id !== redactionEditor.selectedId)}
+                  currentTime={currentTime}
+                />
+              )}
+              {editOptions.pictureInPicture && videoSize.width > 0 && (
+                <PictureInPicturePreview
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  pip={editOptions.pictureInPicture}
+                  src={`/api/videos/${editOptions.pictureInPicture.videoId}/download?disposition=inline`}
+                  crop={editOptions.crop}
+                  currentTime={currentTime}
+                  playing={isPlaying}
+                />
+              )}
+              {videoSize.width > 0 && (
+                <TextOverlayPreview
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  overlays={textOverlayEditor.items}
+                  crop={editOptions.crop}
+                  currentTime={currentTime}
+                />
+              )}
+              {editOptions.watermark && videoSize.width > 0 && (
+                <WatermarkPreview
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  watermark={editOptions.watermark}
+                  logoUrl={LOGO_URL}
+                  crop={editOptions.crop}
+                />
+              )}
+              {cropMode && editOptions.crop && videoSize.width > 0 && (
+                <RegionOverlay
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  region={editOptions.crop}
+                  onRegionChange={handleCropChange}
+                  disabled={processing.isProcessing}
+                />
+              )}
+              {selectedZoom && videoSize.width > 0 && (
+                <RegionOverlay
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  region={{
+                    x: zoomFrame.x + selectedZoom.x,
+                    y: zoomFrame.y + selectedZoom.y,
+                    width: selectedZoom.width,
+                    height: selectedZoom.height
+                  }}
+                  onRegionChange={(region) => zoomEditor.update(selectedZoom.id, {
+                    x: Math.max(0, region.x - zoomFrame.x),
+                    y: Math.max(0, region.y - zoomFrame.y),
+                    width: Math.min(region.width, zoomFrame.width),
+                    height: Math.min(region.height, zoomFrame.height)
+                  })}
+                  variant="zoom"
+                  disabled={processing.isProcessing}
+                />
+              )}
+              {selectedRedaction && videoSize.width > 0 && (
+                <RegionOverlay
+                  videoWidth={videoSize.width}
+                  videoHeight={videoSize.height}
+                  region={selectedRedaction}
+                  onRegionChange={(region) => redactionEditor.update(selectedRedaction.id, region)}
+                  variant="redaction"
+                  disabled={processing.isProcessing}
+                />
+              )}
             </div>
 
+            {/* Streaming */}
+            {(hls.manifest || duration >= LONG_VIDEO_DURATION) && (
+              <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+                {hls.manifest ? (
+                  <span className="text-gray-600">
+                    Adaptive streaming{hls.rendition && <> · <span className="font-mono font-medium">{hls.rendition}</span></>}
+                  </span>
+                ) : (
+                  <>
+                    <span className="text-gray-600">
+                      {packagingError || 'Long recording: prepare adaptive streaming for smoother playback and seeking.'}
+                    </span>
+                    <button
+                      onClick={prepareStreaming}
+                      disabled={packaging}
+                      className="bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-3 py-1.5 rounded-lg transition duration-200 font-medium"
+                    >
+                      {packaging ? 'Preparing...' : 'Prepare adaptive streaming'}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Timeline */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -536,12 +1496,16 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
               </div>
               <Timeline
                 duration={duration}
-                startTime={(editOptions.startTime / 100) * duration}
-                endTime={(editOptions.endTime / 100) * duration}
+                segments={segments}
                 currentTime={currentTime}
-                onStartTimeChange={handleStartTimeChange}
-                onEndTimeChange={handleEndTimeChange}
+                onSegmentsChange={handleSegmentsChange}
                 onSeek={handleSeek}
+                tracks={timelineTracks}
+                regions={timelineRegions}
+                onRegionClick={toggleDetectedRange}
+                thumbnails={thumbnails}
+                keyframes={keyframes || undefined}
+                snapToKeyframes={streamCopy && snapToKeyframes}
                 disabled={processing.isProcessing}
               />
             </div>
@@ -566,7 +1530,7 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
               </button>
               <button
                 onClick={trimVideo}
-                disabled={processing.isProcessing || !ffmpegRef.current}
+                disabled={processing.isProcessing || !ffmpegRef.current || (streamCopy && (!keyframes || copyConflicts.length > 0))}
                 className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition duration-200 font-medium"
               >
                 <span className="text-lg">✂️</span>
@@ -574,6 +1538,53 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
               </button>
             </div>
 
+            {/* Trim Mode */}
+            <div className="space-y-2 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-medium text-gray-700">Trim mode</span>
+                <select
+                  value={trimMode}
+                  onChange={(e) => changeTrimMode(e.target.value as TrimMode)}
+                  disabled={processing.isProcessing}
+                  className="p-1 border border-gray-300 rounded bg-white text-gray-900"
+                >
+                  {TRIM_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+                {streamCopy && (
+                  <label className="flex items-center gap-1 text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={snapToKeyframes}
+                      onChange={(e) => setSnapToKeyframes(e.target.checked)}
+                      disabled={processing.isProcessing || !keyframes}
+                    />
+                    Snap handles to keyframes
+                  </label>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {TRIM_MODES.find(mode => mode.value === trimMode)?.description}
+                {streamCopy && (loadingKeyframes
+                  ? '. Finding keyframes...'
+                  : keyframes
+                    ? `. ${keyframes.length} keyframes, shown as ticks on the timeline.`
+                    : `. ${keyframesError || 'Keyframes could not be found'}; choose the mode again to retry.`)}
+              </p>
+              {lostCuts.length > 0 && (
+                <p className="text-xs text-amber-700">
+                  {lostCuts.length === 1 ? 'A cut is' : `${lostCuts.length} cuts are`} too close to the keyframe before the next segment and will stay in the video
+                  ({lostCuts.map(cut => `${formatTime(cut.start)}-${formatTime(cut.end)}`).join(', ')}). Use Smart to keep {lostCuts.length === 1 ? 'it' : 'them'} out.
+                </p>
+              )}
+              {streamCopy && copyConflicts.length > 0 && (
+                <p className="text-xs text-amber-700">
+                  Without re-encoding only cuts can be applied. Remove these edits or switch to Re-encode: {copyConflicts.join(', ')}.
+                </p>
+              )}
+            </div>
+
             {/* Processing Progress */}
             {processing.isProcessing && (
               <div className="space-y-3 p-4 bg-gray-50 rounded-lg border">
@@ -616,6 +1627,389 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
 
           {/* Controls Panel */}
           <div className="space-y-6">
+            {/* Silence Control */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <span className="text-lg">🤫</span>
+                Silence
+              </h3>
+              <div className="space-y-3 text-sm text-gray-700">
+                <p className="text-gray-600">
+                  Find pauses while typing or waiting and cut them in one go. Click a shaded region on the timeline to keep it.
+                </p>
+                <label className="block">
+                  <span className="block mb-1">Threshold: {silenceSettings.threshold} dB</span>
+                  <input
+                    type="range"
+                    min="-60"
+                    max="-20"
+                    step="1"
+                    value={silenceSettings.threshold}
+                    onChange={(e) => setSilenceSettings(prev => ({ ...prev, threshold: parseInt(e.target.value) }))}
+                    disabled={detectingSilence}
+                    className="w-full"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block mb-1">Shortest pause: {silenceSettings.minDuration}s</span>
+                  <input
+                    type="range"
+                    min="0.5"
+                    max="5"
+                    step="0.5"
+                    value={silenceSettings.minDuration}
+                    onChange={(e) => setSilenceSettings(prev => ({ ...prev, minDuration: parseFloat(e.target.value) }))}
+                    disabled={detectingSilence}
+                    className="w-full"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block mb-1">Keep around speech: {silenceSettings.padding}s</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={silenceSettings.padding}
+                    onChange={(e) => setSilenceSettings(prev => ({ ...prev, padding: parseFloat(e.target.value) }))}
+                    className="w-full"
+                  />
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={handleDetectSilence}
+                    disabled={processing.isProcessing || detectingSilence}
+                    className="px-3 py-2 text-sm bg-yellow-100 hover:bg-yellow-200 disabled:bg-gray-100 disabled:text-gray-400 text-yellow-800 rounded-lg transition duration-200"
+                  >
+                    {detectingSilence ? 'Detecting...' : 'Detect silence'}
+                  </button>
+                  {silences.length > 0 && (
+                    <>
+                      <button
+                        onClick={() => setSilences(prev => prev.map(range => ({ ...range, selected: !prev.every(other => other.selected) })))}
+                        className="px-3 py-2 text-sm bg-white border border-gray-300 hover:bg-gray-100 rounded-lg"
+                      >
+                        {silences.every(range => range.selected) ? 'Select none' : 'Select all'}
+                      </button>
+                      <button
+                        onClick={handleRemoveSilences}
+                        disabled={processing.isProcessing || !silences.some(range => range.selected)}
+                        className="px-3 py-2 text-sm bg-red-100 hover:bg-red-200 disabled:bg-gray-100 disabled:text-gray-400 text-red-700 rounded-lg transition duration-200"
+                      >
+                        Remove {silences.filter(range => range.selected).length} pauses
+                      </button>
+                    </>
+                  )}
+                </div>
+                {silenceMessage && (
+                  <p className="text-amber-700">{silenceMessage}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Idle Screen Control */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <span className="text-lg">⏩</span>
+                Idle Screen
+              </h3>
+              <div className="space-y-3 text-sm text-gray-700">
+                <p className="text-gray-600">
+                  Find stretches where nothing on screen changes, then cut them or fast-forward through them.
+                </p>
+                <label className="block">
+                  <span className="block mb-1">Shortest stretch: {idleSettings.minDuration}s</span>
+                  <input
+                    type="range"
+                    min="1"
+                    max="30"
+                    step="1"
+                    value={idleSettings.minDuration}
+                    onChange={(e) => setIdleSettings(prev => ({ ...prev, minDuration: parseInt(e.target.value) }))}
+                    disabled={detectingIdle}
+                    className="w-full"
+                  />
+                </label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={idleSettings.action}
+                    onChange={(e) => setIdleSettings(prev => ({ ...prev, action: e.target.value as 'cut' | 'fast-forward' }))}
+                    className="flex-1 p-1 border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    <option value="fast-forward">Fast-forward</option>
+                    <option value="cut">Cut</option>
+                  </select>
+                  {idleSettings.action === 'fast-forward' && (
+                    <select
+                      value={idleSettings.speed}
+                      onChange={(e) => setIdleSettings(prev => ({ ...prev, speed: parseInt(e.target.value) }))}
+                      className="p-1 border border-gray-300 rounded bg-white text-gray-900"
+                    >
+                      {[2, 4, 8, 16].map(speed => (
+                        <option key={speed} value={speed}>{speed}x</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={handleDetectIdle}
+                    disabled={processing.isProcessing || detectingIdle}
+                    className="px-3 py-2 text-sm bg-slate-100 hover:bg-slate-200 disabled:bg-gray-100 disabled:text-gray-400 text-slate-800 rounded-lg transition duration-200"
+                  >
+                    {detectingIdle ? 'Detecting...' : 'Detect idle screen'}
+                  </button>
+                  {idleRanges.length > 0 && (
+                    <button
+                      onClick={handleApplyIdle}
+                      disabled={processing.isProcessing || !idleRanges.some(range => range.selected)}
+                      className="px-3 py-2 text-sm bg-emerald-100 hover:bg-emerald-200 disabled:bg-gray-100 disabled:text-gray-400 text-emerald-800 rounded-lg transition duration-200"
+                    >
+                      {idleSettings.action === 'cut' ? 'Cut' : 'Fast-forward'} {idleRanges.filter(range => range.selected).length} stretches
+                    </button>
+                  )}
+                  {speedRanges.length > 0 && (
+                    <button
+                      onClick={speedRangeEditor.clear}
+                      disabled={processing.isProcessing}
+                      className="px-3 py-2 text-sm bg-white border border-gray-300 hover:bg-gray-100 rounded-lg"
+                    >
+                      Clear fast-forward
+                    </button>
+                  )}
+                </div>
+                {idleMessage && (
+                  <p className="text-amber-700">{idleMessage}</p>
+                )}
+              </div>
+            </div>
+
+            <SpeedRangesPanel
+              editor={speedRangeEditor}
+              speed={editOptions.speed}
+              onSpeedChange={(speed) => setEditOptions(prev => ({ ...prev, speed }))}
+              currentTime={currentTime}
+              duration={duration}
+              disabled={processing.isProcessing}
+            />
+
+            {/* Loudness Control */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <span className="text-lg">🔊</span>
+                Loudness
+              </h3>
+              <div className="space-y-3 text-sm text-gray-700">
+                <p className="text-gray-600">
+                  Bring recordings from different mics to the same level. The export measures the edited audio first, then applies the gain.
+                </p>
+                <label className="block">
+                  <span className="block mb-1">Normalize to</span>
+                  <select
+                    value={getLoudnessPresetId(editOptions.normalize) || ''}
+                    onChange={(e) => {
+                      const presetId = e.target.value as LoudnessPresetId | '';
+                      setEditOptions(prev => ({
+                        ...prev,
+                        normalize: presetId ? LOUDNESS_PRESETS[presetId].target : undefined
+                      }));
+                    }}
+                    disabled={processing.isProcessing}
+                    className="w-full p-1 border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    <option value="">Off</option>
+                    {(Object.keys(LOUDNESS_PRESETS) as LoudnessPresetId[]).map(id => (
+                      <option key={id} value={id}>{LOUDNESS_PRESETS[id].label}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={handleMeasureLoudness}
+                  disabled={processing.isProcessing || measuringLoudness}
+                  className="px-3 py-2 text-sm bg-sky-100 hover:bg-sky-200 disabled:bg-gray-100 disabled:text-gray-400 text-sky-800 rounded-lg transition duration-200"
+                >
+                  {measuringLoudness ? 'Measuring...' : 'Measure original'}
+                </button>
+                {loudness && (
+                  <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+                    <dt className="text-gray-500">Integrated</dt>
+                    <dd className="font-mono">{loudness.integrated.toFixed(1)} LUFS</dd>
+                    <dt className="text-gray-500">True peak</dt>
+                    <dd className="font-mono">{loudness.truePeak.toFixed(1)} dBTP</dd>
+                    <dt className="text-gray-500">Range</dt>
+                    <dd className="font-mono">{loudness.range.toFixed(1)} LU</dd>
+                    {editOptions.normalize && (
+                      <>
+                        <dt className="text-gray-500">Gain to target</dt>
+                        <dd className="font-mono">
+                          {(editOptions.normalize.integrated - loudness.integrated) >= 0 ? '+' : ''}
+                          {(editOptions.normalize.integrated - loudness.integrated).toFixed(1)} dB
+                        </dd>
+                      </>
+                    )}
+                  </dl>
+                )}
+                {loudnessMessage && (
+                  <p className="text-amber-700">{loudnessMessage}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Noise Reduction Control */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <span className="text-lg">🎙️</span>
+                Noise Reduction
+              </h3>
+              <div className="space-y-3 text-sm text-gray-700">
+                <p className="text-gray-600">
+                  Clean up fan hum and hiss from a laptop mic. Preview a few seconds from the playhead before exporting.
+                </p>
+                <label className="block">
+                  <span className="block mb-1">Strength</span>
+                  <select
+                    value={editOptions.noiseReduction || ''}
+                    onChange={(e) => {
+                      const strength = e.target.value as NoiseReductionStrength | '';
+                      setEditOptions(prev => ({ ...prev, noiseReduction: strength || undefined }));
+                      setNoisePreview(null);
+                      setNoiseMessage('');
+                    }}
+                    disabled={processing.isProcessing}
+                    className="w-full p-1 border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    <option value="">Off</option>
+                    {(Object.keys(NOISE_REDUCTION_PRESETS) as NoiseReductionStrength[]).map(strength => (
+                      <option key={strength} value={strength}>{NOISE_REDUCTION_PRESETS[strength].label}</option>
+                    ))}
+                  </select>
+                </label>
+                {editOptions.noiseReduction && (
+                  <button
+                    onClick={handleNoisePreview}
+                    disabled={processing.isProcessing || previewingNoise || !ffmpegRef.current}
+                    className="px-3 py-2 text-sm bg-teal-100 hover:bg-teal-200 disabled:bg-gray-100 disabled:text-gray-400 text-teal-800 rounded-lg transition duration-200"
+                  >
+                    {previewingNoise ? 'Preparing preview...' : `Preview ${NOISE_PREVIEW_LENGTH}s from playhead`}
+                  </button>
+                )}
+                {noisePreview && (
+                  <div className="space-y-2">
+                    <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                      {(['original', 'cleaned'] as const).map(side => (
+                        <button
+                          key={side}
+                          onClick={() => switchNoisePreview(side)}
+                          className={`flex-1 px-3 py-1 ${noisePreviewSide === side ? 'bg-teal-600 text-white' : 'bg-white hover:bg-gray-100'}`}
+                        >
+                          {side === 'original' ? 'A: Original' : 'B: Cleaned'}
+                        </button>
+                      ))}
+                    </div>
+                    <audio
+                      ref={noiseAudioRef}
+                      src={noisePreview[noisePreviewSide]}
+                      onLoadedMetadata={handleNoisePreviewLoaded}
+                      controls
+                      className="w-full"
+                    />
+                  </div>
+                )}
+                {noiseMessage && (
+                  <p className="text-gray-600">{noiseMessage}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Crop Control */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <span className="text-lg">🔲</span>
+                Crop
+              </h3>
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  {editOptions.crop
+                    ? <>Keeping <span className="font-mono">{editOptions.crop.width}×{editOptions.crop.height}</span> at <span className="font-mono">{editOptions.crop.x}, {editOptions.crop.y}</span></>
+                    : 'Drop taskbars, borders or a second monitor from the recording'}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={handleToggleCropMode}
+                    disabled={processing.isProcessing || videoSize.width === 0}
+                    className="px-3 py-2 text-sm bg-indigo-100 hover:bg-indigo-200 disabled:bg-gray-100 disabled:text-gray-400 text-indigo-700 rounded-lg transition duration-200"
+                  >
+                    {cropMode ? 'Done' : 'Adjust crop'}
+                  </button>
+                  <button
+                    onClick={handleDetectCrop}
+                    disabled={processing.isProcessing || detectingCrop}
+                    className="px-3 py-2 text-sm bg-indigo-100 hover:bg-indigo-200 disabled:bg-gray-100 disabled:text-gray-400 text-indigo-700 rounded-lg transition duration-200"
+                  >
+                    {detectingCrop ? 'Detecting...' : 'Auto-detect'}
+                  </button>
+                  {editOptions.crop && (
+                    <button
+                      onClick={handleRemoveCrop}
+                      disabled={processing.isProcessing}
+                      className="px-3 py-2 text-sm bg-red-100 hover:bg-red-200 disabled:bg-gray-100 disabled:text-gray-400 text-red-700 rounded-lg transition duration-200"
+                    >
+                      Remove crop
+                    </button>
+                  )}
+                </div>
+                {cropMessage && (
+                  <p className="text-sm text-amber-700">{cropMessage}</p>
+                )}
+              </div>
+            </div>
+
+            <ZoomPanel
+              editor={zoomEditor}
+              frame={zoomFrame}
+              currentTime={currentTime}
+              onSelect={handleSelectZoom}
+              onSeek={handleSeek}
+              disabled={processing.isProcessing}
+            />
+
+            <TextOverlayPanel
+              editor={textOverlayEditor}
+              frameHeight={editOptions.crop?.height || videoSize.height}
+              currentTime={currentTime}
+              duration={duration}
+              disabled={processing.isProcessing}
+            />
+
+            <PictureInPicturePanel
+              videoId={video.id}
+              pictureInPicture={editOptions.pictureInPicture}
+              setEditOptions={setEditOptions}
+              currentTime={currentTime}
+              disabled={processing.isProcessing}
+            />
+
+            <BackgroundMusicPanel
+              editor={musicEditor}
+              disabled={processing.isProcessing}
+            />
+
+            <WatermarkPanel
+              watermark={editOptions.watermark}
+              setEditOptions={setEditOptions}
+              disabled={processing.isProcessing}
+            />
+
+            <RedactionPanel
+              editor={redactionEditor}
+              videoWidth={videoSize.width}
+              videoHeight={videoSize.height}
+              currentTime={currentTime}
+              duration={duration}
+              onSelect={handleSelectRedaction}
+              disabled={processing.isProcessing}
+            />
+
             {/* Video Quality Control */}
             <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
               <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -624,11 +2018,13 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
               </h3>
               <div className="space-y-4">
                 <div className="grid grid-cols-1 gap-3">
-                  {[
-                    { value: 'low', label: 'Low Quality', resolution: '480p', description: 'Smaller file size, faster processing', color: 'bg-blue-50 border-blue-200 text-blue-700' },
-                    { value: 'medium', label: 'Medium Quality', resolution: '720p', description: 'Balanced quality and file size', color: 'bg-green-50 border-green-200 text-green-700' },
-                    { value: 'high', label: 'High Quality', resolution: '1080p', description: 'Best quality, larger file size', color: 'bg-purple-50 border-purple-200 text-purple-700' }
-                  ].map((option) => (
+                  {listEncodingProfiles().map((profile, index) => ({
+                    value: profile.id,
+                    label: profile.name,
+                    resolution: getResolutionLabel(profile),
+                    description: profile.description,
+                    color: PROFILE_COLORS[index % PROFILE_COLORS.length]
+                  })).map((option) => (
                     <label
                       key={option.value}
                       className={`relative flex items-center p-4 rounded-lg border-2 cursor-pointer transition-all duration-200 ${
@@ -644,7 +2040,7 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                         checked={editOptions.quality === option.value}
                         onChange={(e) => setEditOptions(prev => ({
                           ...prev,
-                          quality: e.target.value as 'low' | 'medium' | 'high'
+                          quality: e.target.value
                         }))}
                         className="sr-only"
                         disabled={processing.isProcessing}
@@ -675,7 +2071,7 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                       <span className="text-amber-600 text-sm">ℹ️</span>
                       <div className="text-sm text-amber-700">
                         <p className="font-medium">Quality Change Detected</p>
-                        <p>Current: {processedQuality === 'low' ? '480p' : processedQuality === 'medium' ? '720p' : '1080p'} → New: {editOptions.quality === 'low' ? '480p' : editOptions.quality === 'medium' ? '720p' : '1080p'}</p>
+                        <p>Current: {getResolutionLabel(getEncodingProfile(processedQuality))} → New: {getResolutionLabel(selectedProfile)}</p>
                         <p className="mt-1">Click &quot;Re-process Video&quot; to apply the new quality settings.</p>
                       </div>
                     </div>
@@ -694,7 +2090,8 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                   fadeIn: 0,
                   fadeOut: 0,
                   speed: 1,
-                  quality: 'medium'
+                  quality: 'medium',
+                  segments: []
                 })}
                 disabled={processing.isProcessing}
                 className="w-full bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition duration-200"
@@ -746,14 +2143,149 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                     className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition duration-200 bg-white text-gray-900 placeholder-gray-500"
                   />
                   <div className="absolute inset-y-0 right-0 flex items-center pr-3">
-                    <span className="text-gray-500 text-sm font-medium">.mp4</span>
+                    <span className="text-gray-500 text-sm font-medium">.{outputExtension}</span>
                   </div>
                 </div>
                 <p className="text-xs text-gray-500 bg-gray-50 px-3 py-2 rounded-lg">
-                  <span className="font-medium">Preview:</span> {customFileName || `trimmed_${video.name}`}.mp4
+                  <span className="font-medium">Preview:</span> {customFileName || `trimmed_${video.name}`}.{outputExtension}
                 </p>
               </div>
 
+              {/* Export Mode */}
+              <div className="space-y-3">
+                <label className="block text-sm font-semibold text-gray-800">
+                  Export As
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    ['video', 'Video'],
+                    ['audio', 'Audio only'],
+                    ['animation', 'GIF / WebP']
+                  ] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setExportMode(mode)}
+                      disabled={saving || exporting}
+                      className={`px-3 py-2 rounded-lg border-2 text-sm font-medium transition duration-200 ${
+                        exportMode === mode
+                          ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                          : 'border-gray-200 text-gray-700 hover:border-indigo-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {exportMode === 'audio' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="text-xs text-gray-600">
+                      Format
+                      <select
+                        value={audioFormat}
+                        onChange={(e) => setAudioFormat(e.target.value as AudioFormat)}
+                        disabled={saving}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      >
+                        {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map(format => (
+                          <option key={format} value={format}>{AUDIO_FORMATS[format].label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Bitrate
+                      <select
+                        value={audioBitrate}
+                        onChange={(e) => setAudioBitrate(e.target.value)}
+                        disabled={saving || AUDIO_FORMATS[audioFormat].lossless}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                      >
+                        {AUDIO_BITRATES.map(bitrate => (
+                          <option key={bitrate} value={bitrate}>{bitrate.replace('k', ' kbps')}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
+                {exportMode === 'animation' && (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="text-xs text-gray-600">
+                        Format
+                        <select
+                          value={animationOptions.format}
+                          onChange={(e) => updateAnimationOptions({ format: e.target.value as AnimationFormat })}
+                          disabled={exporting}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        >
+                          {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map(format => (
+                            <option key={format} value={format}>{ANIMATION_FORMATS[format].label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Frame rate
+                        <select
+                          value={animationOptions.fps}
+                          onChange={(e) => updateAnimationOptions({ fps: Number(e.target.value) })}
+                          disabled={exporting}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        >
+                          {ANIMATION_FPS_OPTIONS.map(fps => (
+                            <option key={fps} value={fps}>{fps} fps</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Width
+                        <select
+                          value={animationOptions.width}
+                          onChange={(e) => updateAnimationOptions({ width: Number(e.target.value) })}
+                          disabled={exporting}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        >
+                          {ANIMATION_WIDTH_OPTIONS.map(width => (
+                            <option key={width} value={width}>{width}px</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Dithering
+                        <select
+                          value={animationOptions.dither}
+                          onChange={(e) => updateAnimationOptions({ dither: e.target.value as DitherMode })}
+                          disabled={exporting || animationOptions.format !== 'gif'}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        >
+                          {(Object.keys(DITHER_MODES) as DitherMode[]).map(mode => (
+                            <option key={mode} value={mode}>{DITHER_MODES[mode]}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-xs text-gray-600">
+                        Plays
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={animationOptions.loop}
+                          onChange={(e) => updateAnimationOptions({ loop: Math.max(0, Math.min(100, Math.round(Number(e.target.value) || 0))) })}
+                          disabled={exporting}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        />
+                        <span className="block mt-1 text-gray-500">0 loops forever</span>
+                      </label>
+                    </div>
+                    <p className={`text-xs px-3 py-2 rounded-lg ${
+                      estimatedAnimationSize > LARGE_ANIMATION_SIZE ? 'bg-amber-50 text-amber-800' : 'bg-gray-50 text-gray-600'
+                    }`}>
+                      <span className="font-medium">Estimated size:</span> about {formatFileSize(estimatedAnimationSize)}
+                      {' '}({animationSize.width}×{animationSize.height}, {Math.ceil(outputDuration * animationOptions.fps)} frames)
+                      {estimatedAnimationSize > LARGE_ANIMATION_SIZE && '. Shorten the selection or lower the frame rate or width to keep it pasteable.'}
+                    </p>
+                  </div>
+                )}
+              </div>
+
               {/* Video Info Card */}
               <div className="bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl p-4 border border-gray-200">
                 <div className="flex items-center justify-between">
@@ -764,14 +2296,18 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                     <div>
                       <span className="text-sm font-medium text-gray-700">Quality:</span>
                       <span className="ml-2 px-3 py-1 bg-indigo-500 text-white rounded-full text-xs font-bold">
-                        {editOptions.quality === 'low' ? '480p' : editOptions.quality === 'medium' ? '720p' : '1080p'}
+                        {exportMode === 'audio'
+                          ? AUDIO_FORMATS[audioFormat].label
+                          : exportMode === 'animation'
+                            ? `${ANIMATION_FORMATS[animationOptions.format].label}, ${animationSize.width}px`
+                            : getResolutionLabel(selectedProfile)}
                       </span>
                     </div>
                   </div>
                   <div className="text-right">
                     <div className="text-xs text-gray-500">Duration</div>
                     <div className="text-sm font-mono text-gray-700">
-                      {formatTime((editOptions.endTime - editOptions.startTime) / 100 * duration)}
+                      {formatTime(totalDuration(segments))}
                     </div>
                   </div>
                 </div>
@@ -786,8 +2322,15 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                 
                 {/* Download Option */}
                 <button
-                  onClick={downloadTrimmedVideo}
-                  className="w-full group relative overflow-hidden bg-gradient-to-r from-green-50 to-emerald-50 border-2 border-green-200 rounded-xl p-5 hover:border-green-400 hover:shadow-lg transition-all duration-300 transform hover:scale-[1.02]"
+                  onClick={
+                    exportMode === 'audio'
+                      ? downloadAudio
+                      : exportMode === 'animation'
+                        ? () => exportAnimation('download')
+                        : downloadTrimmedVideo
+                  }
+                  disabled={saving || exporting}
+                  className="w-full group relative overflow-hidden bg-gradient-to-r from-green-50 to-emerald-50 border-2 border-green-200 rounded-xl p-5 hover:border-green-400 hover:shadow-lg transition-all duration-300 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                 >
                   <div className="flex items-center gap-4">
                     <div className="w-12 h-12 bg-green-500 rounded-xl flex items-center justify-center group-hover:bg-green-600 transition duration-200">
@@ -795,7 +2338,7 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
                     </div>
                     <div className="flex-1 text-left">
                       <div className="font-semibold text-gray-900 group-hover:text-green-700 transition duration-200">
-                        Download to Device
+                        {exporting ? 'Exporting...' : 'Download to Device'}
                       </div>
                       <div className="text-sm text-gray-600 group-hover:text-green-600 transition duration-200">
                         Save directly to your computer
@@ -811,8 +2354,14 @@ export default function EnhancedVideoEditor({ video, onCancel }: EnhancedVideoEd
 
                 {/* Google Drive Option */}
                 <button
-                  onClick={saveToGoogleDrive}
-                  disabled={saving || !googleDriveFolderId}
+                  onClick={
+                    exportMode === 'audio'
+                      ? saveAudioToGoogleDrive
+                      : exportMode === 'animation'
+                        ? () => exportAnimation('google-drive')
+                        : saveToGoogleDrive
+                  }
+                  disabled={saving || exporting || !googleDriveFolderId}
                   className="w-full group relative overflow-hidden bg-gradient-to-r from-blue-50 to-cyan-50 border-2 border-blue-200 rounded-xl p-5 hover:border-blue-400 hover:shadow-lg transition-all duration-300 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                 >
                   <div className="flex items-center gap-4">
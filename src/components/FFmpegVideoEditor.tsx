@@ -1,7 +1,11 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { Video, VideoEditOptions } from '@/types/video';
+import { useState, useRef } from 'react';
+import { ProcessingJob, Video, VideoEditOptions } from '@/types/video';
+import { getResolutionLabel, listEncodingProfiles } from '@/lib/encodingProfiles';
+import { SPEED_PRESETS } from '@/lib/filterGraph';
+import { waitForJob } from '@/lib/jobProgress';
+import { useHlsPlayback } from './useHlsPlayback';
 
 interface FFmpegVideoEditorProps {
   video: Video;
@@ -20,8 +24,9 @@ interface VideoInfo {
 
 export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpegVideoEditorProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [loading, setLoading] = useState(false);
-  const [videoUrl, setVideoUrl] = useState<string>('');
+  // Processing happens server-side, so the preview can stream straight from the proxy
+  const videoUrl = `/api/videos/${video.id}/download?disposition=inline`;
+  useHlsPlayback(videoRef, video.id, videoUrl);
   const [videoInfo] = useState<VideoInfo | null>(null);
   const [editOptions, setEditOptions] = useState<VideoEditOptions>({
     startTime: 0,
@@ -36,33 +41,9 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
   const [duration, setDuration] = useState(0);
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
-
-  const loadVideo = useCallback(async () => {
-    try {
-      setLoading(true);
-      const response = await fetch(`/api/videos/${video.id}/download`);
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      setVideoUrl(url);
-    } catch (error) {
-      console.error('Failed to load video:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [video.id]);
-
-  useEffect(() => {
-    loadVideo();
-  }, [video.id, loadVideo]);
-
-  useEffect(() => {
-    return () => {
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
-      }
-    };
-  }, [videoUrl]);
-
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [stage, setStage] = useState<ProcessingJob['stage']>('queued');
+  const [metrics, setMetrics] = useState<ProcessingJob['metrics'] | null>(null);
 
   const handleVideoLoaded = () => {
     if (videoRef.current && !videoInfo) {
@@ -164,12 +145,31 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
       
       const data = await response.json();
       
-      if (data.success) {
-        console.log('Video processed successfully:', data);
-        onComplete();
-      } else {
+      if (!data.success) {
         console.error('Failed to process video:', data.error);
         alert(`Failed to process video: ${data.error}`);
+        return;
+      }
+
+      setJobId(data.jobId);
+      const job = await waitForJob(video.id, data.jobId, {
+        onProgress: (update) => {
+          setStage(update.stage);
+          setProgress(update.percent);
+          setMetrics(update.metrics || null);
+        }
+      });
+
+      if (job.status === 'completed') {
+        console.log('Video processed successfully:', job);
+        onComplete();
+      } else if (job.errorCode === 'reauthenticate') {
+        if (confirm(`${job.error} Sign in now?`)) {
+          await signInAgain();
+        }
+      } else if (job.status === 'failed') {
+        console.error('Failed to process video:', job.error);
+        alert(`Failed to process video: ${job.error}`);
       }
     } catch (error) {
       console.error('Failed to process video:', error);
@@ -177,6 +177,27 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
     } finally {
       setProcessing(false);
       setProgress(0);
+      setJobId(null);
+      setMetrics(null);
+    }
+  };
+
+  // Send the user back through Google sign-in, as GoogleAuth does
+  const signInAgain = async () => {
+    const response = await fetch('/api/auth/google', { method: 'POST' });
+    const data = await response.json();
+    if (data.success && data.authUrl) {
+      window.location.href = data.authUrl;
+    }
+  };
+
+  const handleCancelProcessing = async () => {
+    if (!jobId) return;
+
+    try {
+      await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to cancel processing:', error);
     }
   };
 
@@ -194,17 +215,6 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center py-12">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading video...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="max-w-7xl mx-auto">
       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
@@ -236,24 +246,14 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
           {/* Video Player */}
           <div className="lg:col-span-2">
             <div className="aspect-video bg-black rounded-lg overflow-hidden mb-4">
-              {videoUrl ? (
-                <video
-                  ref={videoRef}
-                  src={videoUrl}
-                  controls
-                  className="w-full h-full"
-                  onLoadedMetadata={handleVideoLoaded}
-                  onPlay={() => setIsPlaying(true)}
-                  onPause={() => setIsPlaying(false)}
-                />
-              ) : (
-                <div className="w-full h-full flex items-center justify-center text-white">
-                  <div className="text-center">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-4"></div>
-                    <p>Loading video...</p>
-                  </div>
-                </div>
-              )}
+              <video
+                ref={videoRef}
+                controls
+                className="w-full h-full"
+                onLoadedMetadata={handleVideoLoaded}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+              />
             </div>
             
             {/* Video Info */}
@@ -387,15 +387,15 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
                   <label className="block text-sm text-gray-600 mb-2">
                     Speed: {editOptions.speed}x
                   </label>
-                  <input
-                    type="range"
-                    min="0.5"
-                    max="2"
-                    step="0.1"
+                  <select
                     value={editOptions.speed}
                     onChange={(e) => handleOptionChange('speed', parseFloat(e.target.value))}
-                    className="w-full"
-                  />
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {SPEED_PRESETS.map(speed => (
+                      <option key={speed} value={speed}>{speed}x</option>
+                    ))}
+                  </select>
                 </div>
                 
                 <div>
@@ -407,9 +407,11 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
                     onChange={(e) => handleOptionChange('quality', e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   >
-                    <option value="low">Low (CRF 28)</option>
-                    <option value="medium">Medium (CRF 23)</option>
-                    <option value="high">High (CRF 18)</option>
+                    {listEncodingProfiles().map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name} ({getResolutionLabel(profile)})
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -418,14 +420,31 @@ export default function FFmpegVideoEditor({ video, onComplete, onCancel }: FFmpe
             {/* Processing Status */}
             {processing && (
               <div className="bg-blue-50 p-4 rounded-lg">
-                <h4 className="font-medium text-blue-900 mb-2">Processing Video</h4>
+                <div className="flex justify-between items-center mb-2">
+                  <h4 className="font-medium text-blue-900 capitalize">{stage}...</h4>
+                  <button
+                    onClick={handleCancelProcessing}
+                    disabled={!jobId}
+                    className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400 transition duration-200"
+                  >
+                    Cancel
+                  </button>
+                </div>
                 <div className="w-full bg-blue-200 rounded-full h-2 mb-2">
                   <div 
                     className="bg-blue-600 h-2 rounded-full transition-all duration-300"
                     style={{ width: `${progress}%` }}
                   ></div>
                 </div>
-                <p className="text-sm text-blue-700">This may take a few minutes...</p>
+                {metrics ? (
+                  <div className="flex justify-between text-xs font-mono text-blue-700">
+                    <span>{metrics.timemark}</span>
+                    <span>{metrics.fps} fps</span>
+                    <span>{metrics.speed}x</span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-blue-700">This may take a few minutes...</p>
+                )}
               </div>
             )}
 
@@ -0,0 +1,166 @@
+'use client';
+
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import type { Video, VideoEditOptions } from '@/types/video';
+import type { PictureInPicture, PipPosition, PipShape } from '@/lib/filterGraph';
+
+const PIP_POSITIONS: { value: PipPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' }
+];
+
+interface PictureInPicturePanelProps {
+  videoId: string; // The video being edited, which cannot overlay itself
+  pictureInPicture?: PictureInPicture;
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>;
+  currentTime: number;
+  disabled?: boolean;
+}
+
+/**
+ * Picks another recording to show in a corner of this one and lays it out
+ */
+export default function PictureInPicturePanel({
+  videoId,
+  pictureInPicture,
+  setEditOptions,
+  currentTime,
+  disabled = false
+}: PictureInPicturePanelProps) {
+  const [pipVideos, setPipVideos] = useState<Video[]>([]);
+
+  useEffect(() => {
+    const loadPipVideos = async () => {
+      const response = await fetch('/api/videos');
+      const data = await response.json();
+      if (data.success) {
+        setPipVideos((data.videos as Video[]).filter(other => other.id !== videoId));
+      }
+    };
+
+    loadPipVideos().catch((error) => {
+      console.error('Failed to load videos for picture-in-picture:', error);
+    });
+  }, [videoId]);
+
+  const handleSelectVideo = (sourceId: string) => {
+    setEditOptions(prev => {
+      if (!sourceId) {
+        return { ...prev, pictureInPicture: undefined };
+      }
+      // Keep the layout when switching to another source
+      const pictureInPicture: PictureInPicture = prev.pictureInPicture
+        ? { ...prev.pictureInPicture, videoId: sourceId }
+        : { videoId: sourceId, position: 'bottom-right', size: 0.25, shape: 'rectangle', offset: 0, volume: 100 };
+      return { ...prev, pictureInPicture };
+    });
+  };
+
+  const update = (changes: Partial<PictureInPicture>) => {
+    setEditOptions(prev => prev.pictureInPicture
+      ? { ...prev, pictureInPicture: { ...prev.pictureInPicture, ...changes } }
+      : prev);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🧑‍💻</span>
+        Picture-in-Picture
+      </h3>
+      <div className="space-y-3 text-sm text-gray-700">
+        <p className="text-gray-600">
+          Show a webcam or second recording in a corner of this one.
+        </p>
+        <select
+          value={pictureInPicture?.videoId || ''}
+          onChange={(e) => handleSelectVideo(e.target.value)}
+          disabled={disabled}
+          className="w-full p-1 border border-gray-300 rounded bg-white text-gray-900"
+        >
+          <option value="">None</option>
+          {pipVideos.map(other => (
+            <option key={other.id} value={other.id}>{other.name}</option>
+          ))}
+        </select>
+        {pictureInPicture && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={pictureInPicture.position}
+                onChange={(e) => update({ position: e.target.value as PipPosition })}
+                disabled={disabled}
+                className="p-1 border border-gray-300 rounded bg-white text-gray-900"
+              >
+                {PIP_POSITIONS.map(position => (
+                  <option key={position.value} value={position.value}>{position.label}</option>
+                ))}
+              </select>
+              <select
+                value={pictureInPicture.shape}
+                onChange={(e) => update({ shape: e.target.value as PipShape })}
+                disabled={disabled}
+                className="p-1 border border-gray-300 rounded bg-white text-gray-900"
+              >
+                <option value="rectangle">Rectangle</option>
+                <option value="circle">Circle</option>
+              </select>
+            </div>
+            <label className="block">
+              <span className="block mb-1">Size: {Math.round(pictureInPicture.size * 100)}% of the video width</span>
+              <input
+                type="range"
+                min="0.1"
+                max="0.5"
+                step="0.01"
+                value={pictureInPicture.size}
+                onChange={(e) => update({ size: parseFloat(e.target.value) })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </label>
+            <label className="block">
+              <span className="block mb-1">Volume: {pictureInPicture.volume}%</span>
+              <input
+                type="range"
+                min="0"
+                max="200"
+                step="5"
+                value={pictureInPicture.volume}
+                onChange={(e) => update({ volume: parseInt(e.target.value) })}
+                disabled={disabled}
+                className="w-full"
+              />
+            </label>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1">
+                Starts at
+                <input
+                  type="number"
+                  step="0.1"
+                  value={pictureInPicture.offset}
+                  onChange={(e) => update({ offset: parseFloat(e.target.value) || 0 })}
+                  disabled={disabled}
+                  className="w-20 p-1 border border-gray-300 rounded bg-white text-gray-900"
+                />
+                s
+              </label>
+              <button
+                onClick={() => update({ offset: Math.round(currentTime * 10) / 10 })}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+              >
+                Start here
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              A negative start skips the beginning of the overlay video.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
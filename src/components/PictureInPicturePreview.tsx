@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { CropRect, PictureInPicture, PIP_MARGIN } from '@/lib/filterGraph';
+import { useContainedBox } from './RegionOverlay';
+
+interface PictureInPicturePreviewProps {
+  videoWidth: number; // Intrinsic size of the main video
+  videoHeight: number;
+  pip: PictureInPicture;
+  src: string;
+  crop?: CropRect; // The overlay is placed within the cropped frame, as in the export
+  currentTime: number; // Playback position of the main video
+  playing: boolean;
+}
+
+// How far the overlay may drift from the main video before it is re-seeked
+const MAX_DRIFT = 0.25;
+
+/**
+ * Plays the overlay video on top of the main one, kept in sync with its
+ * playback position and offset. Passes pointer events through.
+ */
+export default function PictureInPicturePreview({
+  videoWidth,
+  videoHeight,
+  pip,
+  src,
+  crop,
+  currentTime,
+  playing
+}: PictureInPicturePreviewProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const pipRef = useRef<HTMLVideoElement>(null);
+  const box = useContainedBox(overlayRef, videoWidth, videoHeight);
+  const [pipSize, setPipSize] = useState({ width: 16, height: 9, duration: 0 });
+  const scale = videoWidth ? box.width / videoWidth : 0;
+  const frame = crop || { x: 0, y: 0, width: videoWidth, height: videoHeight };
+
+  const pipTime = currentTime - pip.offset;
+  const visible = pipTime >= 0 && (pipSize.duration === 0 || pipTime < pipSize.duration);
+
+  // Follow the main video's position; small drift is left alone so playback stays smooth
+  useEffect(() => {
+    const element = pipRef.current;
+    if (!element) return;
+
+    if (!visible) {
+      element.pause();
+      return;
+    }
+    if (Math.abs(element.currentTime - pipTime) > MAX_DRIFT) {
+      element.currentTime = pipTime;
+    }
+    if (playing && element.paused) {
+      element.play().catch(() => {
+        // Autoplay can be refused; the overlay then shows a still frame
+      });
+    } else if (!playing && !element.paused) {
+      element.pause();
+    }
+  }, [pipTime, playing, visible]);
+
+  useEffect(() => {
+    const element = pipRef.current;
+    if (!element) return;
+    element.volume = Math.min(pip.volume / 100, 1);
+    element.muted = pip.volume === 0;
+  }, [pip.volume]);
+
+  const width = frame.width * pip.size * scale;
+  const height = pip.shape === 'circle' ? width : width * pipSize.height / pipSize.width;
+  const margin = frame.width * PIP_MARGIN * scale;
+  const left = pip.position.endsWith('left') ? margin : frame.width * scale - width - margin;
+  const top = pip.position.startsWith('top') ? margin : frame.height * scale - height - margin;
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+      <video
+        ref={pipRef}
+        src={src}
+        playsInline
+        preload="auto"
+        onLoadedMetadata={(e) => {
+          const element = e.currentTarget;
+          setPipSize({
+            width: element.videoWidth || 16,
+            height: element.videoHeight || 9,
+            duration: Number.isFinite(element.duration) ? element.duration : 0,
+          });
+        }}
+        className={`absolute object-cover ${pip.shape === 'circle' ? 'rounded-full' : ''}`}
+        style={{
+          left: box.left + frame.x * scale + left,
+          top: box.top + frame.y * scale + top,
+          width,
+          height,
+          visibility: visible ? 'visible' : 'hidden',
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { Dispatch, SetStateAction, useState } from 'react';
+import type { VideoEditOptions } from '@/types/video';
+import type { Redaction, RedactionStyle } from '@/lib/filterGraph';
+import { formatTime } from '@/lib/timeRanges';
+
+/**
+ * The redaction list in the edit options and which box is being edited
+ */
+export function useRedactions(
+  redactions: Redaction[],
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>
+) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const add = (redaction: Redaction) => {
+    setEditOptions(prev => ({ ...prev, redactions: [...(prev.redactions || []), redaction] }));
+  };
+
+  const update = (id: string, changes: Partial<Redaction>) => {
+    setEditOptions(prev => ({
+      ...prev,
+      redactions: (prev.redactions || []).map(redaction =>
+        redaction.id === id ? { ...redaction, ...changes } : redaction
+      )
+    }));
+  };
+
+  const remove = (id: string) => {
+    setEditOptions(prev => ({
+      ...prev,
+      redactions: (prev.redactions || []).filter(redaction => redaction.id !== id)
+    }));
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+  };
+
+  return {
+    items: redactions,
+    selectedId,
+    selected: redactions.find(redaction => redaction.id === selectedId) || null,
+    select: setSelectedId,
+    add,
+    update,
+    remove
+  };
+}
+
+export type RedactionEditor = ReturnType<typeof useRedactions>;
+
+interface RedactionPanelProps {
+  editor: RedactionEditor;
+  videoWidth: number; // Intrinsic size of the source video
+  videoHeight: number;
+  currentTime: number;
+  duration: number;
+  onSelect: (id: string | null) => void; // Also closes the other tools that draw on the video
+  disabled?: boolean;
+}
+
+export default function RedactionPanel({
+  editor,
+  videoWidth,
+  videoHeight,
+  currentTime,
+  duration,
+  onSelect,
+  disabled = false
+}: RedactionPanelProps) {
+  const handleAdd = () => {
+    if (videoWidth === 0) return;
+
+    // Start with a box in the middle of the frame covering the next few seconds
+    const redaction: Redaction = {
+      id: `redaction-${Date.now()}`,
+      x: Math.round(videoWidth * 0.375),
+      y: Math.round(videoHeight * 0.375),
+      width: Math.round(videoWidth / 4),
+      height: Math.round(videoHeight / 4),
+      start: currentTime,
+      end: Math.min(currentTime + 5, duration),
+      style: 'blur'
+    };
+
+    editor.add(redaction);
+    onSelect(redaction.id);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🕶️</span>
+        Redactions
+      </h3>
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Hide emails, tokens and customer data. Drag the box on the video and its bar on the timeline.
+        </p>
+        {editor.items.map((redaction, index) => (
+          <div
+            key={redaction.id}
+            className={`p-3 rounded-lg border-2 space-y-2 ${
+              redaction.id === editor.selectedId ? 'border-amber-400 bg-amber-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => onSelect(redaction.id === editor.selectedId ? null : redaction.id)}
+                className="text-sm font-medium text-gray-900 hover:text-amber-700"
+              >
+                #{index + 1} · <span className="font-mono">{formatTime(redaction.start)}–{formatTime(redaction.end)}</span>
+              </button>
+              <button
+                onClick={() => editor.remove(redaction.id)}
+                disabled={disabled}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={redaction.style}
+                onChange={(e) => editor.update(redaction.id, { style: e.target.value as RedactionStyle })}
+                disabled={disabled}
+                className="flex-1 p-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+              >
+                <option value="blur">Blur</option>
+                <option value="pixelate">Pixelate</option>
+              </select>
+              <button
+                onClick={() => editor.update(redaction.id, { start: Math.min(currentTime, redaction.end - 0.1) })}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+              >
+                Start here
+              </button>
+              <button
+                onClick={() => editor.update(redaction.id, { end: Math.max(currentTime, redaction.start + 0.1) })}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+              >
+                End here
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={handleAdd}
+          disabled={disabled || videoWidth === 0}
+          className="w-full px-3 py-2 text-sm bg-amber-100 hover:bg-amber-200 disabled:bg-gray-100 disabled:text-gray-400 text-amber-800 rounded-lg transition duration-200"
+        >
+          + Add redaction at playhead
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useRef } from 'react';
+import type { Redaction } from '@/lib/filterGraph';
+import { useContainedBox } from './RegionOverlay';
+
+interface RedactionPreviewProps {
+  videoWidth: number; // Intrinsic size of the source video
+  videoHeight: number;
+  redactions: Redaction[];
+  currentTime: number;
+}
+
+/**
+ * Approximates the exported redactions during playback with CSS blurs.
+ * Passes pointer events through so the video controls keep working.
+ */
+export default function RedactionPreview({
+  videoWidth,
+  videoHeight,
+  redactions,
+  currentTime
+}: RedactionPreviewProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const box = useContainedBox(overlayRef, videoWidth, videoHeight);
+  const scale = videoWidth ? box.width / videoWidth : 0;
+
+  const active = redactions.filter(redaction =>
+    currentTime >= redaction.start && currentTime <= redaction.end
+  );
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+      {active.map((redaction) => (
+        <div
+          key={redaction.id}
+          className="absolute"
+          style={{
+            left: box.left + redaction.x * scale,
+            top: box.top + redaction.y * scale,
+            width: redaction.width * scale,
+            height: redaction.height * scale,
+            // Pixelation has no CSS equivalent; a stronger blur stands in for it
+            backdropFilter: `blur(${redaction.style === 'pixelate' ? 12 : 8}px)`,
+            WebkitBackdropFilter: `blur(${redaction.style === 'pixelate' ? 12 : 8}px)`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
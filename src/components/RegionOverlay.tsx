@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import type { CropRect } from '@/lib/filterGraph';
+
+interface RegionOverlayProps {
+  videoWidth: number; // Intrinsic size of the source video
+  videoHeight: number;
+  region: CropRect;
+  onRegionChange: (region: CropRect) => void;
+  variant?: 'crop' | 'redaction' | 'zoom';
+  disabled?: boolean;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+// Smallest region the handles can be dragged down to, in source pixels
+const MIN_REGION_SIZE = 32;
+
+const VARIANT_CLASSES = {
+  crop: 'border-white',
+  redaction: 'border-amber-400 border-dashed bg-amber-400 bg-opacity-20',
+  zoom: 'border-violet-400 border-dashed',
+};
+
+const CORNERS: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-top-2 -left-2 cursor-nwse-resize' },
+  { mode: 'ne', className: '-top-2 -right-2 cursor-nesw-resize' },
+  { mode: 'sw', className: '-bottom-2 -left-2 cursor-nesw-resize' },
+  { mode: 'se', className: '-bottom-2 -right-2 cursor-nwse-resize' },
+];
+
+/**
+ * Where a <video> draws its picture inside an element covering it.
+ * Matches object-fit: contain, so letterboxing is accounted for.
+ */
+export function useContainedBox(
+  elementRef: React.RefObject<HTMLDivElement | null>,
+  videoWidth: number,
+  videoHeight: number
+) {
+  const [box, setBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
+
+  const updateBox = useCallback(() => {
+    const element = elementRef.current;
+    if (!element || !videoWidth || !videoHeight) return;
+
+    const { width, height } = element.getBoundingClientRect();
+    const scale = Math.min(width / videoWidth, height / videoHeight);
+    setBox({
+      left: (width - videoWidth * scale) / 2,
+      top: (height - videoHeight * scale) / 2,
+      width: videoWidth * scale,
+      height: videoHeight * scale,
+    });
+  }, [elementRef, videoWidth, videoHeight]);
+
+  useEffect(() => {
+    updateBox();
+    window.addEventListener('resize', updateBox);
+    return () => window.removeEventListener('resize', updateBox);
+  }, [updateBox]);
+
+  return box;
+}
+
+/**
+ * Draggable rectangle drawn over a <video>, used for the crop and for
+ * redactions. The rectangle is stored in source pixels.
+ */
+export default function RegionOverlay({
+  videoWidth,
+  videoHeight,
+  region,
+  onRegionChange,
+  variant = 'crop',
+  disabled = false
+}: RegionOverlayProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const box = useContainedBox(overlayRef, videoWidth, videoHeight);
+  const [dragging, setDragging] = useState<{ mode: DragMode; startX: number; startY: number; startRegion: CropRect } | null>(null);
+
+  const handleMouseDown = (e: React.MouseEvent, mode: DragMode) => {
+    if (disabled) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    setDragging({ mode, startX: e.clientX, startY: e.clientY, startRegion: region });
+  };
+
+  const handleDocumentMouseMove = useCallback((e: MouseEvent) => {
+    if (!dragging || box.width === 0) return;
+
+    const pixelsPerPoint = videoWidth / box.width;
+    const dx = (e.clientX - dragging.startX) * pixelsPerPoint;
+    const dy = (e.clientY - dragging.startY) * pixelsPerPoint;
+    const { x, y, width, height } = dragging.startRegion;
+
+    let left = x;
+    let top = y;
+    let right = x + width;
+    let bottom = y + height;
+
+    if (dragging.mode === 'move') {
+      left = Math.max(0, Math.min(x + dx, videoWidth - width));
+      top = Math.max(0, Math.min(y + dy, videoHeight - height));
+      right = left + width;
+      bottom = top + height;
+    } else {
+      if (dragging.mode === 'nw' || dragging.mode === 'sw') {
+        left = Math.max(0, Math.min(x + dx, right - MIN_REGION_SIZE));
+      } else {
+        right = Math.min(videoWidth, Math.max(right + dx, left + MIN_REGION_SIZE));
+      }
+      if (dragging.mode === 'nw' || dragging.mode === 'ne') {
+        top = Math.max(0, Math.min(y + dy, bottom - MIN_REGION_SIZE));
+      } else {
+        bottom = Math.min(videoHeight, Math.max(bottom + dy, top + MIN_REGION_SIZE));
+      }
+    }
+
+    onRegionChange({
+      x: Math.round(left),
+      y: Math.round(top),
+      width: Math.round(right - left),
+      height: Math.round(bottom - top),
+    });
+  }, [dragging, box.width, videoWidth, videoHeight, onRegionChange]);
+
+  const handleDocumentMouseUp = useCallback(() => {
+    setDragging(null);
+  }, []);
+
+  useEffect(() => {
+    if (dragging) {
+      document.addEventListener('mousemove', handleDocumentMouseMove);
+      document.addEventListener('mouseup', handleDocumentMouseUp);
+
+      return () => {
+        document.removeEventListener('mousemove', handleDocumentMouseMove);
+        document.removeEventListener('mouseup', handleDocumentMouseUp);
+      };
+    }
+  }, [dragging, handleDocumentMouseMove, handleDocumentMouseUp]);
+
+  const scale = videoWidth ? box.width / videoWidth : 0;
+  const rect = {
+    left: box.left + region.x * scale,
+    top: box.top + region.y * scale,
+    width: region.width * scale,
+    height: region.height * scale,
+  };
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 overflow-hidden select-none">
+      {/* Crop and zoom dim everything outside the rectangle with a huge shadow */}
+      <div
+        className={`absolute border-2 ${VARIANT_CLASSES[variant]} ${disabled ? 'cursor-not-allowed' : 'cursor-move'}`}
+        style={{
+          left: rect.left,
+          top: rect.top,
+          width: rect.width,
+          height: rect.height,
+          boxShadow: variant === 'redaction' ? undefined : `0 0 0 9999px rgba(0, 0, 0, ${variant === 'crop' ? 0.55 : 0.35})`,
+        }}
+        onMouseDown={(e) => handleMouseDown(e, 'move')}
+      >
+        {/* Rule-of-thirds guides */}
+        {variant === 'crop' && (
+          <div className="absolute inset-0 pointer-events-none">
+            <div className="absolute top-1/3 left-0 right-0 border-t border-white border-opacity-40" />
+            <div className="absolute top-2/3 left-0 right-0 border-t border-white border-opacity-40" />
+            <div className="absolute left-1/3 top-0 bottom-0 border-l border-white border-opacity-40" />
+            <div className="absolute left-2/3 top-0 bottom-0 border-l border-white border-opacity-40" />
+          </div>
+        )}
+
+        {CORNERS.map(({ mode, className }) => (
+          <div
+            key={mode}
+            className={`absolute w-4 h-4 bg-white rounded-sm shadow ${className}`}
+            onMouseDown={(e) => handleMouseDown(e, mode)}
+          />
+        ))}
+
+        <div className="absolute bottom-1 right-1 px-2 py-0.5 bg-black bg-opacity-60 text-white text-xs font-mono rounded pointer-events-none">
+          {region.width}×{region.height}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { Dispatch, SetStateAction, useState } from 'react';
+import type { VideoEditOptions } from '@/types/video';
+import { MAX_AUDIBLE_SPEED, SPEED_PRESETS, SpeedRange } from '@/lib/filterGraph';
+import { formatTime, overlayRanges } from '@/lib/timeRanges';
+
+/**
+ * The speed ranges in the edit options and which one is selected. Ranges
+ * are kept sorted and apart, so they are picked by index.
+ */
+export function useSpeedRanges(
+  speedRanges: SpeedRange[],
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>
+) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const set = (ranges: SpeedRange[]) => {
+    setEditOptions(prev => ({ ...prev, speedRanges: ranges }));
+  };
+
+  const update = (index: number, changes: Partial<SpeedRange>) => {
+    setEditOptions(prev => ({
+      ...prev,
+      speedRanges: (prev.speedRanges || []).map((speedRange, i) => i === index ? { ...speedRange, ...changes } : speedRange)
+    }));
+  };
+
+  const remove = (index: number) => {
+    setEditOptions(prev => ({ ...prev, speedRanges: (prev.speedRanges || []).filter((_, i) => i !== index) }));
+    setSelectedIndex(null);
+  };
+
+  const clear = () => {
+    set([]);
+    setSelectedIndex(null);
+  };
+
+  return {
+    items: speedRanges,
+    selectedIndex,
+    select: setSelectedIndex,
+    set,
+    update,
+    remove,
+    clear
+  };
+}
+
+export type SpeedRangeEditor = ReturnType<typeof useSpeedRanges>;
+
+interface SpeedRangesPanelProps {
+  editor: SpeedRangeEditor;
+  speed: number; // Speed of the whole clip
+  onSpeedChange: (speed: number) => void;
+  currentTime: number;
+  duration: number;
+  disabled?: boolean;
+}
+
+export default function SpeedRangesPanel({
+  editor,
+  speed,
+  onSpeedChange,
+  currentTime,
+  duration,
+  disabled = false
+}: SpeedRangesPanelProps) {
+  // A 2x range over the next few seconds, replacing any speed already set there
+  const handleAdd = () => {
+    const added: SpeedRange = { start: currentTime, end: Math.min(currentTime + 5, duration), speed: 2 };
+    if (added.end - added.start < 0.1) return;
+
+    const sorted = overlayRanges(editor.items, [added], duration);
+    editor.set(sorted);
+    editor.select(sorted.indexOf(added));
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🏃</span>
+        Speed
+      </h3>
+      <div className="space-y-3 text-sm text-gray-700">
+        <p className="text-gray-600">
+          Speed up an install step or slow down a quick click. Ranges play on top of the whole clip&apos;s speed; audio is muted above {MAX_AUDIBLE_SPEED}x.
+        </p>
+        <label className="flex items-center justify-between gap-2">
+          <span>Whole clip</span>
+          <select
+            value={speed}
+            onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+            disabled={disabled}
+            className="p-1 border border-gray-300 rounded bg-white text-gray-900"
+          >
+            {SPEED_PRESETS.map(preset => (
+              <option key={preset} value={preset}>{preset}x</option>
+            ))}
+          </select>
+        </label>
+        {editor.items.map((range, index) => (
+          <div
+            key={index}
+            className={`p-3 rounded-lg border-2 space-y-2 ${
+              index === editor.selectedIndex ? 'border-emerald-400 bg-emerald-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => editor.select(index === editor.selectedIndex ? null : index)}
+                className="text-sm font-medium text-gray-900 hover:text-emerald-700"
+              >
+                #{index + 1} · <span className="font-mono">{formatTime(range.start)}–{formatTime(range.end)}</span>
+              </button>
+              <button
+                onClick={() => editor.remove(index)}
+                disabled={disabled}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={range.speed}
+                onChange={(e) => editor.update(index, { speed: parseFloat(e.target.value) })}
+                disabled={disabled}
+                className="flex-1 p-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+              >
+                {SPEED_PRESETS.filter(preset => preset !== 1).map(preset => (
+                  <option key={preset} value={preset}>{preset}x</option>
+                ))}
+              </select>
+              <button
+                onClick={() => editor.update(index, { start: Math.min(currentTime, range.end - 0.1) })}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+              >
+                Start here
+              </button>
+              <button
+                onClick={() => editor.update(index, { end: Math.max(currentTime, range.start + 0.1) })}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+              >
+                End here
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={handleAdd}
+          disabled={disabled || duration === 0}
+          className="w-full px-3 py-2 text-sm bg-emerald-100 hover:bg-emerald-200 disabled:bg-gray-100 disabled:text-gray-400 text-emerald-800 rounded-lg transition duration-200"
+        >
+          + Add speed range at playhead
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { Dispatch, SetStateAction, useState } from 'react';
+import type { VideoEditOptions } from '@/types/video';
+import type { TextOverlay, TextPosition } from '@/lib/filterGraph';
+import { OVERLAY_FONTS, OverlayFontId } from '@/lib/fonts';
+import { formatTime } from '@/lib/timeRanges';
+
+const TEXT_POSITIONS: { value: TextPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top', label: 'Top' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'center', label: 'Center' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'bottom-right', label: 'Bottom right' }
+];
+
+/**
+ * The captions and title cards in the edit options and which one is open
+ */
+export function useTextOverlays(
+  textOverlays: TextOverlay[],
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>
+) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const add = (overlay: TextOverlay) => {
+    setEditOptions(prev => ({ ...prev, textOverlays: [...(prev.textOverlays || []), overlay] }));
+  };
+
+  const update = (id: string, changes: Partial<TextOverlay>) => {
+    setEditOptions(prev => ({
+      ...prev,
+      textOverlays: (prev.textOverlays || []).map(overlay =>
+        overlay.id === id ? { ...overlay, ...changes } : overlay
+      )
+    }));
+  };
+
+  const remove = (id: string) => {
+    setEditOptions(prev => ({
+      ...prev,
+      textOverlays: (prev.textOverlays || []).filter(overlay => overlay.id !== id)
+    }));
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+  };
+
+  return {
+    items: textOverlays,
+    selectedId,
+    select: setSelectedId,
+    add,
+    update,
+    remove
+  };
+}
+
+export type TextOverlayEditor = ReturnType<typeof useTextOverlays>;
+
+interface TextOverlayPanelProps {
+  editor: TextOverlayEditor;
+  frameHeight: number; // Height of the cropped frame, which new text is sized against
+  currentTime: number;
+  duration: number;
+  disabled?: boolean;
+}
+
+export default function TextOverlayPanel({
+  editor,
+  frameHeight,
+  currentTime,
+  duration,
+  disabled = false
+}: TextOverlayPanelProps) {
+  const handleAdd = (titleCard: boolean) => {
+    const sourceHeight = frameHeight || 720;
+
+    // Captions sit at the bottom over a translucent box; title cards fill the frame
+    const overlay: TextOverlay = {
+      id: `text-${Date.now()}`,
+      text: titleCard ? 'Title' : 'Caption',
+      font: 'sans',
+      size: Math.round(sourceHeight * (titleCard ? 0.1 : 0.05)),
+      color: '#ffffff',
+      position: titleCard ? 'center' : 'bottom',
+      box: true,
+      boxColor: titleCard ? '#111827' : '#000000',
+      boxOpacity: titleCard ? 1 : 0.6,
+      fillFrame: titleCard,
+      start: currentTime,
+      end: Math.min(currentTime + (titleCard ? 3 : 4), duration)
+    };
+
+    editor.add(overlay);
+    editor.select(overlay.id);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🔤</span>
+        Text
+      </h3>
+      <div className="space-y-3">
+        {editor.items.map((overlay) => (
+          <div
+            key={overlay.id}
+            className={`p-3 rounded-lg border-2 space-y-2 ${
+              overlay.id === editor.selectedId ? 'border-sky-400 bg-sky-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => editor.select(overlay.id === editor.selectedId ? null : overlay.id)}
+                className="flex-1 text-left text-sm font-medium text-gray-900 hover:text-sky-700 truncate"
+              >
+                {overlay.text || 'Empty text'} · <span className="font-mono">{formatTime(overlay.start)}–{formatTime(overlay.end)}</span>
+              </button>
+              <button
+                onClick={() => editor.remove(overlay.id)}
+                disabled={disabled}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+
+            {overlay.id === editor.selectedId && (
+              <div className="space-y-2">
+                <textarea
+                  value={overlay.text}
+                  onChange={(e) => editor.update(overlay.id, { text: e.target.value })}
+                  disabled={disabled}
+                  rows={2}
+                  className="w-full p-2 text-sm border border-gray-300 rounded bg-white text-gray-900"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={overlay.font}
+                    onChange={(e) => editor.update(overlay.id, { font: e.target.value as OverlayFontId })}
+                    disabled={disabled}
+                    className="p-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    {OVERLAY_FONTS.map(font => (
+                      <option key={font.id} value={font.id}>{font.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={overlay.position}
+                    onChange={(e) => editor.update(overlay.id, { position: e.target.value as TextPosition })}
+                    disabled={disabled}
+                    className="p-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+                  >
+                    {TEXT_POSITIONS.map(position => (
+                      <option key={position.value} value={position.value}>{position.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-3 text-sm text-gray-700">
+                  <label className="flex items-center gap-1">
+                    Size
+                    <input
+                      type="number"
+                      min="8"
+                      max="400"
+                      value={overlay.size}
+                      onChange={(e) => editor.update(overlay.id, { size: parseInt(e.target.value) || overlay.size })}
+                      disabled={disabled}
+                      className="w-16 p-1 border border-gray-300 rounded bg-white text-gray-900"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Color
+                    <input
+                      type="color"
+                      value={overlay.color}
+                      onChange={(e) => editor.update(overlay.id, { color: e.target.value })}
+                      disabled={disabled}
+                    />
+                  </label>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={overlay.box}
+                      onChange={(e) => editor.update(overlay.id, { box: e.target.checked })}
+                      disabled={disabled || overlay.fillFrame}
+                    />
+                    Background
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!overlay.fillFrame}
+                      onChange={(e) => editor.update(overlay.id, { fillFrame: e.target.checked })}
+                      disabled={disabled}
+                    />
+                    Title card
+                  </label>
+                  <input
+                    type="color"
+                    value={overlay.boxColor}
+                    onChange={(e) => editor.update(overlay.id, { boxColor: e.target.value })}
+                    disabled={disabled}
+                    title="Background color"
+                  />
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={overlay.boxOpacity}
+                    onChange={(e) => editor.update(overlay.id, { boxOpacity: parseFloat(e.target.value) })}
+                    disabled={disabled}
+                    className="w-20"
+                    title="Background opacity"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => editor.update(overlay.id, { start: Math.min(currentTime, overlay.end - 0.1) })}
+                    disabled={disabled}
+                    className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+                  >
+                    Start here
+                  </button>
+                  <button
+                    onClick={() => editor.update(overlay.id, { end: Math.max(currentTime, overlay.start + 0.1) })}
+                    disabled={disabled}
+                    className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+                  >
+                    End here
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => handleAdd(false)}
+            disabled={disabled || duration === 0}
+            className="px-3 py-2 text-sm bg-sky-100 hover:bg-sky-200 disabled:bg-gray-100 disabled:text-gray-400 text-sky-800 rounded-lg transition duration-200"
+          >
+            + Caption
+          </button>
+          <button
+            onClick={() => handleAdd(true)}
+            disabled={disabled || duration === 0}
+            className="px-3 py-2 text-sm bg-sky-100 hover:bg-sky-200 disabled:bg-gray-100 disabled:text-gray-400 text-sky-800 rounded-lg transition duration-200"
+          >
+            + Title card
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
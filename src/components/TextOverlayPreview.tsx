@@ -0,0 +1,85 @@
+'use client';
+
+import { useRef } from 'react';
+import { CropRect, getTextAnchors, TEXT_MARGIN, TextOverlay } from '@/lib/filterGraph';
+import { getOverlayFont } from '@/lib/fonts';
+import { useContainedBox } from './RegionOverlay';
+
+interface TextOverlayPreviewProps {
+  videoWidth: number; // Intrinsic size of the source video
+  videoHeight: number;
+  overlays: TextOverlay[];
+  crop?: CropRect; // Text is placed within the cropped frame, as in the export
+  currentTime: number;
+}
+
+/**
+ * Draws the active text overlays over the <video> with the same fonts and
+ * placement drawtext uses. Passes pointer events through to the video.
+ */
+export default function TextOverlayPreview({
+  videoWidth,
+  videoHeight,
+  overlays,
+  crop,
+  currentTime
+}: TextOverlayPreviewProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const box = useContainedBox(overlayRef, videoWidth, videoHeight);
+  const scale = videoWidth ? box.width / videoWidth : 0;
+  const frame = crop || { x: 0, y: 0, width: videoWidth, height: videoHeight };
+
+  const active = overlays.filter(overlay =>
+    overlay.text.trim() && currentTime >= overlay.start && currentTime <= overlay.end
+  );
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+      {active.map((overlay) => {
+        const font = getOverlayFont(overlay.font);
+        const [horizontal, vertical] = getTextAnchors(overlay.position);
+        const background = hexToRgba(overlay.boxColor, overlay.boxOpacity);
+
+        return (
+          <div
+            key={overlay.id}
+            className="absolute flex"
+            style={{
+              left: box.left + frame.x * scale,
+              top: box.top + frame.y * scale,
+              width: frame.width * scale,
+              height: frame.height * scale,
+              padding: `${frame.height * TEXT_MARGIN * scale}px ${frame.width * TEXT_MARGIN * scale}px`,
+              justifyContent: { left: 'flex-start', center: 'center', right: 'flex-end' }[horizontal],
+              alignItems: { top: 'flex-start', center: 'center', bottom: 'flex-end' }[vertical],
+              background: overlay.fillFrame ? background : undefined,
+            }}
+          >
+            <span
+              className="whitespace-pre leading-none"
+              style={{
+                fontFamily: `"${font.cssFamily}"`,
+                fontWeight: font.cssWeight,
+                fontSize: overlay.size * scale,
+                color: overlay.color,
+                background: overlay.box && !overlay.fillFrame ? background : undefined,
+                padding: overlay.box && !overlay.fillFrame ? overlay.size * 0.3 * scale : undefined,
+              }}
+            >
+              {overlay.text}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function hexToRgba(color: string, opacity: number): string {
+  const match = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) {
+    return `rgba(0, 0, 0, ${opacity})`;
+  }
+  const [red, green, blue] = match.slice(1).map(part => parseInt(part, 16));
+  return `rgba(${red}, ${green}, ${blue}, ${opacity})`;
+}
@@ -1,30 +1,76 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { findRangeIndex, TimeRange, totalDuration } from '@/lib/timeRanges';
+import { findSpriteThumbnail, SpriteThumbnail } from '@/lib/sprites';
+import { snapToKeyframe } from '@/lib/fastTrim';
+
+export interface TimelineTrackItem extends TimeRange {
+  id: string;
+  label?: string;
+}
+
+// An extra lane under the main track for time-ranged edits (redactions, overlays, ...)
+export interface TimelineTrack {
+  id: string;
+  label: string;
+  color: string; // Tailwind background class for the item bars
+  items: TimelineTrackItem[];
+  points?: boolean; // Items are instants (start === end), drawn as draggable markers
+  selectedId?: string | null;
+  onItemChange: (id: string, range: TimeRange) => void;
+  onItemSelect?: (id: string) => void;
+}
+
+// A detected stretch (silence, idle screen, ...) shaded over the main track
+export interface TimelineRegion extends TimeRange {
+  id: string;
+  color: string; // Tailwind background class for the shading
+  selected?: boolean;
+  label?: string;
+}
 
 interface TimelineProps {
   duration: number;
-  startTime: number;
-  endTime: number;
+  segments: TimeRange[]; // Kept ranges in seconds, sorted and non-overlapping
   currentTime: number;
-  onStartTimeChange: (time: number) => void;
-  onEndTimeChange: (time: number) => void;
+  onSegmentsChange: (segments: TimeRange[]) => void;
   onSeek: (time: number) => void;
+  tracks?: TimelineTrack[];
+  regions?: TimelineRegion[];
+  onRegionClick?: (id: string) => void;
+  thumbnails?: SpriteThumbnail[]; // Frames shown when hovering the main track
+  keyframes?: number[]; // Sorted keyframe times, drawn as ticks on the main track
+  snapToKeyframes?: boolean; // Trim handles jump to the nearest keyframe
   disabled?: boolean;
 }
 
+type DragTarget =
+  | { handle: 'start' | 'end'; index: number }
+  | { track: TimelineTrack; item: TimelineTrackItem; handle: 'start' | 'end' | 'move'; grabTime: number }
+  | 'current';
+
+// Smallest segment the handles can be dragged down to, in seconds
+const MIN_SEGMENT_LENGTH = 0.1;
+
 export default function Timeline({
   duration,
-  startTime,
-  endTime,
+  segments,
   currentTime,
-  onStartTimeChange,
-  onEndTimeChange,
+  onSegmentsChange,
   onSeek,
+  tracks = [],
+  regions = [],
+  onRegionClick,
+  thumbnails = [],
+  keyframes = [],
+  snapToKeyframes = false,
   disabled = false
 }: TimelineProps) {
   const timelineRef = useRef<HTMLDivElement>(null);
-  const [isDragging, setIsDragging] = useState<'start' | 'end' | 'current' | null>(null);
+  const [isDragging, setIsDragging] = useState<DragTarget | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -41,14 +87,35 @@ export default function Timeline({
     return (position / 100) * duration;
   }, [duration]);
 
-  const handleMouseDown = (e: React.MouseEvent, handle: 'start' | 'end' | 'current') => {
+  const handleMouseDown = (e: React.MouseEvent, target: DragTarget) => {
     if (disabled) return;
     
     e.preventDefault();
     e.stopPropagation();
-    setIsDragging(handle);
+    setIsDragging(target);
+    if (target !== 'current' && 'index' in target) {
+      setSelectedIndex(target.index);
+    }
+  };
+
+  const handleTrackItemMouseDown = (
+    e: React.MouseEvent,
+    track: TimelineTrack,
+    item: TimelineTrackItem,
+    handle: 'start' | 'end' | 'move'
+  ) => {
+    if (disabled || !timelineRef.current) return;
+
+    const rect = timelineRef.current.getBoundingClientRect();
+    const grabTime = ((e.clientX - rect.left) / rect.width) * duration;
+    track.onItemSelect?.(item.id);
+    handleMouseDown(e, { track, item, handle, grabTime });
   };
 
+  const updateSegment = useCallback((index: number, changes: Partial<TimeRange>) => {
+    onSegmentsChange(segments.map((segment, i) => i === index ? { ...segment, ...changes } : segment));
+  }, [segments, onSegmentsChange]);
+
   const handleDocumentMouseMove = useCallback((e: MouseEvent) => {
     if (!isDragging || !timelineRef.current) return;
 
@@ -57,31 +124,60 @@ export default function Timeline({
     const position = (mouseX / rect.width) * 100;
     const time = (position / 100) * duration; // Direct calculation instead of function call
 
-    if (isDragging === 'start') {
-      // Throttle updates for trim handles to prevent performance issues
-      requestAnimationFrame(() => {
-        if (isDragging === 'start' && timelineRef.current) {
-          const newTime = Math.max(0, Math.min(time, endTime - 0.1));
-          onStartTimeChange(newTime);
-        }
-      });
-    } else if (isDragging === 'end') {
-      // Throttle updates for trim handles to prevent performance issues
-      requestAnimationFrame(() => {
-        if (isDragging === 'end' && timelineRef.current) {
-          const newTime = Math.max(startTime + 0.1, Math.min(time, duration));
-          onEndTimeChange(newTime);
-        }
-      });
-      } else if (isDragging === 'current') {
-        // No throttling for current time to make it smooth
-        const newTime = Math.max(startTime, Math.min(time, endTime));
-        onSeek(newTime);
+    if (isDragging === 'current') {
+      // No throttling for current time to make it smooth
+      onSeek(Math.max(0, Math.min(time, duration)));
+      return;
+    }
+
+    if ('track' in isDragging) {
+      const { track, item, handle, grabTime } = isDragging;
+      let { start, end } = item;
+
+      if (handle === 'move') {
+        // Keep the item's length and slide it within the video
+        const length = item.end - item.start;
+        start = Math.max(0, Math.min(item.start + time - grabTime, duration - length));
+        end = start + length;
+      } else if (handle === 'start') {
+        start = Math.max(0, Math.min(time, item.end - MIN_SEGMENT_LENGTH));
+      } else {
+        end = Math.max(item.start + MIN_SEGMENT_LENGTH, Math.min(time, duration));
+      }
+
+      requestAnimationFrame(() => track.onItemChange(item.id, { start, end }));
+      return;
+    }
+
+    const { handle, index } = isDragging;
+    const segment = segments[index];
+    if (!segment) return;
+    const handleTime = snapToKeyframes && keyframes.length > 0 ? snapToKeyframe(keyframes, time) : time;
+
+    // Throttle updates for trim handles to prevent performance issues
+    requestAnimationFrame(() => {
+      if (!timelineRef.current) return;
+
+      if (handle === 'start') {
+        // A segment can grow back into the gap before it, but not past its neighbour
+        const previousEnd = index > 0 ? segments[index - 1].end : 0;
+        const newTime = Math.max(previousEnd, Math.min(handleTime, segment.end - MIN_SEGMENT_LENGTH));
+        updateSegment(index, { start: newTime });
+      } else {
+        const nextStart = index < segments.length - 1 ? segments[index + 1].start : duration;
+        const newTime = Math.max(segment.start + MIN_SEGMENT_LENGTH, Math.min(handleTime, nextStart));
+        updateSegment(index, { end: newTime });
       }
-  }, [isDragging, endTime, startTime, duration, onStartTimeChange, onEndTimeChange, onSeek]);
+    });
+  }, [isDragging, segments, duration, updateSegment, onSeek, snapToKeyframes, keyframes]);
 
   const handleMouseMove = (e: React.MouseEvent) => {
     handleDocumentMouseMove(e.nativeEvent);
+
+    if (thumbnails.length > 0 && timelineRef.current) {
+      const rect = timelineRef.current.getBoundingClientRect();
+      setHoverTime(Math.max(0, Math.min(((e.clientX - rect.left) / rect.width) * duration, duration)));
+    }
   };
 
   const handleMouseUp = () => {
@@ -100,10 +196,39 @@ export default function Timeline({
       const clickX = e.clientX - rect.left;
       const position = (clickX / rect.width) * 100;
       const time = getTimeFromPosition(position);
+      const index = findRangeIndex(segments, time);
+      setSelectedIndex(index === -1 ? null : index);
       onSeek(time);
     }
   };
 
+  // Split the segment under the playhead in two
+  const handleSplit = () => {
+    const index = findRangeIndex(segments, currentTime);
+    if (index === -1) return;
+
+    const segment = segments[index];
+    if (currentTime - segment.start < MIN_SEGMENT_LENGTH || segment.end - currentTime < MIN_SEGMENT_LENGTH) {
+      return;
+    }
+
+    onSegmentsChange([
+      ...segments.slice(0, index),
+      { start: segment.start, end: currentTime },
+      { start: currentTime, end: segment.end },
+      ...segments.slice(index + 1)
+    ]);
+    setSelectedIndex(index + 1);
+  };
+
+  // Drop the selected segment from the export
+  const handleDeleteSelected = () => {
+    if (selectedIndex === null || segments.length <= 1) return;
+
+    onSegmentsChange(segments.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(null);
+  };
+
   useEffect(() => {
             const handleGlobalMouseUp = () => {
               if (isDragging) {
@@ -122,15 +247,22 @@ export default function Timeline({
     };
   }, [isDragging, handleDocumentMouseMove]);
 
-  const startPosition = getPositionFromTime(startTime);
-  const endPosition = getPositionFromTime(endTime);
   const currentPosition = getPositionFromTime(currentTime);
+  const firstStart = segments.length > 0 ? segments[0].start : 0;
+  const lastEnd = segments.length > 0 ? segments[segments.length - 1].end : duration;
+  const canSplit = !disabled && findRangeIndex(segments, currentTime) !== -1;
+  const hoverThumbnail = hoverTime !== null ? findSpriteThumbnail(thumbnails, hoverTime) : null;
   
   // Calculate handle width as percentage of timeline
   // For a 4px handle on a 400px timeline: (4/400) * 100 = 1%
   // But we'll use a more conservative estimate to ensure proper alignment
   const handleWidthPercent = 1.5; // Slightly larger to account for different screen sizes
 
+  const handleStyle = {
+    background: 'linear-gradient(135deg, #3730a3 0%, #5b21b6 100%)'
+  };
+  const handleHoverStyle = 'linear-gradient(135deg, #1e1b4b 0%, #4c1d95 100%)';
+
   return (
     <div className="w-full space-y-3">
       {/* Time Labels */}
@@ -138,19 +270,22 @@ export default function Timeline({
         <div className="flex items-center gap-2">
           <span className="font-medium text-gray-700">Start:</span>
           <span className="px-2 py-1 bg-indigo-100 text-indigo-700 rounded text-xs font-mono">
-            {formatTime(startTime)}
+            {formatTime(firstStart)}
           </span>
         </div>
         <div className="flex items-center gap-2">
           <span className="font-medium text-gray-700">Duration:</span>
           <span className="px-2 py-1 bg-green-100 text-green-700 rounded text-xs font-mono">
-            {formatTime(endTime - startTime)}
+            {formatTime(totalDuration(segments))}
           </span>
+          {segments.length > 1 && (
+            <span className="text-xs text-gray-500">({segments.length} segments)</span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <span className="font-medium text-gray-700">End:</span>
           <span className="px-2 py-1 bg-indigo-100 text-indigo-700 rounded text-xs font-mono">
-            {formatTime(endTime)}
+            {formatTime(lastEnd)}
           </span>
         </div>
       </div>
@@ -167,86 +302,143 @@ export default function Timeline({
 
       {/* Timeline Track */}
       <div className="relative">
+        {/* Hover preview from the thumbnail sprite sheet */}
+        {hoverTime !== null && hoverThumbnail && (
+          <div
+            className="absolute bottom-full mb-2 -translate-x-1/2 z-30 pointer-events-none rounded-lg overflow-hidden shadow-lg border-2 border-white bg-black"
+            style={{
+              left: `clamp(${hoverThumbnail.width / 2}px, ${getPositionFromTime(hoverTime)}%, calc(100% - ${hoverThumbnail.width / 2}px))`
+            }}
+          >
+            <div
+              style={{
+                width: hoverThumbnail.width,
+                height: hoverThumbnail.height,
+                backgroundImage: `url("${hoverThumbnail.url}")`,
+                backgroundPosition: `-${hoverThumbnail.x}px -${hoverThumbnail.y}px`
+              }}
+            />
+            <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs font-mono text-center py-0.5">
+              {formatTime(hoverTime)}
+            </div>
+          </div>
+        )}
         <div
           ref={timelineRef}
           className="relative h-16 bg-gray-100 rounded-xl cursor-pointer select-none border-2 border-gray-200 hover:border-gray-300 transition-colors"
           onMouseDown={handleTimelineClick}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
+          onMouseLeave={() => setHoverTime(null)}
         >
           {/* Background Track with subtle pattern */}
           <div className="absolute inset-0 bg-gradient-to-r from-gray-100 to-gray-200 rounded-xl" />
           
-          {/* Trimmed Range with gradient */}
-          <div
-            className="absolute top-0 h-full bg-gradient-to-r from-indigo-500 to-indigo-600 rounded-xl shadow-lg"
-            style={{
-              left: `${startPosition}%`,
-              width: `${endPosition - startPosition}%`,
-            }}
-          />
+          {/* Kept segments with gradient; gaps between them are cut */}
+          {segments.map((segment, index) => {
+            const segmentStart = getPositionFromTime(segment.start);
+            const segmentEnd = getPositionFromTime(segment.end);
+
+            return (
+              <div key={index}>
+                <div
+                  className={`absolute top-0 h-full bg-gradient-to-r from-indigo-500 to-indigo-600 rounded-xl shadow-lg ${
+                    selectedIndex === index ? 'ring-4 ring-amber-400' : ''
+                  }`}
+                  style={{
+                    left: `${segmentStart}%`,
+                    width: `${segmentEnd - segmentStart}%`,
+                  }}
+                />
+
+                {/* Start Handle */}
+                <div
+                  data-handle="start"
+                  className={`absolute top-0 w-4 h-full rounded-l-lg cursor-ew-resize flex items-center justify-center shadow-lg z-10 transition-colors duration-200 ${
+                    disabled 
+                      ? 'opacity-50 cursor-not-allowed' 
+                      : ''
+                  }`}
+                  style={{ left: `${segmentStart}%`, ...handleStyle }}
+                  onMouseDown={(e) => handleMouseDown(e, { handle: 'start', index })}
+                  onMouseEnter={(e) => {
+                    if (!disabled) {
+                      e.currentTarget.style.background = handleHoverStyle;
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!disabled) {
+                      e.currentTarget.style.background = handleStyle.background;
+                    }
+                  }}
+                >
+                  <div className="w-1 h-6 bg-white rounded-full shadow-sm" />
+                </div>
+
+                {/* End Handle */}
+                <div
+                  data-handle="end"
+                  className={`absolute top-0 w-4 h-full rounded-r-lg cursor-ew-resize flex items-center justify-center shadow-lg z-10 transition-colors duration-200 ${
+                    disabled 
+                      ? 'opacity-50 cursor-not-allowed' 
+                      : ''
+                  }`}
+                  style={{ left: `${segmentEnd - handleWidthPercent}%`, ...handleStyle }}
+                  onMouseDown={(e) => handleMouseDown(e, { handle: 'end', index })}
+                  onMouseEnter={(e) => {
+                    if (!disabled) {
+                      e.currentTarget.style.background = handleHoverStyle;
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!disabled) {
+                      e.currentTarget.style.background = handleStyle.background;
+                    }
+                  }}
+                >
+                  <div className="w-1 h-6 bg-white rounded-full shadow-sm" />
+                </div>
+              </div>
+            );
+          })}
           
+          {/* Detected regions, shaded over the segments */}
+          {regions.map((region) => (
+            <div
+              key={region.id}
+              className={`absolute top-0 h-full pointer-events-none ${region.color} ${
+                region.selected ? 'opacity-60' : 'opacity-30'
+              }`}
+              style={{
+                left: `${getPositionFromTime(region.start)}%`,
+                width: `${getPositionFromTime(region.end - region.start)}%`,
+              }}
+            />
+          ))}
+
+          {/* Keyframes, as one path since long recordings have thousands */}
+          {keyframes.length > 0 && duration > 0 && (
+            <svg
+              className="absolute inset-x-0 bottom-0 w-full h-3 pointer-events-none text-gray-700/50"
+              viewBox={`0 0 ${duration} 1`}
+              preserveAspectRatio="none"
+            >
+              <path
+                d={keyframes.map(keyframe => `M${keyframe} 0V1`).join('')}
+                stroke="currentColor"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          )}
+
           {/* Current Time Indicator with pulse animation */}
           <div
             data-current-time="true"
-            className="absolute top-0 w-2 h-full bg-red-500 cursor-ew-resize rounded-full shadow-lg hover:bg-red-600 transition-colors duration-200 z-10"
+            className="absolute top-0 w-2 h-full bg-red-500 cursor-ew-resize rounded-full shadow-lg hover:bg-red-600 transition-colors duration-200 z-20"
             style={{ left: `${currentPosition}%` }}
             onMouseDown={(e) => handleMouseDown(e, 'current')}
           />
-          
-          {/* Start Handle */}
-          <div
-            data-handle="start"
-            className={`absolute top-0 w-4 h-full rounded-l-lg cursor-ew-resize flex items-center justify-center shadow-lg z-10 transition-colors duration-200 ${
-              disabled 
-                ? 'opacity-50 cursor-not-allowed' 
-                : ''
-            }`}
-            style={{ 
-              left: `${startPosition}%`,
-              background: 'linear-gradient(135deg, #3730a3 0%, #5b21b6 100%)'
-            }}
-            onMouseDown={(e) => handleMouseDown(e, 'start')}
-            onMouseEnter={(e) => {
-              if (!disabled) {
-                e.currentTarget.style.background = 'linear-gradient(135deg, #1e1b4b 0%, #4c1d95 100%)';
-              }
-            }}
-            onMouseLeave={(e) => {
-              if (!disabled) {
-                e.currentTarget.style.background = 'linear-gradient(135deg, #3730a3 0%, #5b21b6 100%)';
-              }
-            }}
-          >
-            <div className="w-1 h-6 bg-white rounded-full shadow-sm" />
-          </div>
-          
-          {/* End Handle */}
-          <div
-            data-handle="end"
-            className={`absolute top-0 w-4 h-full rounded-r-lg cursor-ew-resize flex items-center justify-center shadow-lg z-10 transition-colors duration-200 ${
-              disabled 
-                ? 'opacity-50 cursor-not-allowed' 
-                : ''
-            }`}
-            style={{ 
-              left: `${endPosition - handleWidthPercent}%`,
-              background: 'linear-gradient(135deg, #3730a3 0%, #5b21b6 100%)'
-            }}
-            onMouseDown={(e) => handleMouseDown(e, 'end')}
-            onMouseEnter={(e) => {
-              if (!disabled) {
-                e.currentTarget.style.background = 'linear-gradient(135deg, #1e1b4b 0%, #4c1d95 100%)';
-              }
-            }}
-            onMouseLeave={(e) => {
-              if (!disabled) {
-                e.currentTarget.style.background = 'linear-gradient(135deg, #3730a3 0%, #5b21b6 100%)';
-              }
-            }}
-          >
-            <div className="w-1 h-6 bg-white rounded-full shadow-sm" />
-          </div>
 
           {/* Timeline markers */}
           <div className="absolute inset-0 flex items-center">
@@ -264,6 +456,93 @@ export default function Timeline({
         </div>
       </div>
 
+      {/* Region selection strip */}
+      {regions.length > 0 && (
+        <div className="relative h-3 -mt-2 select-none">
+          {regions.map((region) => (
+            <button
+              key={region.id}
+              type="button"
+              title={region.label}
+              disabled={disabled || !onRegionClick}
+              onClick={() => onRegionClick?.(region.id)}
+              className={`absolute top-0 h-full rounded-sm ${region.color} ${
+                region.selected ? 'opacity-100 ring-1 ring-gray-700' : 'opacity-40 hover:opacity-70'
+              }`}
+              style={{
+                left: `${getPositionFromTime(region.start)}%`,
+                width: `${Math.max(getPositionFromTime(region.end - region.start), 0.5)}%`,
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Extra Tracks */}
+      {tracks.map((track) => (
+        <div key={track.id} className="space-y-1">
+          <div className="text-xs font-medium text-gray-600">{track.label}</div>
+          <div className="relative h-8 bg-gray-50 rounded-lg border border-gray-200 select-none">
+            {track.items.map((item) => {
+              const itemStart = getPositionFromTime(item.start);
+              const itemEnd = getPositionFromTime(item.end);
+
+              if (track.points) {
+                return (
+                  <div
+                    key={item.id}
+                    data-handle="move"
+                    title={item.label}
+                    className={`absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rotate-45 shadow ${track.color} ${
+                      track.selectedId === item.id ? 'ring-2 ring-amber-400' : ''
+                    } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-grab'}`}
+                    style={{ left: `${itemStart}%` }}
+                    onMouseDown={(e) => handleTrackItemMouseDown(e, track, item, 'move')}
+                  />
+                );
+              }
+
+              return (
+                <div
+                  key={item.id}
+                  data-handle="move"
+                  className={`absolute top-1 bottom-1 rounded-md shadow ${track.color} ${
+                    track.selectedId === item.id ? 'ring-2 ring-amber-400' : ''
+                  } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-grab'}`}
+                  style={{
+                    left: `${itemStart}%`,
+                    width: `${Math.max(itemEnd - itemStart, 0.5)}%`,
+                  }}
+                  onMouseDown={(e) => handleTrackItemMouseDown(e, track, item, 'move')}
+                >
+                  {item.label && (
+                    <span className="absolute inset-0 px-2 flex items-center text-xs text-white truncate pointer-events-none">
+                      {item.label}
+                    </span>
+                  )}
+                  <div
+                    data-handle="start"
+                    className="absolute left-0 top-0 w-2 h-full rounded-l-md bg-black bg-opacity-20 cursor-ew-resize"
+                    onMouseDown={(e) => handleTrackItemMouseDown(e, track, item, 'start')}
+                  />
+                  <div
+                    data-handle="end"
+                    className="absolute right-0 top-0 w-2 h-full rounded-r-md bg-black bg-opacity-20 cursor-ew-resize"
+                    onMouseDown={(e) => handleTrackItemMouseDown(e, track, item, 'end')}
+                  />
+                </div>
+              );
+            })}
+
+            {/* Playhead */}
+            <div
+              className="absolute top-0 w-0.5 h-full bg-red-500 pointer-events-none"
+              style={{ left: `${currentPosition}%` }}
+            />
+          </div>
+        </div>
+      ))}
+
       {/* Time Markers */}
       <div className="flex justify-between text-xs text-gray-500 font-mono">
         {Array.from({ length: 5 }, (_, i) => {
@@ -276,9 +555,27 @@ export default function Timeline({
         })}
       </div>
 
+      {/* Segment Actions */}
+      <div className="flex justify-center gap-2">
+        <button
+          onClick={handleSplit}
+          disabled={!canSplit}
+          className="px-3 py-1 text-sm bg-indigo-100 hover:bg-indigo-200 disabled:bg-gray-100 disabled:text-gray-400 text-indigo-700 rounded-lg transition duration-200"
+        >
+          Split at playhead
+        </button>
+        <button
+          onClick={handleDeleteSelected}
+          disabled={disabled || selectedIndex === null || !segments[selectedIndex] || segments.length <= 1}
+          className="px-3 py-1 text-sm bg-red-100 hover:bg-red-200 disabled:bg-gray-100 disabled:text-gray-400 text-red-700 rounded-lg transition duration-200"
+        >
+          Remove segment
+        </button>
+      </div>
+
       {/* Instructions */}
       <div className="text-xs text-gray-400 text-center">
-        Drag handles to trim • Click timeline to seek
+        Drag handles to trim • Split and remove segments to cut out the middle • Click timeline to seek
       </div>
     </div>
   );
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Video, VideoEditOptions } from '@/types/video';
+import { getResolutionLabel, listEncodingProfiles } from '@/lib/encodingProfiles';
 
 interface VideoEditorProps {
   video: Video;
@@ -347,9 +348,11 @@ export default function VideoEditor({ video, onComplete, onCancel }: VideoEditor
                     onChange={(e) => handleOptionChange('quality', e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   >
-                    <option value="low">Low (480p)</option>
-                    <option value="medium">Medium (720p)</option>
-                    <option value="high">High (1080p)</option>
+                    {listEncodingProfiles().map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name} ({getResolutionLabel(profile)})
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
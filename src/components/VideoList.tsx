@@ -1,7 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { Video } from '@/types/video';
+import { ProcessingJob, Video } from '@/types/video';
+import { getResolutionLabel, listEncodingProfiles } from '@/lib/encodingProfiles';
 import Image from 'next/image';
 import Link from 'next/link';
 
@@ -25,6 +26,13 @@ export default function VideoList({
   const [shareEmails, setShareEmails] = useState<string[]>(['']);
   const [sharing, setSharing] = useState(false);
   const [shareResult, setShareResult] = useState<{ type: 'success' | 'error' | null; message: string }>({ type: null, message: '' });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [mergeOrder, setMergeOrder] = useState<Video[]>([]);
+  const [mergeCrossfade, setMergeCrossfade] = useState(0);
+  const [mergeQuality, setMergeQuality] = useState('medium');
+  const [mergeJob, setMergeJob] = useState<ProcessingJob | null>(null);
+  const [mergeResult, setMergeResult] = useState<{ type: 'success' | 'error' | null; message: string }>({ type: null, message: '' });
 
   console.log(videos);
 
@@ -121,6 +129,110 @@ export default function VideoList({
     setShareEmails(newEmails);
   };
 
+  const toggleSelected = (video: Video) => {
+    setSelectedIds(prev => prev.includes(video.id)
+      ? prev.filter(id => id !== video.id)
+      : [...prev, video.id]
+    );
+  };
+
+  const handleOpenMerge = () => {
+    // Start with the order the videos were selected in
+    setMergeOrder(selectedIds
+      .map(id => videos.find(video => video.id === id))
+      .filter((video): video is Video => !!video)
+    );
+    setMergeResult({ type: null, message: '' });
+    setMergeJob(null);
+    setShowMergeModal(true);
+  };
+
+  const moveMergeItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= mergeOrder.length) return;
+
+    const newOrder = [...mergeOrder];
+    [newOrder[index], newOrder[target]] = [newOrder[target], newOrder[index]];
+    setMergeOrder(newOrder);
+  };
+
+  const handleMergeSubmit = async () => {
+    if (mergeOrder.length < 2) return;
+
+    setMergeResult({ type: null, message: '' });
+
+    try {
+      const response = await fetch('/api/videos/concat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          videoIds: mergeOrder.map(video => video.id),
+          crossfade: mergeCrossfade,
+          quality: mergeQuality
+        }),
+      });
+
+      const data = await response.json();
+      if (!data.success) {
+        setMergeResult({ type: 'error', message: data.error || 'Failed to merge videos' });
+        return;
+      }
+
+      setMergeJob(data.job);
+      const job = await waitForMergeJob(mergeOrder[0].id, data.jobId);
+
+      if (job.status === 'completed') {
+        setMergeResult({ type: 'success', message: 'Merged video saved to your recordings' });
+        setSelectedIds([]);
+        onRefresh();
+      } else if (job.status === 'failed') {
+        setMergeResult({ type: 'error', message: job.error || 'Failed to merge videos' });
+      } else {
+        setMergeResult({ type: 'error', message: 'Merge cancelled' });
+      }
+    } catch (error) {
+      console.error('Merge failed:', error);
+      setMergeResult({ type: 'error', message: 'Failed to merge videos' });
+    } finally {
+      setMergeJob(null);
+    }
+  };
+
+  // Follow the merge job's progress stream until it finishes
+  const waitForMergeJob = (videoId: string, jobId: string): Promise<ProcessingJob> => {
+    return new Promise((resolve, reject) => {
+      const events = new EventSource(`/api/videos/${videoId}/process/events?jobId=${jobId}`);
+
+      events.addEventListener('progress', (event) => {
+        setMergeJob(JSON.parse((event as MessageEvent).data));
+      });
+
+      events.addEventListener('end', (event) => {
+        events.close();
+        resolve(JSON.parse((event as MessageEvent).data));
+      });
+
+      events.onerror = () => {
+        // EventSource retries on its own unless the server refused the stream
+        if (events.readyState === EventSource.CLOSED) {
+          reject(new Error('Lost connection to merge progress'));
+        }
+      };
+    });
+  };
+
+  const handleCancelMerge = async () => {
+    if (!mergeJob) return;
+
+    try {
+      await fetch(`/api/jobs/${mergeJob.id}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Failed to cancel merge:', error);
+    }
+  };
+
   const formatFileSize = (bytes: string) => {
     const size = parseInt(bytes);
     if (size === 0) return '0 Bytes';
@@ -174,24 +286,53 @@ export default function VideoList({
         <h2 className="text-2xl font-semibold text-gray-900">
           Your Recordings ({videos.length})
         </h2>
-        <button
-          onClick={onRefresh}
-          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition duration-200 flex items-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-          </svg>
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          {selectedIds.length > 0 && (
+            <button
+              onClick={() => setSelectedIds([])}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition duration-200"
+            >
+              Clear selection
+            </button>
+          )}
+          <button
+            onClick={handleOpenMerge}
+            disabled={selectedIds.length < 2}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg transition duration-200"
+            title={selectedIds.length < 2 ? 'Select at least two videos to merge' : undefined}
+          >
+            Merge selected{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+          </button>
+          <button
+            onClick={onRefresh}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition duration-200 flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Refresh
+          </button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {videos.map((video) => (
           <div
             key={video.id}
-            className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition duration-200"
+            className={`bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition duration-200 ${
+              selectedIds.includes(video.id) ? 'ring-2 ring-purple-500' : ''
+            }`}
           >
-            <div className="aspect-video bg-gray-100 flex items-center justify-center">
+            <div className="relative aspect-video bg-gray-100 flex items-center justify-center">
+              <label className="absolute top-2 left-2 z-10 flex items-center gap-1 bg-white bg-opacity-90 rounded px-2 py-1 text-xs font-medium text-gray-700 cursor-pointer shadow">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(video.id)}
+                  onChange={() => toggleSelected(video)}
+                  className="accent-purple-600"
+                />
+                {selectedIds.includes(video.id) ? `#${selectedIds.indexOf(video.id) + 1}` : 'Select'}
+              </label>
               {video.thumbnailLink ? (
                 <Image
                   src={video.thumbnailLink}
@@ -295,6 +436,147 @@ export default function VideoList({
         ))}
       </div>
 
+      {/* Merge Modal */}
+      {showMergeModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full border border-gray-100">
+            {/* Header */}
+            <div className="bg-gradient-to-r from-purple-500 to-indigo-600 rounded-t-2xl p-6 text-white">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-xl font-bold">Merge Videos</h3>
+                  <p className="text-purple-100 text-sm">Arrange the clips in playback order</p>
+                </div>
+                <button
+                  onClick={() => setShowMergeModal(false)}
+                  disabled={!!mergeJob}
+                  className="w-8 h-8 bg-gray-800 bg-opacity-80 hover:bg-opacity-100 rounded-full flex items-center justify-center transition duration-200 border border-gray-700"
+                >
+                  <span className="text-white text-xl font-bold">×</span>
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {/* Clip Order */}
+              <ol className="space-y-2">
+                {mergeOrder.map((video, index) => (
+                  <li key={video.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-xl">
+                    <span className="w-6 text-sm font-bold text-purple-600">{index + 1}</span>
+                    <span className="flex-1 text-sm text-gray-800 truncate">{video.name}</span>
+                    <button
+                      onClick={() => moveMergeItem(index, -1)}
+                      disabled={index === 0 || !!mergeJob}
+                      className="px-2 py-1 text-gray-600 hover:bg-gray-200 disabled:text-gray-300 rounded"
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveMergeItem(index, 1)}
+                      disabled={index === mergeOrder.length - 1 || !!mergeJob}
+                      className="px-2 py-1 text-gray-600 hover:bg-gray-200 disabled:text-gray-300 rounded"
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {/* Merge Settings */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-2">
+                    Crossfade: {mergeCrossfade}s
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="5"
+                    step="0.5"
+                    value={mergeCrossfade}
+                    onChange={(e) => setMergeCrossfade(parseFloat(e.target.value))}
+                    disabled={!!mergeJob}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-2">Quality</label>
+                  <select
+                    value={mergeQuality}
+                    onChange={(e) => setMergeQuality(e.target.value)}
+                    disabled={!!mergeJob}
+                    className="w-full p-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+                  >
+                    {listEncodingProfiles().map(profile => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name} ({getResolutionLabel(profile)})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Progress */}
+              {mergeJob && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm text-gray-600">
+                    <span className="capitalize">{mergeJob.stage}...</span>
+                    <span>{Math.round(mergeJob.percent)}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${mergeJob.percent}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Status Messages */}
+              {mergeResult.type && (
+                <div className={`p-4 rounded-xl border-2 text-sm font-medium ${
+                  mergeResult.type === 'success' 
+                    ? 'bg-green-50 border-green-200 text-green-800' 
+                    : 'bg-red-50 border-red-200 text-red-800'
+                }`}>
+                  {mergeResult.message}
+                </div>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex gap-3 pt-2">
+                {mergeJob ? (
+                  <button
+                    onClick={handleCancelMerge}
+                    className="flex-1 px-6 py-3 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl transition duration-200 font-medium"
+                  >
+                    Cancel merge
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setShowMergeModal(false)}
+                      className="flex-1 px-6 py-3 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-xl transition duration-200 font-medium"
+                    >
+                      Close
+                    </button>
+                    <button
+                      onClick={handleMergeSubmit}
+                      disabled={mergeOrder.length < 2 || mergeResult.type === 'success'}
+                      className="flex-1 px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 text-white rounded-xl transition duration-200 font-medium"
+                    >
+                      Merge {mergeOrder.length} videos
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Share Modal */}
       {showShareModal && selectedVideo && (
         <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -0,0 +1,102 @@
+'use client';
+
+import type { Watermark, WatermarkPosition } from '@/lib/filterGraph';
+
+type WatermarkPlacement = Omit<Watermark, 'imageFileId'>;
+
+interface WatermarkControlsProps {
+  value: WatermarkPlacement;
+  onChange: (changes: Partial<WatermarkPlacement>) => void;
+  disabled?: boolean;
+}
+
+const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'custom', label: 'Custom' },
+];
+
+/**
+ * Position, opacity and size inputs shared by the editor and the branding
+ * settings page
+ */
+export default function WatermarkControls({ value, onChange, disabled = false }: WatermarkControlsProps) {
+  return (
+    <div className="space-y-3 text-sm text-gray-700">
+      <label className="block">
+        <span className="block mb-1">Position</span>
+        <select
+          value={value.position}
+          onChange={(e) => onChange({ position: e.target.value as WatermarkPosition })}
+          disabled={disabled}
+          className="w-full p-1 border border-gray-300 rounded bg-white text-gray-900"
+        >
+          {WATERMARK_POSITIONS.map(position => (
+            <option key={position.value} value={position.value}>{position.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {value.position === 'custom' && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block mb-1">Horizontal: {Math.round((value.x ?? 1) * 100)}%</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={value.x ?? 1}
+              onChange={(e) => onChange({ x: parseFloat(e.target.value) })}
+              disabled={disabled}
+              className="w-full"
+            />
+          </label>
+          <label className="block">
+            <span className="block mb-1">Vertical: {Math.round((value.y ?? 1) * 100)}%</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={value.y ?? 1}
+              onChange={(e) => onChange({ y: parseFloat(e.target.value) })}
+              disabled={disabled}
+              className="w-full"
+            />
+          </label>
+        </div>
+      )}
+
+      <label className="block">
+        <span className="block mb-1">Opacity: {Math.round(value.opacity * 100)}%</span>
+        <input
+          type="range"
+          min="0.1"
+          max="1"
+          step="0.05"
+          value={value.opacity}
+          onChange={(e) => onChange({ opacity: parseFloat(e.target.value) })}
+          disabled={disabled}
+          className="w-full"
+        />
+      </label>
+
+      <label className="block">
+        <span className="block mb-1">Size: {Math.round(value.scale * 100)}% of the video width</span>
+        <input
+          type="range"
+          min="0.05"
+          max="0.5"
+          step="0.01"
+          value={value.scale}
+          onChange={(e) => onChange({ scale: parseFloat(e.target.value) })}
+          disabled={disabled}
+          className="w-full"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { VideoEditOptions } from '@/types/video';
+import type { Watermark } from '@/lib/filterGraph';
+import type { BrandingSettings } from '@/lib/branding';
+import WatermarkControls from './WatermarkControls';
+
+interface WatermarkPanelProps {
+  watermark?: Watermark;
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>;
+  disabled?: boolean;
+}
+
+/**
+ * Turns the branding logo on for an export and adjusts its placement.
+ * Loads the saved branding and applies the watermark if it is on by default.
+ */
+export default function WatermarkPanel({ watermark, setEditOptions, disabled = false }: WatermarkPanelProps) {
+  const [branding, setBranding] = useState<BrandingSettings | null>(null);
+
+  useEffect(() => {
+    const loadBranding = async () => {
+      const response = await fetch('/api/branding');
+      const data = await response.json();
+      if (!data.success) return;
+
+      const settings: BrandingSettings = data.settings;
+      setBranding(settings);
+      if (settings.applyByDefault && settings.logoFileId) {
+        setEditOptions(prev => ({ ...prev, watermark: prev.watermark || getBrandingWatermark(settings) }));
+      }
+    };
+
+    loadBranding().catch((error) => {
+      console.error('Failed to load branding settings:', error);
+    });
+  }, [setEditOptions]);
+
+  const handleToggle = (enabled: boolean) => {
+    setEditOptions(prev => ({
+      ...prev,
+      watermark: enabled && branding ? getBrandingWatermark(branding) : undefined
+    }));
+  };
+
+  const update = (changes: Partial<Watermark>) => {
+    setEditOptions(prev => prev.watermark ? { ...prev, watermark: { ...prev.watermark, ...changes } } : prev);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🏷️</span>
+        Watermark
+      </h3>
+      {branding?.logoFileId ? (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={Boolean(watermark)}
+              onChange={(e) => handleToggle(e.target.checked)}
+              disabled={disabled}
+            />
+            Add logo to this export
+          </label>
+          {watermark && (
+            <WatermarkControls
+              value={watermark}
+              onChange={update}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">
+          Upload a logo in <Link href="/settings/branding" className="text-indigo-600 hover:text-indigo-800">branding settings</Link> to watermark your exports.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Watermark from the saved branding; per-export changes start from here
+function getBrandingWatermark(settings: BrandingSettings): Watermark {
+  return {
+    imageFileId: settings.logoFileId,
+    position: settings.position,
+    x: settings.x,
+    y: settings.y,
+    opacity: settings.opacity,
+    scale: settings.scale
+  };
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { CropRect, Watermark, WATERMARK_MARGIN } from '@/lib/filterGraph';
+import { useContainedBox } from './RegionOverlay';
+
+interface WatermarkPreviewProps {
+  videoWidth: number; // Intrinsic size of the source video
+  videoHeight: number;
+  watermark: Watermark;
+  logoUrl: string;
+  crop?: CropRect; // The logo is placed within the cropped frame, as in the export
+}
+
+/**
+ * Shows the logo where the overlay filter will put it, sized relative to
+ * the frame width like scale2ref does. Passes pointer events through.
+ */
+export default function WatermarkPreview({
+  videoWidth,
+  videoHeight,
+  watermark,
+  logoUrl,
+  crop
+}: WatermarkPreviewProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const box = useContainedBox(overlayRef, videoWidth, videoHeight);
+  const [logoAspect, setLogoAspect] = useState(1);
+  const scale = videoWidth ? box.width / videoWidth : 0;
+  const frame = crop || { x: 0, y: 0, width: videoWidth, height: videoHeight };
+
+  const width = frame.width * watermark.scale * scale;
+  const height = width / logoAspect;
+  const frameWidth = frame.width * scale;
+  const frameHeight = frame.height * scale;
+  const margin = frameWidth * WATERMARK_MARGIN;
+
+  const [x, y] = watermark.position === 'custom'
+    ? [(frameWidth - width) * (watermark.x ?? 1), (frameHeight - height) * (watermark.y ?? 1)]
+    : [
+        watermark.position.endsWith('left') ? margin : frameWidth - width - margin,
+        watermark.position.startsWith('top') ? margin : frameHeight - height - margin,
+      ];
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+      <Image
+        src={logoUrl}
+        alt="Watermark"
+        width={Math.max(1, Math.round(width))}
+        height={Math.max(1, Math.round(height))}
+        unoptimized
+        onLoad={(event) => {
+          const image = event.currentTarget;
+          if (image.naturalWidth && image.naturalHeight) {
+            setLogoAspect(image.naturalWidth / image.naturalHeight);
+          }
+        }}
+        className="absolute max-w-none"
+        style={{
+          left: box.left + frame.x * scale + x,
+          top: box.top + frame.y * scale + y,
+          width,
+          height,
+          opacity: watermark.opacity,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { Dispatch, SetStateAction, useState } from 'react';
+import type { VideoEditOptions } from '@/types/video';
+import type { CropRect } from '@/lib/filterGraph';
+import { Easing, getZoomView, sortKeyframes, ZoomKeyframe } from '@/lib/keyframes';
+import { formatTime } from '@/lib/timeRanges';
+
+const ZOOM_EASINGS: { value: Easing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease in' },
+  { value: 'ease-out', label: 'Ease out' },
+  { value: 'ease-in-out', label: 'Ease in and out' }
+];
+
+/**
+ * The zoom keyframes in the edit options, in time order, and which one is
+ * being edited
+ */
+export function useZoomKeyframes(
+  zoomKeyframes: ZoomKeyframe[],
+  setEditOptions: Dispatch<SetStateAction<VideoEditOptions>>
+) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const items = sortKeyframes(zoomKeyframes);
+
+  const add = (keyframes: ZoomKeyframe[]) => {
+    setEditOptions(prev => ({ ...prev, zoomKeyframes: [...(prev.zoomKeyframes || []), ...keyframes] }));
+  };
+
+  const update = (id: string, changes: Partial<ZoomKeyframe>) => {
+    setEditOptions(prev => ({
+      ...prev,
+      zoomKeyframes: (prev.zoomKeyframes || []).map(keyframe =>
+        keyframe.id === id ? { ...keyframe, ...changes } : keyframe
+      )
+    }));
+  };
+
+  const remove = (id: string) => {
+    setEditOptions(prev => ({
+      ...prev,
+      zoomKeyframes: (prev.zoomKeyframes || []).filter(keyframe => keyframe.id !== id)
+    }));
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+  };
+
+  return {
+    items,
+    selectedId,
+    selected: items.find(keyframe => keyframe.id === selectedId) || null,
+    select: setSelectedId,
+    add,
+    update,
+    remove
+  };
+}
+
+export type ZoomEditor = ReturnType<typeof useZoomKeyframes>;
+
+interface ZoomPanelProps {
+  editor: ZoomEditor;
+  frame: CropRect; // Zoom rectangles are in the pixels of this frame
+  currentTime: number;
+  onSelect: (id: string | null) => void; // Also closes the other tools that draw on the video
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+}
+
+export default function ZoomPanel({
+  editor,
+  frame,
+  currentTime,
+  onSelect,
+  onSeek,
+  disabled = false
+}: ZoomPanelProps) {
+  const handleAdd = (zoomIn: boolean) => {
+    const fullFrame = { x: 0, y: 0, width: frame.width, height: frame.height };
+    const keyframe: ZoomKeyframe = {
+      id: `zoom-${Date.now()}`,
+      time: currentTime,
+      easing: 'ease-in-out',
+      // Zooming in starts on the middle of the frame; drag the box to the area to show
+      ...(zoomIn
+        ? { x: frame.width / 4, y: frame.height / 4, width: frame.width / 2, height: frame.height / 2 }
+        : fullFrame)
+    };
+
+    // The first zoom eases in from the full frame over a second
+    const start: ZoomKeyframe[] = zoomIn && editor.items.length === 0 && currentTime > 0
+      ? [{ ...fullFrame, id: `zoom-${Date.now()}-start`, time: Math.max(0, currentTime - 1), easing: 'linear' }]
+      : [];
+
+    editor.add([...start, keyframe]);
+    onSelect(zoomIn ? keyframe.id : null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 shadow-sm">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <span className="text-lg">🔍</span>
+        Zoom
+      </h3>
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Pan and zoom into an area at a point in time. The view eases from one keyframe to the next.
+        </p>
+        {editor.items.map((keyframe) => (
+          <div
+            key={keyframe.id}
+            className={`p-3 rounded-lg border-2 space-y-2 ${
+              keyframe.id === editor.selectedId ? 'border-violet-400 bg-violet-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => {
+                  onSelect(keyframe.id === editor.selectedId ? null : keyframe.id);
+                  onSeek(keyframe.time);
+                }}
+                className="flex-1 text-left text-sm font-medium text-gray-900 hover:text-violet-700"
+              >
+                <span className="font-mono">{formatTime(keyframe.time)}</span> · {getZoomView(keyframe, frame).zoom.toFixed(1)}x
+              </button>
+              <button
+                onClick={() => editor.remove(keyframe.id)}
+                disabled={disabled}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={keyframe.easing}
+                onChange={(e) => editor.update(keyframe.id, { easing: e.target.value as Easing })}
+                disabled={disabled}
+                className="flex-1 p-1 text-sm border border-gray-300 rounded bg-white text-gray-900"
+              >
+                {ZOOM_EASINGS.map(easing => (
+                  <option key={easing.value} value={easing.value}>{easing.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => editor.update(keyframe.id, { time: currentTime })}
+                disabled={disabled}
+                className="px-2 py-1 text-xs bg-white border border-gray-300 hover:bg-gray-100 rounded"
+              >
+                Move here
+              </button>
+            </div>
+          </div>
+        ))}
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => handleAdd(true)}
+            disabled={disabled || frame.width === 0}
+            className="px-3 py-2 text-sm bg-violet-100 hover:bg-violet-200 disabled:bg-gray-100 disabled:text-gray-400 text-violet-800 rounded-lg transition duration-200"
+          >
+            + Zoom in here
+          </button>
+          <button
+            onClick={() => handleAdd(false)}
+            disabled={disabled || frame.width === 0 || editor.items.length === 0}
+            className="px-3 py-2 text-sm bg-violet-100 hover:bg-violet-200 disabled:bg-gray-100 disabled:text-gray-400 text-violet-800 rounded-lg transition duration-200"
+          >
+            + Zoom out here
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { RefObject, useCallback, useEffect, useState } from 'react';
+import { HlsPlayer } from '@/lib/hlsPlayer';
+import type { HlsManifest } from '@/lib/hls';
+
+export interface HlsPlayback {
+  manifest: HlsManifest | null; // Set while the video plays from its HLS renditions
+  rendition: string | null; // Name of the rendition playing, e.g. '720p'
+  reload: () => void; // Check again, e.g. once packaging has finished
+}
+
+/**
+ * Play a Drive video from its packaged HLS renditions when it has some,
+ * and through the download proxy otherwise. This sets the element's src,
+ * so it must not be set in JSX. The playback position is kept when the
+ * source changes.
+ */
+export function useHlsPlayback(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  videoId: string,
+  fallbackUrl: string
+): HlsPlayback {
+  const [manifest, setManifest] = useState<HlsManifest | null>(null);
+  const [rendition, setRendition] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let cancelled = false;
+    let player: HlsPlayer | null = null;
+    const resumeAt = video.currentTime;
+
+    const resume = () => {
+      if (resumeAt > 0) {
+        video.addEventListener('loadedmetadata', () => {
+          video.currentTime = resumeAt;
+        }, { once: true });
+      }
+    };
+
+    const playFallback = () => {
+      setManifest(null);
+      setRendition(null);
+      if (video.getAttribute('src') !== fallbackUrl) {
+        resume();
+        video.src = fallbackUrl;
+      }
+    };
+
+    const start = async () => {
+      try {
+        const response = await fetch(`/api/videos/${videoId}/hls`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        const packaged: HlsManifest | null = data.success ? data.manifest : null;
+        const masterUrl = `/api/videos/${videoId}/hls/master.m3u8`;
+
+        if (packaged && HlsPlayer.isSupported(packaged.variants[0]?.codecs)) {
+          player = new HlsPlayer(video, masterUrl, variant => setRendition(variant.name));
+          setManifest(packaged);
+          resume();
+          await player.load();
+        } else if (packaged && video.canPlayType('application/vnd.apple.mpegurl')) {
+          // Safari plays HLS itself
+          setManifest(packaged);
+          setRendition(null);
+          resume();
+          video.src = masterUrl;
+        } else {
+          playFallback();
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to start HLS playback:', error);
+        player?.destroy();
+        player = null;
+        playFallback();
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      player?.destroy();
+    };
+  }, [videoRef, videoId, fallbackUrl, version]);
+
+  const reload = useCallback(() => setVersion(current => current + 1), []);
+
+  return { manifest, rendition, reload };
+}
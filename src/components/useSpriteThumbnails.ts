@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { waitForJob } from '@/lib/jobProgress';
+import {
+  DEFAULT_SPRITE_OPTIONS,
+  formatSpriteOptions,
+  parseSpriteTrack,
+  SPRITE_TRACK_NAME,
+  SpriteThumbnail
+} from '@/lib/sprites';
+
+/**
+ * Thumbnails for timeline hover previews. The sprite sheet is generated
+ * on the server the first time a video is opened, in the job queue's
+ * background lane; until it is ready, and if generating fails, there are
+ * none.
+ */
+export function useSpriteThumbnails(videoId: string, knownDuration: number = 0): SpriteThumbnail[] {
+  const [thumbnails, setThumbnails] = useState<SpriteThumbnail[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const query = formatSpriteOptions(DEFAULT_SPRITE_OPTIONS);
+        const status = await (await fetch(`/api/videos/${videoId}/sprites?${query}`)).json();
+        if (cancelled || !status.success) return;
+
+        if (!status.ready) {
+          let jobId: string | undefined = status.jobId;
+          if (!jobId) {
+            const response = await fetch(`/api/videos/${videoId}/sprites?${query}&duration=${knownDuration}`, { method: 'POST' });
+            const data = await response.json();
+            if (cancelled || !data.success) return;
+            jobId = data.ready ? undefined : data.jobId;
+          }
+          if (jobId) {
+            const job = await waitForJob(videoId, jobId, { signal: controller.signal });
+            if (job.status !== 'completed') return;
+          }
+        }
+
+        if (cancelled) return;
+        const trackUrl = new URL(`/api/videos/${videoId}/sprites/${SPRITE_TRACK_NAME}?${query}`, window.location.href).toString();
+        const response = await fetch(trackUrl);
+        if (!response.ok || cancelled) return;
+        setThumbnails(parseSpriteTrack(await response.text(), trackUrl));
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Failed to load timeline thumbnails:', error);
+      }
+    };
+
+    setThumbnails([]);
+    load();
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [videoId, knownDuration]);
+
+  return thumbnails;
+}
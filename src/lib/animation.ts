@@ -0,0 +1,97 @@
+// Animated GIF and WebP exports of short clips, for pull requests and chat
+// where MP4 does not always autoplay. Shared by the server and the editor;
+// no Node dependencies.
+
+export type AnimationFormat = 'gif' | 'webp';
+
+// paletteuse dithering. Error diffusion looks smoothest on gradients but
+// compresses worst; none keeps flat UI colours flat and files small.
+export type DitherMode = 'sierra2_4a' | 'floyd_steinberg' | 'bayer' | 'none';
+
+export interface AnimationOptions {
+  format: AnimationFormat;
+  fps: number;
+  width: number; // Output width in pixels; never upscaled
+  dither: DitherMode; // GIF only, WebP is not palette based
+  loop: number; // Times the animation plays, 0 loops forever
+}
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; mimeType: string }> = {
+  gif: { label: 'GIF', mimeType: 'image/gif' },
+  webp: { label: 'Animated WebP', mimeType: 'image/webp' },
+};
+
+export const DITHER_MODES: Record<DitherMode, string> = {
+  sierra2_4a: 'Sierra (smooth)',
+  floyd_steinberg: 'Floyd-Steinberg',
+  bayer: 'Ordered (Bayer)',
+  none: 'None (smallest)',
+};
+
+export const ANIMATION_FPS_OPTIONS = [5, 10, 12, 15, 20, 25];
+
+export const ANIMATION_WIDTH_OPTIONS = [320, 480, 640, 800, 960, 1280];
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+  format: 'gif',
+  fps: 10,
+  width: 640,
+  dither: 'sierra2_4a',
+  loop: 0,
+};
+
+// Rough bytes per pixel for an estimate: the first frame is stored whole,
+// later frames mostly as the rectangles that changed. Measured on screen
+// recordings, so camera footage comes out larger.
+const FIRST_FRAME_BYTES_PER_PIXEL = 0.5;
+const CHANGED_FRAME_BYTES_PER_PIXEL = 0.04;
+const DITHER_SIZE_FACTORS: Record<DitherMode, number> = {
+  sierra2_4a: 1.3,
+  floyd_steinberg: 1.4,
+  bayer: 1,
+  none: 0.7,
+};
+const WEBP_SIZE_FACTOR = 0.35;
+
+/**
+ * Encoder output arguments for an animation. The GIF muxer counts
+ * repeats after the first play, with -1 for none.
+ */
+export function getAnimationEncodingArgs({ format, loop }: AnimationOptions): string[] {
+  if (format === 'webp') {
+    return ['-an', '-c:v', 'libwebp', '-lossless', '0', '-quality', '75', '-loop', String(loop)];
+  }
+  return ['-an', '-c:v', 'gif', '-loop', String(loop === 0 ? 0 : loop === 1 ? -1 : loop - 1)];
+}
+
+/**
+ * Output frame size for a source frame, keeping its aspect ratio
+ */
+export function getAnimationSize(
+  { width }: AnimationOptions,
+  frame: { width: number; height: number }
+): { width: number; height: number } {
+  if (frame.width <= 0 || frame.height <= 0) {
+    return { width, height: Math.round(width * 9 / 16) };
+  }
+  const outputWidth = Math.min(width, frame.width);
+  return { width: outputWidth, height: Math.round(outputWidth * frame.height / frame.width) };
+}
+
+/**
+ * Rough output size in bytes for a clip of the given length, to warn
+ * before exporting something too large to paste
+ */
+export function estimateAnimationSize(
+  options: AnimationOptions,
+  duration: number,
+  frame: { width: number; height: number }
+): number {
+  const { width, height } = getAnimationSize(options, frame);
+  const pixels = width * height;
+  const frames = Math.max(1, Math.ceil(duration * options.fps));
+  const gifSize = pixels * (FIRST_FRAME_BYTES_PER_PIXEL
+    + (frames - 1) * CHANGED_FRAME_BYTES_PER_PIXEL * DITHER_SIZE_FACTORS[options.dither]);
+
+  return Math.round(options.format === 'webp' ? gifSize * WEBP_SIZE_FACTOR : gifSize);
+}
@@ -0,0 +1,93 @@
+import type { WatermarkPosition } from './filterGraph';
+import { fetchDriveFile, findAppDataFile, writeAppDataFile } from './drive';
+
+// Branding lives in the Drive appDataFolder, so it follows the account to
+// every browser without a database. Only this app can see those files.
+
+const SETTINGS_FILE_NAME = 'branding.json';
+const LOGO_FILE_NAME = 'branding-logo';
+
+export const LOGO_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Logos are kept in memory while uploading, so keep them small
+export const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+export interface BrandingSettings {
+  applyByDefault: boolean; // Add the watermark to every new export
+  logoFileId?: string;
+  logoMimeType?: string;
+  position: WatermarkPosition;
+  x?: number;
+  y?: number;
+  opacity: number; // 0-1
+  scale: number; // Logo width as a fraction of the video width
+}
+
+export const DEFAULT_BRANDING: BrandingSettings = {
+  applyByDefault: false,
+  position: 'bottom-right',
+  opacity: 0.8,
+  scale: 0.15,
+};
+
+/**
+ * Read the saved branding settings, or the defaults if there are none
+ */
+export async function getBrandingSettings(token: string): Promise<BrandingSettings> {
+  const file = await findAppDataFile(token, SETTINGS_FILE_NAME);
+  if (!file) {
+    return { ...DEFAULT_BRANDING };
+  }
+
+  const response = await fetchDriveFile(token, file.id);
+  const saved: Partial<BrandingSettings> = await response.json();
+  return sanitizeBrandingSettings({ ...DEFAULT_BRANDING, ...saved });
+}
+
+/**
+ * Store branding settings, clamping values that came from the client
+ */
+export async function saveBrandingSettings(
+  token: string,
+  settings: BrandingSettings
+): Promise<BrandingSettings> {
+  const sanitized = sanitizeBrandingSettings(settings);
+  await writeAppDataFile(token, SETTINGS_FILE_NAME, JSON.stringify(sanitized), 'application/json');
+  return sanitized;
+}
+
+/**
+ * Store the logo image. The file is replaced in place so its ID stays the same
+ */
+export async function saveBrandingLogo(
+  token: string,
+  image: Buffer,
+  mimeType: string
+): Promise<BrandingSettings> {
+  const file = await writeAppDataFile(token, LOGO_FILE_NAME, image, mimeType);
+  const settings = await getBrandingSettings(token);
+  return saveBrandingSettings(token, {
+    ...settings,
+    logoFileId: file.id,
+    logoMimeType: mimeType,
+  });
+}
+
+function sanitizeBrandingSettings(settings: BrandingSettings): BrandingSettings {
+  const positions: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'custom'];
+  const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+    const number = Number(value);
+    return Number.isFinite(number) ? Math.max(min, Math.min(number, max)) : fallback;
+  };
+
+  return {
+    applyByDefault: Boolean(settings.applyByDefault),
+    logoFileId: typeof settings.logoFileId === 'string' ? settings.logoFileId : undefined,
+    logoMimeType: typeof settings.logoMimeType === 'string' ? settings.logoMimeType : undefined,
+    position: positions.includes(settings.position) ? settings.position : DEFAULT_BRANDING.position,
+    x: settings.x === undefined ? undefined : clamp(settings.x, 0, 1, 1),
+    y: settings.y === undefined ? undefined : clamp(settings.y, 0, 1, 1),
+    opacity: clamp(settings.opacity, 0, 1, DEFAULT_BRANDING.opacity),
+    scale: clamp(settings.scale, 0.02, 0.5, DEFAULT_BRANDING.scale),
+  };
+}
@@ -0,0 +1,359 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import type { VideoEditOptions } from './ffmpeg';
+import {
+  addAnimationFrames,
+  addAnimationPalette,
+  buildEditGraph,
+  EditGraph,
+  EditGraphInput,
+  Filter,
+  formatFilter,
+  getGraphOutputs,
+  getNoiseReductionFilters,
+  NoiseReductionStrength
+} from './filterGraph';
+import { AudioFormat, getAudioEncodingArgs, getEncodingArgs, getEncodingProfile } from './encodingProfiles';
+import { FONT_URL_PATH, getOverlayFont } from './fonts';
+import { AnimationOptions, getAnimationEncodingArgs } from './animation';
+import { buildConcatList, getTrimPartExtension, TrimPart } from './fastTrim';
+
+// Helpers for running edits with FFmpeg WASM in the browser. They build the
+// same filter graph as the server so both paths produce the same output.
+
+/**
+ * Read duration, frame size and audio presence from FFmpeg's input
+ * banner, since ffprobe is not part of the WASM build
+ */
+export async function probeInput(ffmpeg: FFmpeg, fileName: string): Promise<EditGraphInput> {
+  const log = await readInputBanner(ffmpeg, fileName);
+  const durationMatch = log.match(/Duration:\s*(\d+):(\d+):([\d.]+)/);
+  const duration = durationMatch
+    ? parseInt(durationMatch[1]) * 3600 + parseInt(durationMatch[2]) * 60 + parseFloat(durationMatch[3])
+    : 0;
+
+  // e.g. "Stream #0:0: Video: vp8, yuv420p, 1920x1080, SAR 1:1 DAR 16:9, 30 fps"
+  const videoLine = log.match(/Stream #\d+:\d+.*: Video:.*/)?.[0] || '';
+  const sizeMatch = videoLine.match(/, (\d{2,5})x(\d{2,5})/);
+  const fpsMatch = videoLine.match(/([\d.]+) fps/);
+
+  return {
+    duration,
+    hasAudio: /Stream #\d+:\d+.*: Audio:/.test(log),
+    width: sizeMatch ? parseInt(sizeMatch[1]) : undefined,
+    height: sizeMatch ? parseInt(sizeMatch[2]) : undefined,
+    fps: fpsMatch ? parseFloat(fpsMatch[1]) : undefined,
+  };
+}
+
+/**
+ * Codec names of the first video and audio streams, e.g. 'vp8' and 'opus'
+ */
+export async function probeCodecs(ffmpeg: FFmpeg, fileName: string): Promise<{ video?: string; audio?: string }> {
+  const log = await readInputBanner(ffmpeg, fileName);
+  return {
+    video: log.match(/Stream #\d+:\d+.*: Video: (\w+)/)?.[1],
+    audio: log.match(/Stream #\d+:\d+.*: Audio: (\w+)/)?.[1],
+  };
+}
+
+async function readInputBanner(ffmpeg: FFmpeg, fileName: string): Promise<string> {
+  const lines: string[] = [];
+  const handleLog = ({ message }: { message: string }) => lines.push(message);
+
+  ffmpeg.on('log', handleLog);
+  try {
+    // Exits with an error because no output is given; the banner is all we need
+    await ffmpeg.exec(['-hide_banner', '-i', fileName]);
+  } finally {
+    ffmpeg.off('log', handleLog);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Copy the bundled fonts used by the text overlays into FFmpeg's virtual
+ * file system, where drawtext finds them by file name
+ */
+export async function loadOverlayFonts(ffmpeg: FFmpeg, options: VideoEditOptions): Promise<void> {
+  const files = new Set((options.textOverlays || []).map(overlay => getOverlayFont(overlay.font).file));
+
+  for (const file of files) {
+    const response = await fetch(`${FONT_URL_PATH}/${file}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load font ${file}`);
+    }
+    await ffmpeg.writeFile(file, new Uint8Array(await response.arrayBuffer()));
+  }
+}
+
+// Names extra inputs are written under in FFmpeg's file system
+const WATERMARK_FILE_NAME = 'watermark';
+const PIP_FILE_NAME = 'pip';
+const MUSIC_FILE_NAME = 'music';
+
+// Written by the first pass of a GIF export; delete it after the second
+export const PALETTE_FILE_NAME = 'palette.png';
+// Concat list for joining the parts of a stream-copy trim
+export const TRIM_LIST_FILE_NAME = 'parts.txt';
+
+// Extra input files an edit refers to, as loaded by the helpers below
+export interface EditInputFiles {
+  watermark?: string;
+  pip?: { fileName: string; hasAudio: boolean };
+  music?: string;
+}
+
+/**
+ * Copy the branding logo into FFmpeg's file system when the edit has a
+ * watermark. Returns the file name to pass to buildEditArgs.
+ */
+export async function loadWatermark(ffmpeg: FFmpeg, options: VideoEditOptions): Promise<string | undefined> {
+  if (!options.watermark) {
+    return undefined;
+  }
+
+  const response = await fetch('/api/branding/logo');
+  if (!response.ok) {
+    throw new Error('Failed to load watermark image');
+  }
+  await ffmpeg.writeFile(WATERMARK_FILE_NAME, new Uint8Array(await response.arrayBuffer()));
+  return WATERMARK_FILE_NAME;
+}
+
+/**
+ * Copy the picture-in-picture video into FFmpeg's file system when the
+ * edit has one
+ */
+export async function loadPictureInPicture(
+  ffmpeg: FFmpeg,
+  options: VideoEditOptions
+): Promise<EditInputFiles['pip']> {
+  if (!options.pictureInPicture) {
+    return undefined;
+  }
+
+  const response = await fetch(`/api/videos/${options.pictureInPicture.videoId}/download`);
+  if (!response.ok) {
+    throw new Error('Failed to load picture-in-picture video');
+  }
+  await ffmpeg.writeFile(PIP_FILE_NAME, new Uint8Array(await response.arrayBuffer()));
+  const { hasAudio } = await probeInput(ffmpeg, PIP_FILE_NAME);
+  return { fileName: PIP_FILE_NAME, hasAudio };
+}
+
+/**
+ * Copy the background music into FFmpeg's file system when the edit has
+ * some
+ */
+export async function loadBackgroundMusic(ffmpeg: FFmpeg, options: VideoEditOptions): Promise<string | undefined> {
+  if (!options.backgroundMusic) {
+    return undefined;
+  }
+
+  const response = await fetch(`/api/videos/${options.backgroundMusic.fileId}/download`);
+  if (!response.ok) {
+    throw new Error('Failed to load background music');
+  }
+  await ffmpeg.writeFile(MUSIC_FILE_NAME, new Uint8Array(await response.arrayBuffer()));
+  return MUSIC_FILE_NAME;
+}
+
+/**
+ * Delete files from FFmpeg's file system. It lives in memory, so they
+ * would otherwise take up space until the page is closed. Files that were
+ * never written, e.g. because a step failed part way, are skipped.
+ */
+export async function deleteFiles(ffmpeg: FFmpeg, files: Iterable<string>): Promise<void> {
+  for (const file of files) {
+    try {
+      await ffmpeg.deleteFile(file);
+    } catch {
+      // Not written
+    }
+  }
+}
+
+/**
+ * Delete the fonts and extra inputs the helpers above may have loaded for
+ * an edit
+ */
+export async function deleteEditInputs(ffmpeg: FFmpeg, options: VideoEditOptions): Promise<void> {
+  const files = new Set((options.textOverlays || []).map(overlay => getOverlayFont(overlay.font).file));
+  if (options.watermark) files.add(WATERMARK_FILE_NAME);
+  if (options.pictureInPicture) files.add(PIP_FILE_NAME);
+  if (options.backgroundMusic) files.add(MUSIC_FILE_NAME);
+
+  await deleteFiles(ffmpeg, files);
+}
+
+/**
+ * Full argument list for an edit, plus the graph it was built from. With
+ * audio set only the audio is exported, in that format.
+ */
+export function buildEditArgs(
+  inputFileName: string,
+  outputFileName: string,
+  options: VideoEditOptions,
+  input: EditGraphInput,
+  files: EditInputFiles = {},
+  audio?: { format: AudioFormat; bitrate?: string }
+): { args: string[]; edit: EditGraph } {
+  const graphInput: EditGraphInput = { ...input, audioOnly: Boolean(audio) };
+  const { inputArgs } = getInputArgs(inputFileName, options, graphInput, files);
+
+  const edit = buildEditGraph(options, graphInput);
+  const args = [...inputArgs, '-filter_complex', edit.graph.toString()];
+
+  for (const output of getGraphOutputs(edit)) {
+    args.push('-map', `[${output}]`);
+  }
+
+  const outputArgs = audio
+    ? getAudioEncodingArgs(audio.format, audio.bitrate)
+    : getEncodingArgs(getEncodingProfile(options.quality));
+  args.push(...outputArgs, outputFileName);
+
+  return { args, edit };
+}
+
+/**
+ * Argument lists for an animated GIF or WebP of an edit, to run in order:
+ * for GIFs a pass that writes the palette to PALETTE_FILE_NAME, then the
+ * frames. Animations are silent, so background music is not needed.
+ */
+export function buildAnimationArgs(
+  inputFileName: string,
+  outputFileName: string,
+  options: VideoEditOptions,
+  input: EditGraphInput,
+  files: EditInputFiles,
+  animation: AnimationOptions
+): string[][] {
+  const silent: VideoEditOptions = { ...options, normalize: undefined, backgroundMusic: undefined };
+  const graphInput: EditGraphInput = { ...input, hasAudio: false, keepSize: true };
+  const { inputArgs, inputCount } = getInputArgs(inputFileName, silent, graphInput, { ...files, music: undefined });
+  const passes: string[][] = [];
+  let paletteInput: string | undefined;
+
+  if (animation.format === 'gif') {
+    const pass = buildEditGraph(silent, graphInput);
+    const palette = addAnimationPalette(pass.graph, pass.videoOutput!, animation, pass.graph.label('palette'));
+    passes.push([
+      ...inputArgs,
+      '-filter_complex', pass.graph.toString(),
+      '-map', `[${palette}]`,
+      '-update', '1', PALETTE_FILE_NAME
+    ]);
+    paletteInput = `${inputCount}:v`;
+  }
+
+  const edit = buildEditGraph(silent, graphInput);
+  const frames = addAnimationFrames(edit.graph, edit.videoOutput!, animation, paletteInput, edit.graph.label('anim'));
+  passes.push([
+    ...inputArgs,
+    ...(paletteInput ? ['-i', PALETTE_FILE_NAME] : []),
+    '-filter_complex', edit.graph.toString(),
+    '-map', `[${frames}]`,
+    ...getAnimationEncodingArgs(animation),
+    outputFileName
+  ]);
+
+  return passes;
+}
+
+/**
+ * Argument lists for a trim without a full re-encode, to run in order:
+ * one per part, cut by stream copy or re-encoded with boundaryArgs, then
+ * one joining them into outputFileName. The list the join reads has to be
+ * written to TRIM_LIST_FILE_NAME first; the part files are left to delete.
+ */
+export function buildTrimArgs(
+  inputFileName: string,
+  outputFileName: string,
+  parts: TrimPart[],
+  videoCodec: string,
+  boundaryArgs: string[] | null
+): { passes: string[][]; partFiles: string[]; list: string } {
+  const extension = getTrimPartExtension(videoCodec);
+  const passes: string[][] = [];
+  const partFiles: string[] = [];
+
+  parts.forEach((part, index) => {
+    if (!part.copy && !boundaryArgs) {
+      throw new Error(`Cannot re-encode ${videoCodec} to match the source`);
+    }
+    const partFile = `part_${index}.${extension}`;
+    partFiles.push(partFile);
+    passes.push([
+      '-ss', part.start.toFixed(3),
+      '-i', inputFileName,
+      '-t', (part.end - part.start).toFixed(3),
+      '-map', '0:v:0',
+      '-map', '0:a:0?',
+      ...(part.copy ? ['-c', 'copy', '-avoid_negative_ts', 'make_zero'] : boundaryArgs!),
+      partFile
+    ]);
+  });
+
+  passes.push(['-f', 'concat', '-safe', '0', '-i', TRIM_LIST_FILE_NAME, '-c', 'copy', outputFileName]);
+
+  return { passes, partFiles, list: buildConcatList(partFiles) };
+}
+
+/**
+ * Input arguments for the source and the extra files an edit refers to,
+ * filling in their stream labels on graphInput
+ */
+function getInputArgs(
+  inputFileName: string,
+  options: VideoEditOptions,
+  graphInput: EditGraphInput,
+  files: EditInputFiles
+): { inputArgs: string[]; inputCount: number } {
+  const inputArgs = ['-i', inputFileName];
+  let inputCount = 1;
+
+  if (files.watermark && !graphInput.audioOnly) {
+    inputArgs.push('-loop', '1', '-i', files.watermark);
+    graphInput.watermarkInput = `${inputCount++}:v`;
+  }
+  if (files.pip) {
+    inputArgs.push('-i', files.pip.fileName);
+    graphInput.pipInput = `${inputCount}:v`;
+    graphInput.pipAudioInput = files.pip.hasAudio ? `${inputCount}:a` : undefined;
+    inputCount++;
+  }
+  if (files.music) {
+    if (options.backgroundMusic?.loop) {
+      inputArgs.push('-stream_loop', '-1');
+    }
+    inputArgs.push('-i', files.music);
+    graphInput.musicInput = `${inputCount++}:a`;
+  }
+
+  return { inputArgs, inputCount };
+}
+
+/**
+ * Arguments that cut a short stretch of audio to WAV, cleaned with the
+ * given noise reduction or untouched without one, so the two can be
+ * compared before a full export
+ */
+export function buildAudioPreviewArgs(
+  inputFileName: string,
+  outputFileName: string,
+  start: number,
+  length: number,
+  noiseReduction?: NoiseReductionStrength
+): string[] {
+  const filters: Filter[] = noiseReduction ? getNoiseReductionFilters(noiseReduction) : [];
+  const args = ['-ss', String(start), '-t', String(length), '-i', inputFileName, '-vn'];
+
+  if (filters.length > 0) {
+    args.push('-af', filters.map(formatFilter).join(','));
+  }
+  args.push('-c:a', 'pcm_s16le', outputFileName);
+
+  return args;
+}
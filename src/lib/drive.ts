@@ -0,0 +1,317 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { JobError } from './jobs';
+
+const DRIVE_API_URL = 'https://www.googleapis.com/drive/v3';
+const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3';
+
+export interface GoogleUser {
+  id: string;
+  email: string;
+  name: string;
+  picture: string;
+}
+
+export interface DriveUploadMetadata {
+  name: string;
+  parents: string[];
+  mimeType?: string;
+}
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+}
+
+/**
+ * Resolve the Google account behind an access token
+ */
+export async function getGoogleUser(token: string): Promise<GoogleUser | null> {
+  const response = await fetch('https://www.googleapis.com/oauth2/v1/userinfo', {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  return response.json();
+}
+
+/**
+ * Queued jobs hold the access token from when they were queued, which can
+ * expire while they wait or encode. Fail early with a code that tells the
+ * client to sign in again, rather than with a Drive error partway through.
+ */
+export async function requireSignedIn(token: string): Promise<void> {
+  if (!await getGoogleUser(token)) {
+    throw new JobError('Your Google sign-in has expired. Sign in again and retry.', 'reauthenticate');
+  }
+}
+
+/**
+ * Find a folder by name, returning its ID or null if it does not exist
+ */
+export async function findDriveFolder(token: string, name: string): Promise<string | null> {
+  const query = `name='${name.replace(/'/g, "\\'")}' and mimeType='application/vnd.google-apps.folder' and trashed=false`;
+  const response = await fetch(`${DRIVE_API_URL}/files?q=${encodeURIComponent(query)}&fields=files(id)`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to look up Drive folder');
+  }
+
+  const data: { files?: { id: string }[] } = await response.json();
+  return data.files?.[0]?.id || null;
+}
+
+/**
+ * Stream a Drive file to disk without buffering it in memory
+ */
+export async function downloadDriveFile(
+  token: string,
+  fileId: string,
+  destinationPath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(`${DRIVE_API_URL}/files/${fileId}?alt=media`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error('Failed to download video from Google Drive');
+  }
+
+  await pipeline(
+    Readable.fromWeb(response.body as unknown as NodeReadableStream),
+    createWriteStream(destinationPath),
+    { signal }
+  );
+}
+
+/**
+ * Upload a local file to Drive using a resumable session
+ */
+export async function uploadDriveFile(
+  token: string,
+  metadata: DriveUploadMetadata,
+  filePath: string,
+  signal?: AbortSignal
+): Promise<{ id: string }> {
+  const { size } = await stat(filePath);
+  const mimeType = metadata.mimeType || 'video/mp4';
+
+  const sessionResponse = await fetch(`${DRIVE_UPLOAD_URL}/files?uploadType=resumable`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json; charset=UTF-8',
+      'X-Upload-Content-Type': mimeType,
+      'X-Upload-Content-Length': String(size),
+    },
+    body: JSON.stringify({ ...metadata, mimeType }),
+    signal,
+  });
+
+  const sessionUrl = sessionResponse.headers.get('location');
+  if (!sessionResponse.ok || !sessionUrl) {
+    const error = await sessionResponse.text();
+    throw new Error(`Failed to start upload: ${error}`);
+  }
+
+  const uploadResponse = await fetch(sessionUrl, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Length': String(size),
+    },
+    body: Readable.toWeb(createReadStream(filePath)) as ReadableStream,
+    signal,
+    // Required by Node's fetch when the body is a stream
+    duplex: 'half',
+  } as RequestInit);
+
+  if (!uploadResponse.ok) {
+    const error = await uploadResponse.text();
+    throw new Error(`Failed to upload processed video: ${error}`);
+  }
+
+  return uploadResponse.json();
+}
+
+// How long a successful access check is trusted, so streaming hundreds
+// of segments does not cost a Drive request each
+const ACCESS_CHECK_TTL_MS = 5 * 60 * 1000;
+const accessChecks = new Map<string, number>();
+
+/**
+ * Whether the token's account can read a Drive file. Files served from
+ * local caches are checked with this, since the cache itself is shared.
+ */
+export async function canAccessDriveFile(token: string, fileId: string): Promise<boolean> {
+  const key = `${fileId}:${token}`;
+  const now = Date.now();
+  if ((accessChecks.get(key) || 0) > now) {
+    return true;
+  }
+
+  const response = await fetch(`${DRIVE_API_URL}/files/${encodeURIComponent(fileId)}?fields=id`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+  if (!response.ok) {
+    accessChecks.delete(key);
+    return false;
+  }
+
+  for (const [cachedKey, expiry] of accessChecks) {
+    if (expiry <= now) {
+      accessChecks.delete(cachedKey);
+    }
+  }
+  accessChecks.set(key, now + ACCESS_CHECK_TTL_MS);
+  return true;
+}
+
+/**
+ * Find a file by name in the app's hidden appDataFolder
+ */
+export async function findAppDataFile(token: string, name: string): Promise<DriveFile | null> {
+  const query = `name='${name.replace(/'/g, "\\'")}' and trashed=false`;
+  const response = await fetch(
+    `${DRIVE_API_URL}/files?spaces=appDataFolder&q=${encodeURIComponent(query)}&fields=files(id,name,mimeType)`,
+    {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to look up app data file');
+  }
+
+  const data: { files?: DriveFile[] } = await response.json();
+  return data.files?.[0] || null;
+}
+
+/**
+ * Create or replace a small file in the appDataFolder
+ */
+export async function writeAppDataFile(
+  token: string,
+  name: string,
+  content: Buffer | string,
+  mimeType: string
+): Promise<DriveFile> {
+  const existing = await findAppDataFile(token, name);
+  const body = typeof content === 'string' ? Buffer.from(content) : content;
+
+  // Existing files keep their ID, so references to them stay valid
+  if (existing) {
+    const response = await fetch(`${DRIVE_UPLOAD_URL}/files/${existing.id}?uploadType=media&fields=id,name,mimeType`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': mimeType,
+      },
+      body: new Uint8Array(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to update app data file: ${error}`);
+    }
+    return response.json();
+  }
+
+  return createDriveFile(token, { name, parents: ['appDataFolder'], mimeType }, body);
+}
+
+/**
+ * Create a file from a buffer in a single multipart request. Meant for
+ * files small enough to hold in memory; see uploadDriveFile for the rest.
+ */
+export async function createDriveFile(
+  token: string,
+  metadata: DriveUploadMetadata,
+  content: Buffer
+): Promise<DriveFile> {
+  const mimeType = metadata.mimeType || 'application/octet-stream';
+  const boundary = `drive-file-${Date.now()}`;
+  const multipart = Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n` +
+      JSON.stringify({ ...metadata, mimeType }) +
+      `\r\n--${boundary}\r\nContent-Type: ${mimeType}\r\n\r\n`
+    ),
+    content,
+    Buffer.from(`\r\n--${boundary}--`),
+  ]);
+
+  const response = await fetch(`${DRIVE_UPLOAD_URL}/files?uploadType=multipart&fields=id,name,mimeType`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': `multipart/related; boundary=${boundary}`,
+    },
+    body: new Uint8Array(multipart),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to create Drive file: ${error}`);
+  }
+  return response.json();
+}
+
+/**
+ * List the audio files in the user's Drive, newest first
+ */
+export async function listAudioFiles(token: string): Promise<DriveFile[]> {
+  const query = "mimeType contains 'audio/' and trashed=false";
+  const response = await fetch(
+    `${DRIVE_API_URL}/files?q=${encodeURIComponent(query)}&orderBy=${encodeURIComponent('modifiedTime desc')}&pageSize=100&fields=files(id,name,mimeType)`,
+    {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error('Failed to list audio files');
+  }
+
+  const data: { files?: DriveFile[] } = await response.json();
+  return data.files || [];
+}
+
+/**
+ * Start fetching a Drive file's contents, e.g. to pass the body through
+ */
+export async function fetchDriveFile(token: string, fileId: string): Promise<Response> {
+  const response = await fetch(`${DRIVE_API_URL}/files/${fileId}?alt=media`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to read file from Google Drive');
+  }
+  return response;
+}
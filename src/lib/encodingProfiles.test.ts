@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EncodingProfile,
+  getContainerMimeType,
+  getEncodingArgs,
+  getEncodingProfile,
+  getResolutionLabel,
+  getScaleFilter,
+  listEncodingProfiles,
+  registerEncodingProfile
+} from './encodingProfiles';
+import { formatFilter } from './filterGraph';
+
+const SOURCE_PROFILE: EncodingProfile = {
+  id: 'test-source-webm',
+  name: 'Source WebM',
+  description: 'Keeps the source size',
+  videoCodec: 'libvpx-vp9',
+  crf: 32,
+  audioCodec: 'libopus',
+  audioBitrate: '96k',
+  container: 'webm',
+  faststart: true,
+};
+
+describe('getEncodingProfile', () => {
+  it('maps each built-in quality to its resolution', () => {
+    expect(['low', 'medium', 'high'].map(id => getResolutionLabel(getEncodingProfile(id)))).toEqual(['480p', '720p', '1080p']);
+  });
+
+  it('falls back to medium for unknown or missing IDs', () => {
+    expect(getEncodingProfile('ultra').id).toBe('medium');
+    expect(getEncodingProfile(undefined).id).toBe('medium');
+  });
+
+  it('finds registered profiles', () => {
+    registerEncodingProfile(SOURCE_PROFILE);
+    expect(getEncodingProfile(SOURCE_PROFILE.id)).toBe(SOURCE_PROFILE);
+    expect(listEncodingProfiles()).toContain(SOURCE_PROFILE);
+    expect(getResolutionLabel(SOURCE_PROFILE)).toBe('Source');
+    expect(getContainerMimeType(SOURCE_PROFILE)).toBe('video/webm');
+  });
+});
+
+describe('getScaleFilter', () => {
+  it('scales down to the profile height with an even width and height', () => {
+    expect(formatFilter(getScaleFilter(getEncodingProfile('high'))!)).toBe("scale=w=-2:h='trunc(min(ih,1080)/2)*2'");
+  });
+
+  it('keeps the source size for profiles without a height', () => {
+    expect(getScaleFilter(SOURCE_PROFILE)).toBeNull();
+  });
+});
+
+describe('getEncodingArgs', () => {
+  it('encodes H.264 at the profile CRF with faststart', () => {
+    expect(getEncodingArgs(getEncodingProfile('low'))).toEqual([
+      '-c:v', 'libx264', '-crf', '28', '-preset', 'fast',
+      '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-b:a', '96k',
+      '-movflags', '+faststart',
+    ]);
+  });
+
+  it('uses constant quality mode for VP9 and no faststart for WebM', () => {
+    expect(getEncodingArgs(SOURCE_PROFILE)).toEqual([
+      '-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0',
+      '-pix_fmt', 'yuv420p', '-c:a', 'libopus', '-b:a', '96k',
+    ]);
+  });
+
+  it('prefers a fixed bitrate over CRF', () => {
+    const args = getEncodingArgs({ ...SOURCE_PROFILE, videoCodec: 'libx264', videoBitrate: '2500k', container: 'mp4' });
+    expect(args.slice(0, 4)).toEqual(['-c:v', 'libx264', '-b:v', '2500k']);
+    expect(args).not.toContain('-crf');
+  });
+});
@@ -0,0 +1,202 @@
+import type { Filter } from './filterGraph';
+
+// Shared by the server FFmpegVideoEditor and the browser FFmpeg WASM path so
+// the quality labels in the UI always match what gets encoded.
+
+// Built-in IDs plus any custom profile ID
+export type EncodingProfileId = 'low' | 'medium' | 'high' | (string & {});
+
+export type EncodingContainer = 'mp4' | 'webm' | 'mov';
+
+export interface EncodingProfile {
+  id: string;
+  name: string;
+  description: string;
+  height?: number; // Target height; width follows the aspect ratio. Omit to keep the source size
+  videoCodec: string;
+  crf?: number;
+  videoBitrate?: string; // e.g. '2500k', used instead of CRF when set
+  preset?: string;
+  audioCodec: string;
+  audioBitrate: string;
+  container: EncodingContainer;
+  faststart: boolean; // Move the moov atom to the front for progressive playback
+}
+
+const CONTAINER_MIME_TYPES: Record<EncodingContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+
+export const DEFAULT_PROFILE_ID = 'medium';
+
+const BUILT_IN_PROFILES: EncodingProfile[] = [
+  {
+    id: 'low',
+    name: 'Low Quality',
+    description: 'Smaller file size, faster processing',
+    height: 480,
+    videoCodec: 'libx264',
+    crf: 28,
+    preset: 'fast',
+    audioCodec: 'aac',
+    audioBitrate: '96k',
+    container: 'mp4',
+    faststart: true,
+  },
+  {
+    id: 'medium',
+    name: 'Medium Quality',
+    description: 'Balanced quality and file size',
+    height: 720,
+    videoCodec: 'libx264',
+    crf: 23,
+    preset: 'medium',
+    audioCodec: 'aac',
+    audioBitrate: '128k',
+    container: 'mp4',
+    faststart: true,
+  },
+  {
+    id: 'high',
+    name: 'High Quality',
+    description: 'Best quality, larger file size',
+    height: 1080,
+    videoCodec: 'libx264',
+    crf: 18,
+    preset: 'slow',
+    audioCodec: 'aac',
+    audioBitrate: '192k',
+    container: 'mp4',
+    faststart: true,
+  },
+];
+
+const profiles = new Map<string, EncodingProfile>(
+  BUILT_IN_PROFILES.map(profile => [profile.id, profile])
+);
+
+/**
+ * Add or replace a profile
+ */
+export function registerEncodingProfile(profile: EncodingProfile): void {
+  profiles.set(profile.id, profile);
+}
+
+/**
+ * Look up a profile, falling back to the default for unknown IDs
+ */
+export function getEncodingProfile(id: string | undefined): EncodingProfile {
+  return (id && profiles.get(id)) || profiles.get(DEFAULT_PROFILE_ID)!;
+}
+
+export function listEncodingProfiles(): EncodingProfile[] {
+  return Array.from(profiles.values());
+}
+
+/**
+ * Short label for the UI, e.g. "720p"
+ */
+export function getResolutionLabel(profile: EncodingProfile): string {
+  return profile.height ? `${profile.height}p` : 'Source';
+}
+
+export function getContainerMimeType(profile: EncodingProfile): string {
+  return CONTAINER_MIME_TYPES[profile.container];
+}
+
+/**
+ * Scale to the profile height, keeping the aspect ratio and never upscaling
+ * smaller sources. Both sides are even for yuv420p, which also catches
+ * window captures with an odd height below the profile's.
+ */
+export function getScaleFilter(profile: EncodingProfile): Filter | null {
+  if (!profile.height) {
+    return null;
+  }
+  return { name: 'scale', args: { w: -2, h: `trunc(min(ih,${profile.height})/2)*2` } };
+}
+
+/**
+ * Encoder output arguments, in the form FFmpeg's CLI expects
+ */
+export function getEncodingArgs(profile: EncodingProfile): string[] {
+  const args = ['-c:v', profile.videoCodec];
+
+  if (profile.videoBitrate) {
+    args.push('-b:v', profile.videoBitrate);
+  } else if (profile.crf !== undefined) {
+    args.push('-crf', String(profile.crf));
+    // VP8/VP9 only treat CRF as a target in constant quality mode
+    if (profile.videoCodec.startsWith('libvpx')) {
+      args.push('-b:v', '0');
+    }
+  }
+
+  if (profile.preset) {
+    args.push('-preset', profile.preset);
+  }
+
+  args.push('-pix_fmt', 'yuv420p', '-c:a', profile.audioCodec, '-b:a', profile.audioBitrate);
+
+  if (profile.faststart && profile.container !== 'webm') {
+    args.push('-movflags', '+faststart');
+  }
+
+  return args;
+}
+
+export type AudioFormat = 'mp3' | 'wav' | 'm4a';
+
+export interface AudioFormatInfo {
+  label: string;
+  codec: string;
+  mimeType: string;
+  lossless: boolean; // Bitrate does not apply
+}
+
+// Formats for audio-only exports, e.g. narration for a podcast or transcription
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  mp3: { label: 'MP3', codec: 'libmp3lame', mimeType: 'audio/mpeg', lossless: false },
+  m4a: { label: 'M4A (AAC)', codec: 'aac', mimeType: 'audio/mp4', lossless: false },
+  wav: { label: 'WAV', codec: 'pcm_s16le', mimeType: 'audio/wav', lossless: true },
+};
+
+export const AUDIO_BITRATES = ['96k', '128k', '192k', '256k', '320k'];
+
+export const DEFAULT_AUDIO_BITRATE = '192k';
+
+export function isAudioFormat(value: unknown): value is AudioFormat {
+  return typeof value === 'string' && value in AUDIO_FORMATS;
+}
+
+/**
+ * Encoder output arguments for an audio-only export, without video
+ */
+export function getAudioEncodingArgs(format: AudioFormat, bitrate: string = DEFAULT_AUDIO_BITRATE): string[] {
+  const info = AUDIO_FORMATS[format];
+  const args = ['-vn', '-c:a', info.codec];
+
+  if (!info.lossless) {
+    args.push('-b:a', bitrate);
+  }
+  if (format === 'm4a') {
+    args.push('-movflags', '+faststart');
+  }
+
+  return args;
+}
+
+// Teams can ship their own profiles, e.g.
+// NEXT_PUBLIC_ENCODING_PROFILES='[{"id":"slides","name":"Slides",...}]'
+const customProfiles = process.env.NEXT_PUBLIC_ENCODING_PROFILES;
+if (customProfiles) {
+  try {
+    for (const profile of JSON.parse(customProfiles) as EncodingProfile[]) {
+      registerEncodingProfile(profile);
+    }
+  } catch (error) {
+    console.warn('Failed to parse NEXT_PUBLIC_ENCODING_PROFILES:', error);
+  }
+}
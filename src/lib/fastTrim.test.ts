@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { planFastTrim, planSmartTrim } from './fastTrim';
+
+describe('planFastTrim', () => {
+  const keyframes = [0, 10, 20, 30];
+
+  it('starts each part on the keyframe before its segment', () => {
+    const plan = planFastTrim([{ start: 2, end: 8 }, { start: 22, end: 28 }], keyframes);
+    expect(plan.parts).toEqual([
+      { start: 0, end: 8, copy: true },
+      { start: 20, end: 28, copy: true },
+    ]);
+    expect(plan.lostCuts).toEqual([]);
+  });
+
+  it('lists a cut inside one GOP that merging puts back', () => {
+    const plan = planFastTrim([{ start: 0, end: 12 }, { start: 15, end: 18 }], keyframes);
+    expect(plan.parts).toEqual([{ start: 0, end: 18, copy: true }]);
+    expect(plan.lostCuts).toEqual([{ start: 12, end: 15 }]);
+  });
+});
+
+describe('planSmartTrim', () => {
+  const keyframes = [0, 10, 20, 30, 40];
+
+  it('re-encodes the partial GOPs around the copied span', () => {
+    expect(planSmartTrim([{ start: 4, end: 33 }], keyframes)).toEqual([
+      { start: 4, end: 10, copy: false },
+      { start: 10, end: 30, copy: true },
+      { start: 30, end: 33, copy: false },
+    ]);
+  });
+
+  it('copies a segment cut exactly on keyframes without re-encoding', () => {
+    expect(planSmartTrim([{ start: 10, end: 30 }], keyframes)).toEqual([{ start: 10, end: 30, copy: true }]);
+  });
+
+  it('treats keyframes within the tolerance as on the cut', () => {
+    expect(planSmartTrim([{ start: 10.005, end: 29.995 }], keyframes)).toEqual([
+      { start: 10.005, end: 30, copy: true },
+    ]);
+  });
+
+  it('re-encodes only the end when the start is on a keyframe', () => {
+    expect(planSmartTrim([{ start: 20, end: 35 }], keyframes)).toEqual([
+      { start: 20, end: 30, copy: true },
+      { start: 30, end: 35, copy: false },
+    ]);
+  });
+
+  it('re-encodes a segment without two keyframes whole', () => {
+    expect(planSmartTrim([{ start: 12, end: 18 }, { start: 15, end: 25 }], keyframes)).toEqual([
+      { start: 12, end: 18, copy: false },
+      { start: 15, end: 25, copy: false },
+    ]);
+    expect(planSmartTrim([{ start: 0, end: 5 }], [])).toEqual([{ start: 0, end: 5, copy: false }]);
+  });
+
+  it('plans each segment on its own', () => {
+    expect(planSmartTrim([{ start: 0, end: 10 }, { start: 25, end: 40 }], keyframes)).toEqual([
+      { start: 0, end: 10, copy: true },
+      { start: 25, end: 30, copy: false },
+      { start: 30, end: 40, copy: true },
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import type { VideoEditOptions } from './ffmpeg';
+import { MIN_RANGE_DURATION, TimeRange } from './timeRanges';
+
+// Trimming without re-encoding. Stream copy can only start a cut on a
+// keyframe, so 'fast' moves each segment start back to the keyframe before
+// it, and 'smart' re-encodes just the partial GOPs at either end of each
+// segment and copies everything between. No Node dependencies, so the
+// editor can plan cuts against keyframes probed on the server.
+
+export type TrimMode = 'reencode' | 'fast' | 'smart';
+
+export const TRIM_MODES: { value: TrimMode; label: string; description: string }[] = [
+  { value: 'reencode', label: 'Re-encode', description: 'Applies every edit and the quality setting' },
+  { value: 'fast', label: 'Fast (no re-encode)', description: 'Lossless and quick; cuts start on the keyframe before each segment' },
+  { value: 'smart', label: 'Smart (frame-accurate)', description: 'Re-encodes only the few seconds around each cut' },
+];
+
+// A stretch of the source that is either copied or re-encoded
+export interface TrimPart extends TimeRange {
+  copy: boolean;
+}
+
+// Keyframe timestamps are rounded in the probe output
+const KEYFRAME_TOLERANCE = 0.01;
+
+/**
+ * Edits other than cuts, which need the filter graph and so a re-encode.
+ * Empty when the edit can be done by stream copy.
+ */
+export function getStreamCopyConflicts(options: VideoEditOptions): string[] {
+  const conflicts: string[] = [];
+  if (options.volume !== 100 || options.normalize) conflicts.push('volume');
+  if (options.fadeIn > 0 || options.fadeOut > 0) conflicts.push('fades');
+  if (options.speed !== 1 || options.speedRanges?.length) conflicts.push('speed');
+  if (options.crop) conflicts.push('crop');
+  if (options.zoomKeyframes?.length) conflicts.push('zoom');
+  if (options.redactions?.length) conflicts.push('redactions');
+  if (options.textOverlays?.length) conflicts.push('text');
+  if (options.watermark) conflicts.push('watermark');
+  if (options.pictureInPicture) conflicts.push('picture-in-picture');
+  if (options.noiseReduction) conflicts.push('noise reduction');
+  if (options.backgroundMusic) conflicts.push('music');
+  if (options.filters?.length) conflicts.push('custom filters');
+  return conflicts;
+}
+
+/**
+ * The keyframe at or before a time, or 0 if there is none
+ */
+export function getKeyframeBefore(keyframes: number[], time: number): number {
+  let found = 0;
+  for (const keyframe of keyframes) {
+    if (keyframe > time + KEYFRAME_TOLERANCE) break;
+    found = keyframe;
+  }
+  return found;
+}
+
+/**
+ * The keyframe nearest to a time, or the time itself if there are none.
+ * Keyframes must be sorted.
+ */
+export function snapToKeyframe(keyframes: number[], time: number): number {
+  let nearest = time;
+  let distance = Infinity;
+  for (const keyframe of keyframes) {
+    const candidate = Math.abs(keyframe - time);
+    if (candidate < distance) {
+      nearest = keyframe;
+      distance = candidate;
+    }
+  }
+  return nearest;
+}
+
+export interface FastTrimPlan {
+  parts: TrimPart[];
+  lostCuts: TimeRange[]; // Cuts between segments that end up back in the output
+}
+
+/**
+ * Parts for a lossless trim: every segment copied from the keyframe
+ * before its start. Segments that now overlap are merged, which puts a
+ * cut shorter than the GOP before the next segment back in; those cuts
+ * are listed so the editor can warn about them.
+ */
+export function planFastTrim(segments: TimeRange[], keyframes: number[]): FastTrimPlan {
+  const parts: TrimPart[] = [];
+  const lostCuts: TimeRange[] = [];
+  let previousEnd = 0;
+
+  for (const segment of segments) {
+    const start = getKeyframeBefore(keyframes, segment.start);
+    const last = parts[parts.length - 1];
+    if (last && start <= last.end) {
+      if (segment.start > previousEnd) {
+        lostCuts.push({ start: previousEnd, end: segment.start });
+      }
+      last.end = Math.max(last.end, segment.end);
+    } else {
+      parts.push({ start, end: segment.end, copy: true });
+    }
+    previousEnd = segment.end;
+  }
+
+  return { parts, lostCuts };
+}
+
+/**
+ * Parts for a frame-accurate trim: within each segment, the span from its
+ * first keyframe to its last is copied, and the partial GOPs before and
+ * after are re-encoded. Segments without two keyframes are re-encoded whole.
+ */
+export function planSmartTrim(segments: TimeRange[], keyframes: number[]): TrimPart[] {
+  const parts: TrimPart[] = [];
+
+  for (const { start, end } of segments) {
+    const inside = keyframes.filter(keyframe =>
+      keyframe >= start - KEYFRAME_TOLERANCE && keyframe <= end + KEYFRAME_TOLERANCE
+    );
+    const first = inside[0];
+    const last = inside[inside.length - 1];
+
+    if (inside.length < 2 || last - first < MIN_RANGE_DURATION) {
+      parts.push({ start, end, copy: false });
+      continue;
+    }
+
+    if (first - start >= MIN_RANGE_DURATION) {
+      parts.push({ start, end: first, copy: false });
+    }
+    parts.push({ start: Math.max(start, first), end: last, copy: true });
+    if (end - last >= MIN_RANGE_DURATION) {
+      parts.push({ start: last, end, copy: false });
+    }
+  }
+
+  return parts;
+}
+
+// Encoders that produce a stream the copied parts can be joined to
+const BOUNDARY_VIDEO_ENCODERS: Record<string, string[]> = {
+  h264: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '18', '-pix_fmt', 'yuv420p'],
+  vp8: ['-c:v', 'libvpx', '-crf', '8', '-b:v', '8M', '-deadline', 'realtime', '-cpu-used', '8'],
+  vp9: ['-c:v', 'libvpx-vp9', '-crf', '24', '-b:v', '0', '-deadline', 'realtime', '-cpu-used', '8', '-row-mt', '1'],
+};
+
+const BOUNDARY_AUDIO_ENCODERS: Record<string, string[]> = {
+  aac: ['-c:a', 'aac', '-b:a', '192k'],
+  opus: ['-c:a', 'libopus', '-b:a', '128k'],
+  vorbis: ['-c:a', 'libvorbis', '-q:a', '6'],
+  mp3: ['-c:a', 'libmp3lame', '-b:a', '192k'],
+};
+
+/**
+ * Encoder arguments matching the source codecs for the re-encoded parts
+ * of a smart trim, or null if they cannot be matched
+ */
+export function getBoundaryEncodingArgs(videoCodec: string, audioCodec?: string): string[] | null {
+  const video = BOUNDARY_VIDEO_ENCODERS[videoCodec];
+  const audio = audioCodec ? BOUNDARY_AUDIO_ENCODERS[audioCodec] : [];
+  if (!video || !audio) {
+    return null;
+  }
+  return [...video, ...audio];
+}
+
+/**
+ * Container for the parts before they are joined. H.264 goes through
+ * MPEG-TS, which repeats the codec headers in-band, so parts encoded with
+ * different settings still join cleanly.
+ */
+export function getTrimPartExtension(videoCodec: string): 'ts' | 'mkv' {
+  return videoCodec === 'h264' ? 'ts' : 'mkv';
+}
+
+/**
+ * Concat demuxer list for the part files, in order
+ */
+export function buildConcatList(fileNames: string[]): string {
+  return fileNames.map(name => `file '${name.replace(/'/g, `'\\''`)}'`).join('\n') + '\n';
+}
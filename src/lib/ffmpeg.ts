@@ -1,7 +1,76 @@
-import ffmpeg from 'fluent-ffmpeg';
+import ffmpeg, { FfmpegCommand } from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
 import ffprobeStatic from 'ffprobe-static';
 import fs from 'fs/promises';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import {
+  addAnimationFrames,
+  addAnimationPalette,
+  BackgroundMusic,
+  buildConcatGraph,
+  buildEditGraph,
+  clampSpeed,
+  CropRect,
+  DetectedEventKind,
+  EditGraphInput,
+  formatFilter,
+  getGraphOutputs,
+  getLoudnormFilters,
+  getTempoFilters,
+  NoiseReductionStrength,
+  parseCropDetectLine,
+  parseDetectedEventLine,
+  PictureInPicture,
+  Redaction,
+  SpeedRange,
+  TextOverlay,
+  Watermark
+} from './filterGraph';
+import type { ZoomKeyframe } from './keyframes';
+import type { OverlayFont } from './fonts';
+import { LOUDNESS_PRESETS, LoudnessMeasurement, LoudnessTarget, parseLoudnormOutput } from './loudness';
+import type { TimeRange } from './timeRanges';
+import { AnimationOptions, getAnimationEncodingArgs } from './animation';
+import {
+  buildSpriteTrack,
+  DEFAULT_SPRITE_OPTIONS,
+  formatSpriteOptions,
+  getSpriteInterval,
+  getSpriteTileHeight,
+  SPRITE_IMAGE_NAME,
+  SPRITE_TRACK_NAME,
+  SpriteOptions,
+  SpriteSheet
+} from './sprites';
+import {
+  buildMasterPlaylist,
+  DEFAULT_HLS_LADDER,
+  getRenditionBandwidth,
+  getVariantCodecs,
+  HLS_SEGMENT_DURATION,
+  HlsManifest,
+  HlsRendition,
+  HlsVariant,
+  INIT_SEGMENT_NAME,
+  MASTER_PLAYLIST_NAME,
+  MEDIA_PLAYLIST_NAME,
+  parseMediaPlaylist,
+  selectRenditions
+} from './hls';
+import {
+  AudioFormat,
+  EncodingProfileId,
+  getAudioEncodingArgs,
+  getEncodingArgs,
+  getEncodingProfile,
+  getScaleFilter
+} from './encodingProfiles';
+
+// Bundled fonts for text overlays, so output does not depend on system fonts
+const FONT_DIR = path.join(process.cwd(), 'public', 'fonts');
 
 // Set FFmpeg and FFprobe paths with fallback
 try {
@@ -26,17 +95,77 @@ try {
   console.warn('Failed to set FFmpeg/FFprobe paths:', error);
 }
 
+// For probes fluent-ffmpeg cannot express, such as listing packets
+const FFPROBE_PATH = ffprobeStatic?.path ? ffprobeStatic.path.replace(/\\/g, '/') : 'ffprobe';
+const execFileAsync = promisify(execFile);
+
 export interface VideoEditOptions {
   startTime: number; // in seconds
   endTime: number; // in seconds
   volume: number; // 0-200 (percentage)
   fadeIn: number; // in seconds
   fadeOut: number; // in seconds
-  speed: number; // 0.5-2.0
-  quality: 'low' | 'medium' | 'high';
+  speed: number; // MIN_SPEED-MAX_SPEED (0.25-16); audio is muted above 4x
+  quality: EncodingProfileId; // See encodingProfiles.ts
   filters?: string[]; // Custom FFmpeg filters
+  segments?: TimeRange[]; // Keep-list in seconds; overrides startTime/endTime when set
+  speedRanges?: SpeedRange[]; // Source ranges played at their own speed, on top of speed
+  crop?: CropRect; // Region of the source frame to keep, applied before scaling
+  redactions?: Redaction[]; // Blurred or pixelated regions, in source pixels and time
+  textOverlays?: TextOverlay[]; // Captions and title cards, in source time
+  watermark?: Watermark; // Needs the image passed as ProcessAssets.watermarkPath
+  pictureInPicture?: PictureInPicture; // Needs the video passed as ProcessAssets.pipPath
+  zoomKeyframes?: ZoomKeyframe[]; // Zoom and pan, in source time and cropped-frame pixels
+  normalize?: LoudnessTarget; // Two-pass loudnorm to this target; replaces volume
+  noiseReduction?: NoiseReductionStrength; // Cleans the main audio before mixing
+  backgroundMusic?: BackgroundMusic; // Needs the audio passed as ProcessAssets.musicPath
+}
+
+export interface ConcatOptions {
+  quality: EncodingProfileId;
+  crossfade?: number; // Transition length in seconds between clips, 0 for a hard cut
+  transition?: string; // xfade transition name, e.g. 'fade', 'wipeleft'
+}
+
+// Local files for edits that reference other media
+export interface ProcessAssets {
+  watermarkPath?: string;
+  pipPath?: string;
+  musicPath?: string;
+}
+
+export interface ExtractAudioOptions {
+  format: AudioFormat;
+  bitrate?: string; // e.g. '192k'; ignored for lossless formats
+  edit?: VideoEditOptions; // Apply these edits instead of copying the whole track
 }
 
+export interface DetectCropOptions {
+  sampleDuration?: number; // Seconds of video to analyse
+  limit?: number; // Black threshold for cropdetect, 0-255
+}
+
+export interface DetectSilenceOptions {
+  threshold?: number; // Noise level in dB below which audio counts as silence
+  minDuration?: number; // Shortest pause reported, in seconds
+}
+
+export interface DetectIdleOptions {
+  noise?: number; // Frame difference in dB below which the screen counts as unchanged
+  minDuration?: number; // Shortest idle stretch reported, in seconds
+}
+
+// Share of processVideo progress taken by the loudness measuring pass,
+// which only decodes and filters the audio
+const MEASURE_PROGRESS_SHARE = 10;
+
+// Share of a GIF export's progress taken by the palette pass
+const PALETTE_PROGRESS_SHARE = 40;
+
+// Width frames are scaled down to before idle detection; small changes
+// such as a blinking cursor mostly disappear at this size
+const IDLE_ANALYSIS_WIDTH = 640;
+
 export interface VideoInfo {
   duration: number;
   width: number;
@@ -44,12 +173,41 @@ export interface VideoInfo {
   fps: number;
   bitrate: number;
   codec: string;
+  hasAudio: boolean;
+}
+
+export interface ProcessProgress {
+  percent: number; // 0-100, relative to the expected output duration
+  timemark: string; // HH:MM:SS.xx position in the output
+  frames: number;
+  fps: number; // frames encoded per second
+  speed: number; // encoding speed relative to realtime, e.g. 2.5 for 2.5x
+}
+
+export interface FFmpegEditorEvents {
+  start: [commandLine: string];
+  progress: [progress: ProcessProgress];
+  stderr: [line: string];
+}
+
+export interface RunOptions {
+  signal?: AbortSignal; // Aborting kills the FFmpeg child process
 }
 
-export class FFmpegVideoEditor {
+/**
+ * Convert an FFmpeg timemark (HH:MM:SS.xx) to seconds
+ */
+export function parseTimemark(timemark: string): number {
+  return timemark
+    .split(':')
+    .reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+}
+
+export class FFmpegVideoEditor extends EventEmitter<FFmpegEditorEvents> {
   private tempDir: string;
 
   constructor(tempDir: string = './temp') {
+    super();
     this.tempDir = tempDir;
   }
 
@@ -68,7 +226,8 @@ export class FFmpegVideoEditor {
             height: 1080,
             fps: 30,
             bitrate: 1000000,
-            codec: 'unknown'
+            codec: 'unknown',
+            hasAudio: true // Assume the recording has sound rather than drop it
           });
           return;
         }
@@ -85,12 +244,64 @@ export class FFmpegVideoEditor {
           height: videoStream.height || 0,
           fps: eval(videoStream.r_frame_rate || '0'),
           bitrate: parseInt(String(metadata.format.bit_rate || '0')),
-          codec: videoStream.codec_name || 'unknown'
+          codec: videoStream.codec_name || 'unknown',
+          hasAudio: metadata.streams.some(stream => stream.codec_type === 'audio')
         });
       });
     });
   }
 
+  /**
+   * Keyframe timestamps of the first video stream in seconds, sorted.
+   * Packets are listed without decoding, so this is quick even for long
+   * recordings.
+   */
+  async getKeyframes(inputPath: string, { signal }: RunOptions = {}): Promise<number[]> {
+    const { stdout } = await execFileAsync(FFPROBE_PATH, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'packet=pts_time,flags',
+      '-of', 'csv=p=0',
+      inputPath
+    ], { signal, maxBuffer: 64 * 1024 * 1024 });
+
+    // One "pts_time,flags" line per packet, e.g. "12.345000,K__"
+    const keyframes = new Set<number>();
+    for (const line of stdout.split('\n')) {
+      const [time, flags] = line.trim().split(',');
+      const seconds = parseFloat(time);
+      if (flags?.startsWith('K') && Number.isFinite(seconds)) {
+        keyframes.add(Math.round(seconds * 1000) / 1000);
+      }
+    }
+    return [...keyframes].sort((a, b) => a - b);
+  }
+
+  /**
+   * Length of the first video stream in seconds, read from its last packet.
+   * For files whose header has no duration, as MediaRecorder WebM often
+   * does; packets are listed without decoding. 0 if there are none.
+   */
+  async getStreamDuration(inputPath: string, { signal }: RunOptions = {}): Promise<number> {
+    const { stdout } = await execFileAsync(FFPROBE_PATH, [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'packet=pts_time,duration_time',
+      '-of', 'csv=p=0',
+      inputPath
+    ], { signal, maxBuffer: 64 * 1024 * 1024 });
+
+    // One "pts_time,duration_time" line per packet; either may be N/A
+    let end = 0;
+    for (const line of stdout.split('\n')) {
+      const [time, duration] = line.trim().split(',').map(parseFloat);
+      if (Number.isFinite(time)) {
+        end = Math.max(end, time + (Number.isFinite(duration) ? duration : 0));
+      }
+    }
+    return Math.round(end * 1000) / 1000;
+  }
+
   /**
    * Trim video to specified time range
    */
@@ -100,15 +311,12 @@ export class FFmpegVideoEditor {
     startTime: number,
     endTime: number
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      ffmpeg(inputPath)
-        .seekInput(startTime)
-        .duration(endTime - startTime)
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    const command = ffmpeg(inputPath)
+      .seekInput(startTime)
+      .duration(endTime - startTime)
+      .output(outputPath);
+
+    return this.run(command, endTime - startTime);
   }
 
   /**
@@ -119,16 +327,13 @@ export class FFmpegVideoEditor {
     outputPath: string,
     volume: number
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const volumeMultiplier = volume / 100;
-      
-      ffmpeg(inputPath)
-        .audioFilters(`volume=${volumeMultiplier}`)
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    const volumeMultiplier = volume / 100;
+    
+    const command = ffmpeg(inputPath)
+      .audioFilters(`volume=${volumeMultiplier}`)
+      .output(outputPath);
+
+    return this.run(command);
   }
 
   /**
@@ -141,30 +346,24 @@ export class FFmpegVideoEditor {
     fadeOut: number,
     duration: number
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const filters = [];
-      
-      if (fadeIn > 0) {
-        filters.push(`fade=t=in:st=0:d=${fadeIn}`);
-      }
-      
-      if (fadeOut > 0) {
-        const fadeOutStart = duration - fadeOut;
-        filters.push(`fade=t=out:st=${fadeOutStart}:d=${fadeOut}`);
-      }
+    const filters = [];
+    
+    if (fadeIn > 0) {
+      filters.push(`fade=t=in:st=0:d=${fadeIn}`);
+    }
+    
+    if (fadeOut > 0) {
+      const fadeOutStart = duration - fadeOut;
+      filters.push(`fade=t=out:st=${fadeOutStart}:d=${fadeOut}`);
+    }
 
-      let command = ffmpeg(inputPath);
-      
-      if (filters.length > 0) {
-        command = command.videoFilters(filters);
-      }
-      
-      command
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    let command = ffmpeg(inputPath);
+    
+    if (filters.length > 0) {
+      command = command.videoFilters(filters);
+    }
+
+    return this.run(command.output(outputPath), duration);
   }
 
   /**
@@ -175,15 +374,13 @@ export class FFmpegVideoEditor {
     outputPath: string,
     speed: number
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      ffmpeg(inputPath)
-        .videoFilters(`setpts=${1/speed}*PTS`)
-        .audioFilters(`atempo=${speed}`)
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    const clamped = clampSpeed(speed);
+    const command = ffmpeg(inputPath)
+      .videoFilters(formatFilter({ name: 'setpts', args: [`PTS/${clamped}`] }))
+      .audioFilters(getTempoFilters(clamped).map(formatFilter))
+      .output(outputPath);
+
+    return this.run(command);
   }
 
   /**
@@ -192,29 +389,22 @@ export class FFmpegVideoEditor {
   async applyQuality(
     inputPath: string,
     outputPath: string,
-    quality: 'low' | 'medium' | 'high'
+    quality: EncodingProfileId
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const qualitySettings = {
-        low: { crf: 28, preset: 'fast' },
-        medium: { crf: 23, preset: 'medium' },
-        high: { crf: 18, preset: 'slow' }
-      };
+    const profile = getEncodingProfile(quality);
+    const scale = getScaleFilter(profile);
 
-      const settings = qualitySettings[quality];
+    let command = ffmpeg(inputPath);
 
-      ffmpeg(inputPath)
-        .videoCodec('libx264')
-        .addOptions([
-          `-crf ${settings.crf}`,
-          `-preset ${settings.preset}`,
-          '-movflags +faststart'
-        ])
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    if (scale) {
+      command = command.videoFilters(formatFilter(scale));
+    }
+
+    command = command
+      .outputOptions(getEncodingArgs(profile))
+      .output(outputPath);
+
+    return this.run(command);
   }
 
   /**
@@ -223,67 +413,338 @@ export class FFmpegVideoEditor {
   async processVideo(
     inputPath: string,
     outputPath: string,
-    options: VideoEditOptions
+    options: VideoEditOptions,
+    runOptions: RunOptions = {},
+    assets: ProcessAssets = {}
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let command = ffmpeg(inputPath);
+    // Encode with the selected profile; scaling is already in the graph
+    const outputArgs = getEncodingArgs(getEncodingProfile(options.quality));
+    return this.runEdit(inputPath, outputPath, options, outputArgs, false, runOptions, assets);
+  }
 
-      // Apply trimming
-      if (options.startTime > 0 || options.endTime > 0) {
-        command = command.seekInput(options.startTime);
-        if (options.endTime > options.startTime) {
-          command = command.duration(options.endTime - options.startTime);
-        }
-      }
+  /**
+   * Save the audio track on its own. With edit options the cuts, speed
+   * changes and audio edits are applied, and everything that only affects
+   * the picture is skipped.
+   */
+  async extractAudio(
+    inputPath: string,
+    outputPath: string,
+    { format, bitrate, edit }: ExtractAudioOptions,
+    runOptions: RunOptions = {},
+    assets: ProcessAssets = {}
+  ): Promise<void> {
+    const outputArgs = getAudioEncodingArgs(format, bitrate);
+
+    if (edit) {
+      return this.runEdit(inputPath, outputPath, edit, outputArgs, true, runOptions, assets);
+    }
+
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    if (!info.hasAudio) {
+      throw new Error('Video has no audio');
+    }
+
+    const command = ffmpeg(inputPath)
+      .outputOptions(outputArgs)
+      .output(outputPath);
+
+    return this.run(command, info.duration, runOptions);
+  }
+
+  /**
+   * Export the edit as an animated GIF or WebP without sound. GIFs take
+   * two passes: the first builds a palette from the whole clip, the second
+   * maps every frame onto it.
+   */
+  async exportAnimation(
+    inputPath: string,
+    outputPath: string,
+    options: VideoEditOptions,
+    animation: AnimationOptions,
+    runOptions: RunOptions = {},
+    assets: ProcessAssets = {}
+  ): Promise<void> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    // Only the picture is mapped, so nothing may feed an audio chain, and
+    // the animation sets the size rather than the quality profile
+    const silent: VideoEditOptions = { ...options, normalize: undefined, backgroundMusic: undefined };
+    const graphInput: EditGraphInput = { ...info, hasAudio: false, keepSize: true };
+    const inputs = await this.addEditInputs(inputPath, silent, graphInput, assets);
+    let { command } = inputs;
+    const resolveFontFile = (font: OverlayFont) => path.join(FONT_DIR, font.file);
+
+    let paletteInput: string | undefined;
+    let progressRange: [number, number] = [0, 100];
+    const palettePath = `${outputPath}.palette.png`;
 
-      // Apply volume adjustment
-      if (options.volume !== 100) {
-        const volumeMultiplier = options.volume / 100;
-        command = command.audioFilters(`volume=${volumeMultiplier}`);
+    try {
+      if (animation.format === 'gif') {
+        const pass = buildEditGraph(silent, graphInput, resolveFontFile);
+        const palette = addAnimationPalette(pass.graph, pass.videoOutput!, animation, pass.graph.label('palette'));
+        const paletteCommand = command
+          .clone()
+          .complexFilter(pass.graph.toString(), [palette])
+          .outputOptions(['-update', '1'])
+          .output(palettePath);
+        await this.run(paletteCommand, pass.duration, runOptions, [0, PALETTE_PROGRESS_SHARE]);
+
+        command = command.input(palettePath);
+        paletteInput = `${inputs.inputCount}:v`;
+        progressRange = [PALETTE_PROGRESS_SHARE, 100];
       }
 
-      // Apply fade effects
-      const filters = [];
-      if (options.fadeIn > 0) {
-        filters.push(`fade=t=in:st=0:d=${options.fadeIn}`);
+      const edit = buildEditGraph(silent, graphInput, resolveFontFile);
+      const frames = addAnimationFrames(edit.graph, edit.videoOutput!, animation, paletteInput, edit.graph.label('anim'));
+      command = command
+        .complexFilter(edit.graph.toString(), [frames])
+        .outputOptions(getAnimationEncodingArgs(animation))
+        .output(outputPath);
+
+      await this.run(command, edit.duration, runOptions, progressRange);
+    } finally {
+      if (paletteInput) {
+        await this.cleanup([palettePath]);
       }
-      if (options.fadeOut > 0) {
-        // We need to get duration first, but for now use a large number
-        filters.push(`fade=t=out:st=0:d=${options.fadeOut}`);
+    }
+  }
+
+  /**
+   * Package the video for adaptive streaming: one fragmented MP4 HLS
+   * rendition per rung of the ladder that fits the source, each in its
+   * own directory under outputDir, and a master playlist listing them.
+   * Renditions are encoded one after another, sharing the progress range.
+   */
+  async packageHls(
+    inputPath: string,
+    outputDir: string,
+    ladder: HlsRendition[] = DEFAULT_HLS_LADDER,
+    runOptions: RunOptions = {}
+  ): Promise<HlsManifest> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    const renditions = selectRenditions(ladder, info.height);
+    if (renditions.length === 0) {
+      throw new Error('No renditions to package');
+    }
+
+    const variants: HlsVariant[] = [];
+    const share = 100 / renditions.length;
+
+    for (const [index, rendition] of renditions.entries()) {
+      const renditionDir = path.join(outputDir, rendition.name);
+      await fs.mkdir(renditionDir, { recursive: true });
+
+      const maxrate = Math.round(rendition.videoBitrate * 1.1);
+      const outputArgs = [
+        '-map', '0:v:0',
+        '-vf', formatFilter({ name: 'scale', args: { w: -2, h: rendition.height } }),
+        '-c:v', 'libx264',
+        '-profile:v', 'main',
+        '-level:v', '4.0',
+        '-preset', 'veryfast',
+        '-pix_fmt', 'yuv420p',
+        '-b:v', `${rendition.videoBitrate}k`,
+        '-maxrate', `${maxrate}k`,
+        '-bufsize', `${rendition.videoBitrate * 2}k`,
+        // Keyframes on segment boundaries in every rendition
+        '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_DURATION})`,
+        '-sc_threshold', '0',
+      ];
+      if (info.hasAudio) {
+        outputArgs.push('-map', '0:a:0', '-c:a', 'aac', '-b:a', `${rendition.audioBitrate}k`, '-ac', '2', '-ar', '48000');
       }
+      outputArgs.push(
+        '-f', 'hls',
+        '-hls_time', String(HLS_SEGMENT_DURATION),
+        '-hls_playlist_type', 'vod',
+        '-hls_segment_type', 'fmp4',
+        '-hls_flags', 'independent_segments',
+        '-hls_fmp4_init_filename', INIT_SEGMENT_NAME,
+        '-hls_segment_filename', path.join(renditionDir, 'segment_%05d.m4s')
+      );
+
+      const command = ffmpeg(inputPath)
+        .outputOptions(outputArgs)
+        .output(path.join(renditionDir, MEDIA_PLAYLIST_NAME));
+      await this.run(command, info.duration, runOptions, [index * share, (index + 1) * share]);
 
-      if (filters.length > 0) {
-        command = command.videoFilters(filters);
+      variants.push({
+        name: rendition.name,
+        uri: `${rendition.name}/${MEDIA_PLAYLIST_NAME}`,
+        bandwidth: getRenditionBandwidth({ ...rendition, videoBitrate: maxrate }, info.hasAudio),
+        width: info.height > 0 ? Math.round(rendition.height * info.width / info.height / 2) * 2 : 0,
+        height: rendition.height,
+        codecs: getVariantCodecs(info.hasAudio),
+      });
+    }
+
+    await fs.writeFile(path.join(outputDir, MASTER_PLAYLIST_NAME), buildMasterPlaylist(variants));
+
+    // WebM recordings often have no duration in the header; the playlist knows
+    const playlist = await fs.readFile(path.join(outputDir, variants[0].uri), 'utf8');
+    return {
+      variants,
+      duration: parseMediaPlaylist(playlist).duration || info.duration,
+      width: info.width,
+      height: info.height,
+      hasAudio: info.hasAudio,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Join several videos in order into one. Inputs may differ in
+   * resolution, frame rate and codec; they are normalized to a common
+   * format before joining.
+   */
+  async concatVideos(
+    inputPaths: string[],
+    outputPath: string,
+    options: ConcatOptions,
+    runOptions: RunOptions = {}
+  ): Promise<void> {
+    if (inputPaths.length === 0) {
+      throw new Error('No videos to concatenate');
+    }
+
+    // Silence for clips without sound and crossfade offsets both need
+    // every clip's length, so clips without one in the header are measured
+    const infos = [];
+    for (const [index, inputPath] of inputPaths.entries()) {
+      const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+      if (info.duration <= 0) {
+        throw new Error(`Could not determine the length of video ${index + 1}`);
       }
+      infos.push(info);
+    }
+
+    const concat = buildConcatGraph(infos, options);
 
-      // Apply speed change
-      if (options.speed !== 1) {
-        command = command
-          .videoFilters(`setpts=${1/options.speed}*PTS`)
-          .audioFilters(`atempo=${options.speed}`);
+    let command = ffmpeg();
+    for (const inputPath of inputPaths) {
+      command = command.input(inputPath);
+    }
+
+    command = command
+      .complexFilter(concat.graph.toString(), getGraphOutputs(concat))
+      .outputOptions(getEncodingArgs(getEncodingProfile(options.quality)))
+      .output(outputPath);
+
+    return this.run(command, concat.duration, runOptions);
+  }
+
+  /**
+   * Find black borders with cropdetect. Returns the rectangle reported
+   * most often over the sampled frames, or null if nothing can be cropped.
+   */
+  async detectCrop(
+    inputPath: string,
+    { sampleDuration = 10, limit = 24 }: DetectCropOptions = {},
+    runOptions: RunOptions = {}
+  ): Promise<CropRect | null> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    const counts = new Map<string, { crop: CropRect; count: number }>();
+
+    // Skip the first second, which is often a fade or a blank frame
+    const command = ffmpeg(inputPath)
+      .seekInput(info.duration > sampleDuration + 1 ? 1 : 0)
+      .duration(sampleDuration)
+      .videoFilters(`cropdetect=limit=${limit}:round=2:reset=0`)
+      .noAudio()
+      .format('null')
+      .output('-')
+      .on('stderr', (line: string) => {
+        const crop = parseCropDetectLine(line);
+        if (!crop) return;
+        const key = `${crop.width}:${crop.height}:${crop.x}:${crop.y}`;
+        const entry = counts.get(key) || { crop, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      });
+
+    await this.run(command, Math.min(sampleDuration, info.duration), runOptions);
+
+    let best: { crop: CropRect; count: number } | null = null;
+    for (const entry of counts.values()) {
+      if (!best || entry.count > best.count) {
+        best = entry;
       }
+    }
 
-      // Apply quality settings
-      const qualitySettings = {
-        low: { crf: 28, preset: 'fast' },
-        medium: { crf: 23, preset: 'medium' },
-        high: { crf: 18, preset: 'slow' }
-      };
+    // A crop covering the whole frame means there are no borders
+    if (!best || (best.crop.width >= info.width && best.crop.height >= info.height)) {
+      return null;
+    }
+    return best.crop;
+  }
 
-      const settings = qualitySettings[options.quality];
+  /**
+   * Find pauses in the audio with silencedetect. Returns the silent
+   * ranges in source time; a video without audio has none.
+   */
+  async detectSilence(
+    inputPath: string,
+    { threshold = -35, minDuration = 1 }: DetectSilenceOptions = {},
+    runOptions: RunOptions = {}
+  ): Promise<TimeRange[]> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    if (!info.hasAudio) {
+      return [];
+    }
 
-      command
-        .videoCodec('libx264')
-        .addOptions([
-          `-crf ${settings.crf}`,
-          `-preset ${settings.preset}`,
-          '-movflags +faststart'
-        ])
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    const command = ffmpeg(inputPath)
+      .audioFilters(formatFilter({ name: 'silencedetect', args: { noise: `${threshold}dB`, d: minDuration } }))
+      .noVideo()
+      .format('null')
+      .output('-');
+
+    return this.detectRanges(command, 'silence', info.duration, runOptions);
+  }
+
+  /**
+   * Find stretches where the picture does not change with freezedetect,
+   * e.g. waiting for a build. Returns the idle ranges in source time.
+   */
+  async detectIdle(
+    inputPath: string,
+    { noise = -50, minDuration = 3 }: DetectIdleOptions = {},
+    runOptions: RunOptions = {}
+  ): Promise<TimeRange[]> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+
+    const command = ffmpeg(inputPath)
+      .videoFilters([
+        formatFilter({ name: 'scale', args: { w: `min(iw,${IDLE_ANALYSIS_WIDTH})`, h: -2 } }),
+        formatFilter({ name: 'freezedetect', args: { n: `${noise}dB`, d: minDuration } }),
+      ])
+      .noAudio()
+      .format('null')
+      .output('-');
+
+    return this.detectRanges(command, 'freeze', info.duration, runOptions);
+  }
+
+  /**
+   * Measure the loudness of the source audio with loudnorm. Returns null
+   * for a video without audio or with silent audio.
+   */
+  async measureLoudness(
+    inputPath: string,
+    runOptions: RunOptions = {}
+  ): Promise<LoudnessMeasurement | null> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    if (!info.hasAudio) {
+      return null;
+    }
+
+    // The target only changes loudnorm's output, not what it measures
+    const command = ffmpeg(inputPath)
+      .audioFilters(getLoudnormFilters(LOUDNESS_PRESETS.broadcast.target).map(formatFilter))
+      .noVideo()
+      .format('null')
+      .output('-');
+
+    return this.collectLoudness(command, info.duration, runOptions);
   }
 
   /**
@@ -294,15 +755,81 @@ export class FFmpegVideoEditor {
     outputPath: string,
     timeOffset: number = 1
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      ffmpeg(inputPath)
-        .seekInput(timeOffset)
-        .frames(1)
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
-        .run();
-    });
+    const command = ffmpeg(inputPath)
+      .seekInput(timeOffset)
+      .frames(1)
+      .output(outputPath);
+
+    return this.run(command);
+  }
+
+  /**
+   * Generate a thumbnail sprite sheet and its WebVTT track in outputDir:
+   * one tile every interval seconds, tiled into a single JPEG. Frames are
+   * extracted first and tiled once their number is known, since WebM
+   * recordings often have no duration in the header. knownDuration (for
+   * example from Drive) is used when FFprobe finds none.
+   */
+  async generateSprites(
+    inputPath: string,
+    outputDir: string,
+    options: Partial<SpriteOptions> = {},
+    knownDuration: number = 0,
+    runOptions: RunOptions = {}
+  ): Promise<SpriteSheet> {
+    const { tileWidth, columns, ...rest } = { ...DEFAULT_SPRITE_OPTIONS, ...options };
+    const info = await this.getVideoInfo(inputPath);
+    const duration = info.duration || knownDuration;
+    const interval = rest.interval || getSpriteInterval(duration);
+    const tileHeight = getSpriteTileHeight(tileWidth, info.width, info.height);
+
+    const framesDir = path.join(outputDir, 'frames');
+    await fs.mkdir(framesDir, { recursive: true });
+
+    try {
+      const extract = ffmpeg(inputPath)
+        .videoFilters([
+          formatFilter({ name: 'fps', args: { fps: `1/${interval}` } }),
+          formatFilter({ name: 'scale', args: { w: tileWidth, h: tileHeight } }),
+        ])
+        .noAudio()
+        .outputOptions(['-q:v', '3'])
+        .output(path.join(framesDir, 'frame_%05d.jpg'));
+      await this.run(extract, duration, runOptions, [0, 90]);
+
+      const count = (await fs.readdir(framesDir)).filter(name => name.endsWith('.jpg')).length;
+      if (count === 0) {
+        throw new Error('No frames found for the sprite sheet');
+      }
+
+      const rows = Math.ceil(count / columns);
+      const tile = ffmpeg(path.join(framesDir, 'frame_%05d.jpg'))
+        .inputOptions(['-framerate', '1'])
+        .outputOptions([
+          '-vf', formatFilter({ name: 'tile', args: { layout: `${columns}x${rows}` } }),
+          '-frames:v', '1',
+          '-q:v', '5',
+        ])
+        .output(path.join(outputDir, SPRITE_IMAGE_NAME));
+      await this.run(tile, 0, runOptions, [90, 100]);
+
+      const sheet: SpriteSheet = {
+        interval,
+        columns,
+        rows,
+        count,
+        tileWidth,
+        tileHeight,
+        duration: duration || count * interval,
+        createdAt: new Date().toISOString(),
+      };
+      // The image is served from the cache of the options it was made with
+      const imageUri = `${SPRITE_IMAGE_NAME}?${formatSpriteOptions({ interval: rest.interval, tileWidth, columns })}`;
+      await fs.writeFile(path.join(outputDir, SPRITE_TRACK_NAME), buildSpriteTrack(sheet, imageUri));
+      return sheet;
+    } finally {
+      await fs.rm(framesDir, { recursive: true, force: true });
+    }
   }
 
   /**
@@ -312,13 +839,235 @@ export class FFmpegVideoEditor {
     inputPath: string,
     outputPath: string,
     format: 'mp4' | 'webm' | 'avi' | 'mov'
+  ): Promise<void> {
+    const command = ffmpeg(inputPath)
+      .format(format)
+      .output(outputPath);
+
+    return this.run(command);
+  }
+
+  /**
+   * getVideoInfo, measuring the duration from the packets when the header
+   * has none. Edits need it to place fade-outs, end looped music and
+   * report progress, detection to close a range still open at the end and
+   * to pick where to sample, and packaging to report progress.
+   */
+  private async getMeasuredVideoInfo(inputPath: string, runOptions: RunOptions = {}): Promise<VideoInfo> {
+    const info = await this.getVideoInfo(inputPath);
+    if (info.duration <= 0) {
+      info.duration = await this.getStreamDuration(inputPath, runOptions);
+    }
+    return info;
+  }
+
+  /**
+   * Build and run the filter graph for an edit, with the extra inputs it
+   * refers to. Loudness normalization adds a measuring pass first.
+   */
+  private async runEdit(
+    inputPath: string,
+    outputPath: string,
+    options: VideoEditOptions,
+    outputArgs: string[],
+    audioOnly: boolean,
+    runOptions: RunOptions,
+    assets: ProcessAssets
+  ): Promise<void> {
+    const info = await this.getMeasuredVideoInfo(inputPath, runOptions);
+    if (audioOnly && !info.hasAudio && !(options.backgroundMusic && assets.musicPath)) {
+      throw new Error('Video has no audio');
+    }
+
+    const graphInput: EditGraphInput = { ...info, audioOnly };
+    let { command } = await this.addEditInputs(inputPath, options, graphInput, assets);
+
+    const resolveFontFile = (font: OverlayFont) => path.join(FONT_DIR, font.file);
+    let progressRange: [number, number] = [0, 100];
+
+    // First pass: run the audio side of the edit without encoding to
+    // measure the loudness of the audio as it will come out. The picture
+    // does not change it, so its filters are left out.
+    if (options.normalize && (info.hasAudio || graphInput.musicInput)) {
+      const measure = buildEditGraph(options, { ...graphInput, audioOnly: true }, resolveFontFile);
+      const measureCommand = command
+        .clone()
+        .complexFilter(measure.graph.toString(), getGraphOutputs(measure))
+        .format('null')
+        .output('-');
+      graphInput.loudness = await this.collectLoudness(
+        measureCommand,
+        measure.duration,
+        runOptions,
+        [0, MEASURE_PROGRESS_SHARE]
+      ) ?? undefined;
+      if (!graphInput.loudness) {
+        console.warn('Could not measure loudness, normalizing in a single pass');
+      }
+      progressRange = [MEASURE_PROGRESS_SHARE, 100];
+    }
+
+    // Trim, speed, volume and fades are composed into a single filter graph
+    const edit = buildEditGraph(options, graphInput, resolveFontFile);
+
+    command = command
+      .complexFilter(edit.graph.toString(), getGraphOutputs(edit))
+      .outputOptions(outputArgs)
+      .output(outputPath);
+
+    return this.run(command, edit.duration, runOptions, progressRange);
+  }
+
+  /**
+   * Open the source and the extra inputs an edit refers to, filling in
+   * their stream labels on graphInput
+   */
+  private async addEditInputs(
+    inputPath: string,
+    options: VideoEditOptions,
+    graphInput: EditGraphInput,
+    assets: ProcessAssets
+  ): Promise<{ command: FfmpegCommand; inputCount: number }> {
+    let command = ffmpeg(inputPath);
+    let inputCount = 1;
+    const { audioOnly } = graphInput;
+
+    if (options.watermark && assets.watermarkPath && !audioOnly) {
+      command = command.input(assets.watermarkPath).inputOptions(['-loop', '1']);
+      graphInput.watermarkInput = `${inputCount++}:v`;
+    } else if (options.watermark && !audioOnly) {
+      console.warn('Watermark requested without an image, skipping it');
+    }
+
+    if (options.pictureInPicture && assets.pipPath) {
+      const pipInfo = await this.getVideoInfo(assets.pipPath);
+      command = command.input(assets.pipPath);
+      graphInput.pipInput = `${inputCount}:v`;
+      graphInput.pipAudioInput = pipInfo.hasAudio ? `${inputCount}:a` : undefined;
+      inputCount++;
+    } else if (options.pictureInPicture) {
+      console.warn('Picture-in-picture requested without a video, skipping it');
+    }
+
+    if (options.backgroundMusic && assets.musicPath) {
+      command = command.input(assets.musicPath);
+      if (options.backgroundMusic.loop) {
+        command = command.inputOptions(['-stream_loop', '-1']);
+      }
+      graphInput.musicInput = `${inputCount++}:a`;
+    } else if (options.backgroundMusic) {
+      console.warn('Background music requested without an audio file, skipping it');
+    }
+
+    return { command, inputCount };
+  }
+
+  /**
+   * Run an analysis command and pair up the start and end lines its
+   * detect filter logs. A range still open at the end runs to the end of
+   * the input.
+   */
+  private async detectRanges(
+    command: FfmpegCommand,
+    kind: DetectedEventKind,
+    duration: number,
+    runOptions: RunOptions
+  ): Promise<TimeRange[]> {
+    const ranges: TimeRange[] = [];
+    let start: number | null = null;
+
+    command.on('stderr', (line: string) => {
+      const event = parseDetectedEventLine(line, kind);
+      if (!event) return;
+      if (event.boundary === 'start') {
+        start = event.time;
+      } else if (start !== null) {
+        ranges.push({ start, end: event.time });
+        start = null;
+      }
+    });
+
+    await this.run(command, duration, runOptions);
+
+    if (start !== null && duration > start) {
+      ranges.push({ start, end: duration });
+    }
+    return ranges;
+  }
+
+  /**
+   * Run a command with a first-pass loudnorm in it and parse the
+   * measurement it prints when it finishes
+   */
+  private async collectLoudness(
+    command: FfmpegCommand,
+    duration: number,
+    runOptions: RunOptions,
+    progressRange?: [number, number]
+  ): Promise<LoudnessMeasurement | null> {
+    const lines: string[] = [];
+    command.on('stderr', (line: string) => lines.push(line));
+
+    await this.run(command, duration, runOptions, progressRange);
+    return parseLoudnormOutput(lines.join('\n'));
+  }
+
+  /**
+   * Run a prepared command, re-emitting its start, progress and stderr
+   * events on the editor. Progress percent is measured against
+   * outputDuration when known, since FFmpeg only knows the input length,
+   * and mapped into progressRange when a job runs several commands.
+   */
+  private run(
+    command: FfmpegCommand,
+    outputDuration: number = 0,
+    { signal }: RunOptions = {},
+    [progressStart, progressEnd]: [number, number] = [0, 100]
   ): Promise<void> {
     return new Promise((resolve, reject) => {
-      ffmpeg(inputPath)
-        .format(format)
-        .output(outputPath)
-        .on('end', () => resolve())
-        .on('error', (err) => reject(err))
+      if (signal?.aborted) {
+        reject(new Error('Processing cancelled'));
+        return;
+      }
+
+      // FFmpeg reports speed on the progress line but fluent-ffmpeg drops it
+      let speed = 0;
+
+      const handleAbort = () => command.kill('SIGKILL');
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      command
+        .on('start', (commandLine) => this.emit('start', commandLine))
+        .on('stderr', (line) => {
+          const match = line.match(/speed=\s*([\d.]+)x/);
+          if (match) {
+            speed = parseFloat(match[1]);
+          }
+          this.emit('stderr', line);
+        })
+        .on('progress', (progress) => {
+          const elapsed = parseTimemark(progress.timemark || '0');
+          const percent = outputDuration > 0
+            ? (elapsed / outputDuration) * 100
+            : progress.percent || 0;
+
+          const clamped = Math.max(0, Math.min(100, percent));
+          this.emit('progress', {
+            percent: progressStart + (clamped / 100) * (progressEnd - progressStart),
+            timemark: progress.timemark,
+            frames: progress.frames || 0,
+            fps: progress.currentFps || 0,
+            speed,
+          });
+        })
+        .on('end', () => {
+          signal?.removeEventListener('abort', handleAbort);
+          resolve();
+        })
+        .on('error', (err) => {
+          signal?.removeEventListener('abort', handleAbort);
+          reject(signal?.aborted ? new Error('Processing cancelled') : err);
+        })
         .run();
     });
   }
@@ -0,0 +1,287 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoEditOptions } from './ffmpeg';
+import {
+  buildConcatGraph,
+  buildEditGraph,
+  ConcatInput,
+  escapeFilterValue,
+  filter,
+  FilterGraph,
+  formatFilter,
+  getGraphOutputs,
+  getOutputTime,
+  getPlaybackRanges,
+  getTempoFilters
+} from './filterGraph';
+
+const BASE_OPTIONS: VideoEditOptions = {
+  startTime: 0,
+  endTime: 0,
+  volume: 100,
+  fadeIn: 0,
+  fadeOut: 0,
+  speed: 1,
+  quality: 'medium',
+};
+
+// Graph for an edit of a 60 second input with audio, without scaling
+function build(changes: Partial<VideoEditOptions>, duration = 60) {
+  return buildEditGraph({ ...BASE_OPTIONS, ...changes }, { duration, hasAudio: true, keepSize: true });
+}
+
+describe('buildEditGraph', () => {
+  it('passes an unedited input through', () => {
+    const { graph, videoOutput, audioOutput, duration } = build({});
+    expect(graph.toString()).toBe('[0:v]null[vout];[0:a]null[aout]');
+    expect(videoOutput).toBe('vout');
+    expect(audioOutput).toBe('aout');
+    expect(duration).toBe(60);
+  });
+
+  it('trims both streams and resets their timestamps', () => {
+    const { graph, duration } = build({ startTime: 5, endTime: 20 });
+    expect(graph.toString()).toBe(
+      '[0:v]trim=start=5:end=20,setpts=PTS-STARTPTS[vout];' +
+      '[0:a]atrim=start=5:end=20,asetpts=PTS-STARTPTS[aout]'
+    );
+    expect(duration).toBe(15);
+  });
+
+  it('places fades relative to the trimmed range', () => {
+    const { graph } = build({ startTime: 10, endTime: 40, fadeIn: 2, fadeOut: 3 });
+    expect(graph.toString()).toBe(
+      '[0:v]trim=start=10:end=40,setpts=PTS-STARTPTS,fade=t=in:st=0:d=2,fade=t=out:st=27:d=3[vout];' +
+      '[0:a]atrim=start=10:end=40,asetpts=PTS-STARTPTS,afade=t=in:st=0:d=2,afade=t=out:st=27:d=3[aout]'
+    );
+  });
+
+  it('leaves out the fade-out when the output length is unknown', () => {
+    const { graph, duration } = build({ startTime: 10, fadeOut: 3 }, 0);
+    expect(duration).toBe(0);
+    expect(graph.toString()).not.toContain('t=out');
+  });
+
+  it('scales the volume', () => {
+    const { graph } = build({ volume: 150 });
+    expect(graph.toString()).toBe('[0:v]null[vout];[0:a]volume=1.5[aout]');
+  });
+
+  it('chains atempo for speeds beyond 2x and shortens the fades', () => {
+    const { graph, duration } = build({ speed: 3, fadeOut: 2 });
+    expect(duration).toBe(20);
+    expect(graph.toString()).toBe(
+      '[0:v]setpts=PTS/3,fade=t=out:st=18:d=2[vout];' +
+      '[0:a]atempo=2,atempo=1.5,afade=t=out:st=18:d=2[aout]'
+    );
+  });
+
+  it('joins segments with concat and fades the joined output', () => {
+    const { graph, duration } = build({
+      segments: [{ start: 0, end: 10 }, { start: 20, end: 25 }],
+      fadeOut: 1,
+    });
+    expect(duration).toBe(15);
+    expect(graph.toString()).toBe(
+      '[0:v]trim=start=0:end=10,setpts=PTS-STARTPTS[v0];' +
+      '[0:a]atrim=start=0:end=10,asetpts=PTS-STARTPTS[a0];' +
+      '[0:v]trim=start=20:end=25,setpts=PTS-STARTPTS[v1];' +
+      '[0:a]atrim=start=20:end=25,asetpts=PTS-STARTPTS[a1];' +
+      '[v0][a0][v1][a1]concat=n=2:v=1:a=1[vcat][acat];' +
+      '[vcat]fade=t=out:st=14:d=1[vout];' +
+      '[acat]afade=t=out:st=14:d=1[aout]'
+    );
+  });
+
+  it('scales to the quality profile unless told to keep the size', () => {
+    const { graph } = buildEditGraph(BASE_OPTIONS, { duration: 60, hasAudio: false });
+    expect(graph.toString()).toBe("[0:v]scale=w=-2:h='trunc(min(ih,720)/2)*2'[vout]");
+  });
+});
+
+describe('buildConcatGraph', () => {
+  const clip = (changes: Partial<ConcatInput>): ConcatInput => ({
+    duration: 10, width: 1280, height: 720, fps: 30, hasAudio: true, ...changes,
+  });
+
+  it('ends the silence for a clip without sound where its video ends', () => {
+    const { graph } = buildConcatGraph([clip({}), clip({ duration: 7.5, hasAudio: false })], { quality: 'medium' });
+    expect(graph.toString()).toContain('anullsrc=r=48000:cl=stereo,atrim=duration=7.5,');
+  });
+
+  it('rejects a clip without sound or a length', () => {
+    expect(() => buildConcatGraph([clip({}), clip({ duration: 0, hasAudio: false })], { quality: 'medium' })).toThrow();
+  });
+
+  it('rejects a crossfade it cannot place rather than cutting', () => {
+    expect(() => buildConcatGraph([clip({}), clip({ duration: 0 })], { quality: 'medium', crossfade: 1 })).toThrow();
+  });
+
+  it('offsets each crossfade from the end of the clips before it', () => {
+    const { graph, duration } = buildConcatGraph([clip({}), clip({ duration: 20 })], { quality: 'medium', crossfade: 2 });
+    expect(graph.toString()).toContain('xfade=transition=fade:duration=2:offset=8[vout]');
+    expect(duration).toBe(28);
+  });
+});
+
+describe('getTempoFilters', () => {
+  it('keeps every atempo within 0.5-2', () => {
+    expect(getTempoFilters(16).map(formatFilter)).toEqual(['atempo=2', 'atempo=2', 'atempo=2', 'atempo=2', 'volume=0']);
+    expect(getTempoFilters(0.25).map(formatFilter)).toEqual(['atempo=0.5', 'atempo=0.5']);
+  });
+});
+
+describe('escapeFilterValue', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeFilterValue('fade')).toBe('fade');
+    expect(escapeFilterValue(0.1 + 0.2)).toBe('0.3');
+  });
+
+  it('escapes option separators', () => {
+    expect(escapeFilterValue('a:b')).toBe("'a\\:b'");
+  });
+
+  it('quotes values with filtergraph separators', () => {
+    expect(escapeFilterValue('min(ih,720)')).toBe("'min(ih,720)'");
+    expect(escapeFilterValue('hello world')).toBe("'hello world'");
+  });
+
+  it('closes and reopens quotes around apostrophes', () => {
+    expect(escapeFilterValue("it's")).toBe("'it\\'\\''s'");
+  });
+});
+
+describe('formatFilter', () => {
+  it('writes a filter without options as its name', () => {
+    expect(formatFilter(filter('null'))).toBe('null');
+    expect(formatFilter(filter('hflip', {}))).toBe('hflip');
+  });
+
+  it('joins positional and named options', () => {
+    expect(formatFilter(filter('atempo', [1.5]))).toBe('atempo=1.5');
+    expect(formatFilter(filter('fade', { t: 'in', st: 0, d: 1 }))).toBe('fade=t=in:st=0:d=1');
+  });
+
+  it('leaves out unset named options', () => {
+    expect(formatFilter(filter('trim', { start: 5, end: undefined }))).toBe('trim=start=5');
+  });
+});
+
+describe('FilterGraph', () => {
+  it('numbers repeated labels after the first', () => {
+    const graph = new FilterGraph();
+    expect([graph.label('v'), graph.label('v'), graph.label('a'), graph.label('v')]).toEqual(['v', 'v1', 'a', 'v2']);
+  });
+
+  it('writes chains in order with bracketed pads', () => {
+    const graph = new FilterGraph();
+    expect(graph.isEmpty).toBe(true);
+
+    const [scaled] = graph.chain('0:v', [filter('scale', { w: 640, h: -2 })], graph.label('v'));
+    graph.chain([scaled, '1:v'], [filter('overlay', { x: 10, y: 10 })], 'vout');
+    expect(graph.isEmpty).toBe(false);
+    expect(graph.toString()).toBe('[0:v]scale=w=640:h=-2[v];[v][1:v]overlay=x=10:y=10[vout]');
+  });
+
+  it('passes a chain without filters through null', () => {
+    const graph = new FilterGraph();
+    graph.chain('0:a', [], ['a1', 'a2']);
+    expect(graph.toString()).toBe('[0:a]null[a1][a2]');
+  });
+});
+
+describe('getGraphOutputs', () => {
+  it('lists the video output before the audio output', () => {
+    const graph = new FilterGraph();
+    expect(getGraphOutputs({ graph, videoOutput: 'vout', audioOutput: 'aout', duration: 0 })).toEqual(['vout', 'aout']);
+    expect(getGraphOutputs({ graph, audioOutput: 'aout', duration: 0 })).toEqual(['aout']);
+  });
+});
+
+describe('getPlaybackRanges', () => {
+  const ranges = (changes: Partial<VideoEditOptions>, duration = 60) =>
+    getPlaybackRanges({ ...BASE_OPTIONS, ...changes }, duration);
+
+  it('plays the trimmed clip at 1x without speed ranges', () => {
+    expect(ranges({ startTime: 5, endTime: 20 })).toEqual([{ start: 5, end: 20, speed: 1 }]);
+    expect(ranges({ startTime: 5 })).toEqual([{ start: 5, end: null, speed: 1 }]);
+  });
+
+  it('splits kept segments where speed ranges start and end', () => {
+    expect(ranges({
+      segments: [{ start: 0, end: 20 }, { start: 30, end: 50 }],
+      speedRanges: [{ start: 10, end: 35, speed: 4 }],
+    })).toEqual([
+      { start: 0, end: 10, speed: 1 },
+      { start: 10, end: 20, speed: 4 },
+      { start: 30, end: 35, speed: 4 },
+      { start: 35, end: 50, speed: 1 },
+    ]);
+  });
+
+  it('sorts speed ranges and ignores those at 1x or outside the kept video', () => {
+    expect(ranges({
+      startTime: 10,
+      endTime: 40,
+      speedRanges: [
+        { start: 30, end: 35, speed: 0.5 },
+        { start: 0, end: 5, speed: 2 },
+        { start: 12, end: 18, speed: 1 },
+        { start: 15, end: 20, speed: 2 },
+      ],
+    })).toEqual([
+      { start: 10, end: 15, speed: 1 },
+      { start: 15, end: 20, speed: 2 },
+      { start: 20, end: 30, speed: 1 },
+      { start: 30, end: 35, speed: 0.5 },
+      { start: 35, end: 40, speed: 1 },
+    ]);
+  });
+
+  it('clamps speeds and drops slivers', () => {
+    expect(ranges({
+      endTime: 20,
+      speedRanges: [{ start: 0, end: 10, speed: 100 }, { start: 10, end: 19.99, speed: 2 }],
+    })).toEqual([
+      { start: 0, end: 10, speed: 16 },
+      { start: 10, end: 19.99, speed: 2 },
+    ]);
+  });
+
+  it('leaves the end open when the input length is unknown', () => {
+    expect(ranges({ speedRanges: [{ start: 10, end: 20, speed: 2 }] }, 0)).toEqual([
+      { start: 0, end: 10, speed: 1 },
+      { start: 10, end: 20, speed: 2 },
+      { start: 20, end: null, speed: 1 },
+    ]);
+  });
+});
+
+describe('getOutputTime', () => {
+  const ranges = getPlaybackRanges({
+    ...BASE_OPTIONS,
+    segments: [{ start: 0, end: 20 }, { start: 30, end: 50 }],
+    speedRanges: [{ start: 10, end: 20, speed: 4 }],
+  }, 60);
+
+  it('follows cuts and speed ranges', () => {
+    expect(getOutputTime(ranges, 5, 1, 60)).toBe(5);
+    expect(getOutputTime(ranges, 18, 1, 60)).toBe(12);
+    expect(getOutputTime(ranges, 40, 1, 60)).toBe(22.5);
+    expect(getOutputTime(ranges, 60, 1, 60)).toBe(32.5);
+  });
+
+  it('maps a time inside a cut to where the next kept range starts', () => {
+    expect(getOutputTime(ranges, 25, 1, 60)).toBe(12.5);
+    expect(getOutputTime(ranges, 30, 1, 60)).toBe(12.5);
+  });
+
+  it('divides by the overall speed', () => {
+    expect(getOutputTime(ranges, 40, 2, 60)).toBe(11.25);
+  });
+
+  it('measures an open-ended range against the input length', () => {
+    const open = getPlaybackRanges({ ...BASE_OPTIONS, startTime: 10 }, 0);
+    expect(getOutputTime(open, 25, 1, 60)).toBe(15);
+    expect(getOutputTime(open, 90, 1, 60)).toBe(50);
+  });
+});
@@ -0,0 +1,1167 @@
+import type { ConcatOptions, VideoEditOptions, VideoInfo } from './ffmpeg';
+import { getEncodingProfile, getScaleFilter } from './encodingProfiles';
+import { MIN_RANGE_DURATION, normalizeRanges, TimeRange } from './timeRanges';
+import { getOverlayFont, OverlayFont, OverlayFontId } from './fonts';
+import { keyframeExpression, MAX_ZOOM, ZoomKeyframe } from './keyframes';
+import type { LoudnessMeasurement, LoudnessTarget } from './loudness';
+import type { AnimationOptions } from './animation';
+
+// This module has no Node dependencies so the browser (FFmpeg WASM) and the
+// server (fluent-ffmpeg) can build identical filter graphs.
+
+export type FilterValue = string | number;
+
+export interface Filter {
+  name: string;
+  args?: FilterValue[] | Record<string, FilterValue | undefined>;
+}
+
+export interface FilterChain {
+  inputs: string[]; // Pad labels without brackets, e.g. '0:v'
+  filters: Filter[];
+  outputs: string[];
+}
+
+export interface EditGraphInput {
+  duration: number; // Input duration in seconds, 0 if unknown
+  hasAudio: boolean;
+  width?: number; // Frame size and rate, needed for zoom keyframes
+  height?: number;
+  fps?: number;
+  watermarkInput?: string; // Stream of the watermark image, e.g. '1:v'
+  pipInput?: string; // Video stream of the picture-in-picture source, e.g. '2:v'
+  pipAudioInput?: string; // Its audio stream, when it has one
+  loudness?: LoudnessMeasurement; // First-pass measurement of the edited audio, for normalize
+  musicInput?: string; // Audio stream of the background music, e.g. '3:a'
+  audioOnly?: boolean; // Build only the audio chain, e.g. to extract the narration
+  keepSize?: boolean; // Skip the quality profile's scaling, for callers that scale themselves
+}
+
+export interface CropRect {
+  x: number; // Left edge in source pixels
+  y: number; // Top edge in source pixels
+  width: number;
+  height: number;
+}
+
+export type RedactionStyle = 'blur' | 'pixelate';
+
+// A rectangle that is obscured for part of the video
+export interface Redaction extends CropRect {
+  id: string;
+  start: number; // Source time in seconds
+  end: number;
+  style: RedactionStyle;
+  strength?: number; // Blur radius or pixel block size, in source pixels
+}
+
+export type TextPosition = 'top-left' | 'top' | 'top-right' | 'center' | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// A caption or title card drawn over part of the video
+export interface TextOverlay {
+  id: string;
+  text: string;
+  font: OverlayFontId;
+  size: number; // Font size in source pixels
+  color: string; // '#rrggbb'
+  position: TextPosition;
+  box: boolean; // Draw a background box behind the text
+  boxColor: string; // '#rrggbb'
+  boxOpacity: number; // 0-1
+  fillFrame?: boolean; // Title card: fill the whole frame with the box color
+  start: number; // Source time in seconds
+  end: number;
+}
+
+// Distance of positioned text from the frame edges, as a fraction of the frame
+export const TEXT_MARGIN = 0.05;
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'custom';
+
+// A logo drawn over the whole export
+export interface Watermark {
+  imageFileId?: string; // Drive app data file holding the logo
+  position: WatermarkPosition;
+  x?: number; // Custom position, 0-1 across the space left beside the logo
+  y?: number;
+  opacity: number; // 0-1
+  scale: number; // Logo width as a fraction of the video width
+}
+
+// Distance of corner watermarks from the frame edges, as a fraction of the width
+export const WATERMARK_MARGIN = 0.03;
+
+// A stretch of source time played faster or slower, e.g. to fast-forward idle screens
+export interface SpeedRange extends TimeRange {
+  speed: number;
+}
+
+// Speeds the editor offers, for the whole clip or a range. Browsers preview
+// up to 16x
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 16;
+export const SPEED_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 4, 8, 16];
+
+// Above this, sped-up speech is unintelligible, so the audio is muted
+export const MAX_AUDIBLE_SPEED = 4;
+
+/**
+ * Speed within MIN_SPEED-MAX_SPEED; anything unusable plays at 1x
+ */
+export function clampSpeed(speed: number): number {
+  if (!Number.isFinite(speed) || speed <= 0) {
+    return 1;
+  }
+  return Math.max(MIN_SPEED, Math.min(speed, MAX_SPEED));
+}
+
+// A kept piece of the source and the speed it plays at
+export interface PlaybackRange {
+  start: number;
+  end: number | null; // null runs to the end of the input
+  speed: number;
+}
+
+export type PipPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type PipShape = 'rectangle' | 'circle';
+
+// A second video, e.g. a webcam recording, composited into a corner
+export interface PictureInPicture {
+  videoId: string; // Drive file ID of the overlay video
+  position: PipPosition;
+  size: number; // Overlay width as a fraction of the frame width
+  shape: PipShape; // A circle is cut from the centre square of the overlay
+  offset: number; // Source time the overlay starts at; negative skips into the overlay
+  volume: number; // Overlay audio mixed in at 0-200%, 0 mutes it
+}
+
+// Distance of the overlay from the frame edges, as a fraction of the frame width
+export const PIP_MARGIN = 0.03;
+
+// A music bed under the video. Its range is given in source time so it
+// lines up with the timeline, but it plays on without gaps across cuts.
+export interface BackgroundMusic {
+  fileId: string; // Drive file ID of the audio
+  name?: string;
+  start: number; // Source time the music starts at
+  end?: number; // Source time it stops at, the end of the video if unset
+  volume: number; // 0-200%
+  loop: boolean; // Repeat the file until the end
+  fadeIn: number; // In seconds
+  fadeOut: number;
+  ducking: boolean; // Lower the music while the original audio is loud
+}
+
+// sidechaincompress settings for ducking: the music drops by up to
+// about 18 dB within 20 ms of speech and recovers over half a second
+const DUCKING_ARGS = { threshold: 0.03, ratio: 8, attack: 20, release: 500 };
+
+export type NoiseReductionStrength = 'light' | 'medium' | 'strong';
+
+// afftdn settings per strength. Stronger settings remove more fan hiss
+// but start to make the voice sound watery.
+export const NOISE_REDUCTION_PRESETS: Record<NoiseReductionStrength, {
+  label: string;
+  reduction: number; // Noise reduction in dB
+  floor: number; // Noise floor in dB
+}> = {
+  light: { label: 'Light', reduction: 6, floor: -50 },
+  medium: { label: 'Medium', reduction: 12, floor: -45 },
+  strong: { label: 'Strong', reduction: 24, floor: -40 },
+};
+
+// Rumble and mains hum sit below this; voices do not
+const NOISE_HIGHPASS_FREQUENCY = 80;
+
+export type ConcatInput = Pick<VideoInfo, 'duration' | 'width' | 'height' | 'fps' | 'hasAudio'>;
+
+export interface EditGraph {
+  graph: FilterGraph;
+  videoOutput?: string; // Unset for audio-only edits
+  audioOutput?: string;
+  duration: number; // Expected output duration in seconds, 0 if unknown
+}
+
+/**
+ * Output pads of an edit to map, video first
+ */
+export function getGraphOutputs({ videoOutput, audioOutput }: EditGraph): string[] {
+  return [videoOutput, audioOutput].filter((output): output is string => Boolean(output));
+}
+
+/**
+ * Create a filter, e.g. filter('fade', { t: 'in', st: 0, d: 1 })
+ */
+export function filter(name: string, args?: Filter['args']): Filter {
+  return { name, args };
+}
+
+/**
+ * Escape a filter option value. Values are unescaped twice, once by the
+ * filtergraph parser and once by the filter's option parser, so option
+ * separators are backslash-escaped and the result quoted if needed.
+ */
+export function escapeFilterValue(value: FilterValue): string {
+  const text = typeof value === 'number' ? formatNumber(value) : value;
+  const option = text.replace(/[\\':]/g, '\\$&');
+  if (!/[\\',;[\]\s=]/.test(option)) {
+    return option;
+  }
+  // Backslashes are literal inside quotes; a quote has to close, escape and reopen
+  return `'${option.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format a number without float noise (0.1 + 0.2 => 0.3)
+ */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 1000000) / 1000000);
+}
+
+export function formatFilter({ name, args }: Filter): string {
+  if (!args) {
+    return name;
+  }
+
+  const parts = Array.isArray(args)
+    ? args.map(escapeFilterValue)
+    : Object.entries(args)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${escapeFilterValue(value as FilterValue)}`);
+
+  return parts.length > 0 ? `${name}=${parts.join(':')}` : name;
+}
+
+/**
+ * Crop filter for a rectangle in source pixels. Sizes and offsets are
+ * rounded down to even numbers, which yuv420p requires.
+ */
+export function getCropFilter(crop: CropRect): Filter {
+  const { x, y, width, height } = snapCropRect(crop);
+  return filter('crop', { w: width, h: height, x, y });
+}
+
+function snapCropRect(crop: CropRect): CropRect {
+  const even = (value: number) => Math.max(0, Math.floor(value / 2) * 2);
+  return {
+    x: even(crop.x),
+    y: even(crop.y),
+    width: Math.max(2, even(crop.width)),
+    height: Math.max(2, even(crop.height)),
+  };
+}
+
+// Frame rate zoompan runs at when the input's is unknown
+const DEFAULT_ZOOM_FPS = 30;
+
+/**
+ * Zoom and pan between keyframes with zoompan. Keyframe rectangles are in
+ * frame pixels (after any crop); each is fitted to the frame's aspect
+ * ratio around its centre, as getZoomView does for the preview. The input
+ * is made constant frame rate first because zoompan numbers its output
+ * frames at a fixed rate.
+ */
+export function getZoomFilters(
+  keyframes: ZoomKeyframe[],
+  frame: Pick<CropRect, 'width' | 'height'>,
+  fps: number
+): Filter[] {
+  const rate = fps > 0 && fps <= 120 ? formatNumber(fps) : DEFAULT_ZOOM_FPS;
+  const [x, y, width, height] = (['x', 'y', 'width', 'height'] as const)
+    .map(key => keyframeExpression(keyframes, key, 'it'));
+
+  return [
+    filter('fps', [rate]),
+    filter('zoompan', {
+      z: `max(1,min(min(iw/(${width}),ih/(${height})),${MAX_ZOOM}))`,
+      x: `max(0,min(${x}+(${width})/2-iw/zoom/2,iw-iw/zoom))`,
+      y: `max(0,min(${y}+(${height})/2-ih/zoom/2,ih-ih/zoom))`,
+      d: 1,
+      s: `${frame.width}x${frame.height}`,
+      fps: rate,
+    }),
+  ];
+}
+
+const DEFAULT_BLUR_RADIUS = 12;
+const DEFAULT_PIXEL_SIZE = 16;
+
+/**
+ * Obscure each redaction's rectangle during its time range. Runs on the
+ * source stream, before any trimming, so redaction times stay in source
+ * time. Returns the label of the redacted stream.
+ */
+export function addRedactions(graph: FilterGraph, input: string, redactions: Redaction[]): string {
+  let current = input;
+
+  for (const redaction of redactions) {
+    if (redaction.end <= redaction.start) continue;
+
+    // crop snaps to even values, so overlay at the same snapped position
+    const region = getCropFilter(redaction);
+    const { w: width, h: height, x, y } = region.args as Record<string, number>;
+
+    const [base, source] = graph.chain(current, [filter('split', [2])], [graph.label('rbase'), graph.label('rsrc')]);
+    const [obscured] = graph.chain(source, [region, ...obscureFilters(redaction, width, height)], graph.label('rfx'));
+    [current] = graph.chain([base, obscured], [
+      filter('overlay', {
+        x,
+        y,
+        enable: `between(t,${formatNumber(redaction.start)},${formatNumber(redaction.end)})`,
+      }),
+    ], graph.label('red'));
+  }
+
+  return current;
+}
+
+function obscureFilters(redaction: Redaction, width: number, height: number): Filter[] {
+  if (redaction.style === 'pixelate') {
+    // Shrink, then blow back up to the exact size without smoothing
+    const blockSize = Math.max(2, redaction.strength || DEFAULT_PIXEL_SIZE);
+    return [
+      filter('scale', { w: Math.max(1, Math.round(width / blockSize)), h: Math.max(1, Math.round(height / blockSize)) }),
+      filter('scale', { w: width, h: height, flags: 'neighbor' }),
+    ];
+  }
+
+  // Chroma planes are half size, and boxblur needs the radius to fit in them
+  const maxRadius = Math.max(1, Math.floor(Math.min(width, height) / 4));
+  const radius = Math.min(redaction.strength || DEFAULT_BLUR_RADIUS, maxRadius);
+  return [filter('boxblur', { luma_radius: radius, luma_power: 2 })];
+}
+
+/**
+ * drawtext (and, for title cards, drawbox) filters for text overlays.
+ * Uses expansion=none so the text is drawn exactly as typed.
+ */
+export function getTextOverlayFilters(
+  overlay: TextOverlay,
+  resolveFontFile: (font: OverlayFont) => string = font => font.file
+): Filter[] {
+  if (!overlay.text.trim() || overlay.end <= overlay.start) {
+    return [];
+  }
+
+  const enable = `between(t,${formatNumber(overlay.start)},${formatNumber(overlay.end)})`;
+  const boxColor = `${toFFmpegColor(overlay.boxColor, '#000000')}@${formatNumber(Math.max(0, Math.min(overlay.boxOpacity, 1)))}`;
+  const [horizontal, vertical] = getTextAnchors(overlay.position);
+  const filters: Filter[] = [];
+
+  if (overlay.fillFrame) {
+    filters.push(filter('drawbox', { x: 0, y: 0, w: 'iw', h: 'ih', color: boxColor, t: 'fill', enable }));
+  }
+
+  filters.push(filter('drawtext', {
+    fontfile: resolveFontFile(getOverlayFont(overlay.font)),
+    text: overlay.text,
+    expansion: 'none',
+    fontsize: Math.max(1, Math.round(overlay.size)),
+    fontcolor: toFFmpegColor(overlay.color, '#ffffff'),
+    x: {
+      left: `w*${TEXT_MARGIN}`,
+      center: '(w-text_w)/2',
+      right: `w-text_w-w*${TEXT_MARGIN}`,
+    }[horizontal],
+    y: {
+      top: `h*${TEXT_MARGIN}`,
+      center: '(h-text_h)/2',
+      bottom: `h-text_h-h*${TEXT_MARGIN}`,
+    }[vertical],
+    box: overlay.box && !overlay.fillFrame ? 1 : undefined,
+    boxcolor: overlay.box && !overlay.fillFrame ? boxColor : undefined,
+    boxborderw: overlay.box && !overlay.fillFrame ? Math.round(overlay.size * 0.3) : undefined,
+    enable,
+  }));
+
+  return filters;
+}
+
+/**
+ * Horizontal and vertical anchors for a text position
+ */
+export function getTextAnchors(position: TextPosition): ['left' | 'center' | 'right', 'top' | 'center' | 'bottom'] {
+  const [vertical, horizontal] = position === 'center'
+    ? ['center', 'center']
+    : position.includes('-') ? position.split('-') : [position, 'center'];
+  return [horizontal as 'left' | 'center' | 'right', vertical as 'top' | 'center' | 'bottom'];
+}
+
+function toFFmpegColor(color: string, fallback: string): string {
+  return /^#[0-9a-f]{6}$/i.test(color) ? color : fallback;
+}
+
+/**
+ * Overlay the watermark image on a video stream. The logo is sized
+ * relative to the video with scale2ref, so it looks the same at every
+ * output resolution. The image input must be looped (-loop 1); shortest
+ * ends the overlay with the video.
+ */
+export function addWatermark(
+  graph: FilterGraph,
+  videoInput: string,
+  imageInput: string,
+  watermark: Watermark,
+  output: string
+): string {
+  const opacity = Math.max(0, Math.min(watermark.opacity, 1));
+  const scale = Math.max(0.01, Math.min(watermark.scale, 1));
+
+  const [image] = graph.chain(imageInput, [
+    filter('format', ['rgba']),
+    filter('colorchannelmixer', { aa: opacity }),
+  ], graph.label('wm'));
+  const [logo, video] = graph.chain([image, videoInput], [
+    filter('scale2ref', { w: `main_w*${formatNumber(scale)}`, h: 'ow/a' }),
+  ], [graph.label('wmscaled'), graph.label('wmref')]);
+
+  const margin = `main_w*${WATERMARK_MARGIN}`;
+  const [x, y] = watermark.position === 'custom'
+    ? [
+        `(main_w-overlay_w)*${formatNumber(Math.max(0, Math.min(watermark.x ?? 1, 1)))}`,
+        `(main_h-overlay_h)*${formatNumber(Math.max(0, Math.min(watermark.y ?? 1, 1)))}`,
+      ]
+    : [
+        watermark.position.endsWith('left') ? margin : `main_w-overlay_w-${margin}`,
+        watermark.position.startsWith('top') ? margin : `main_h-overlay_h-${margin}`,
+      ];
+
+  const [result] = graph.chain([video, logo], [filter('overlay', { x, y, shortest: 1 })], output);
+  return result;
+}
+
+/**
+ * Composite the picture-in-picture video onto a video stream. The overlay
+ * is shifted by its offset, sized relative to the frame with scale2ref and
+ * disappears when it ends.
+ */
+export function addPictureInPicture(
+  graph: FilterGraph,
+  videoInput: string,
+  pipInput: string,
+  pip: PictureInPicture,
+  output: string
+): string {
+  const size = Math.max(0.05, Math.min(pip.size, 1));
+
+  const [shifted] = graph.chain(pipInput, getPipTimingFilters(pip, 'video'), graph.label('pipsrc'));
+  const [scaled, video] = graph.chain([shifted, videoInput], [
+    filter('scale2ref', { w: `main_w*${formatNumber(size)}`, h: 'ow/a' }),
+  ], [graph.label('pipscaled'), graph.label('pipref')]);
+
+  let overlay = scaled;
+  if (pip.shape === 'circle') {
+    // Keep the centre square, then make everything outside the circle transparent
+    [overlay] = graph.chain(overlay, [
+      filter('crop', { w: 'min(iw,ih)', h: 'min(iw,ih)' }),
+      filter('format', ['yuva420p']),
+      filter('geq', {
+        lum: 'p(X,Y)',
+        cb: 'cb(X,Y)',
+        cr: 'cr(X,Y)',
+        a: 'if(lte(hypot(X-W/2,Y-H/2),min(W,H)/2),255,0)',
+      }),
+    ], graph.label('pipmask'));
+  }
+
+  const margin = `main_w*${PIP_MARGIN}`;
+  const x = pip.position.endsWith('left') ? margin : `main_w-overlay_w-${margin}`;
+  const y = pip.position.startsWith('top') ? margin : `main_h-overlay_h-${margin}`;
+
+  const [result] = graph.chain([video, overlay], [
+    filter('overlay', { x, y, eof_action: 'pass' }),
+  ], output);
+  return result;
+}
+
+/**
+ * Mix the picture-in-picture audio into an audio stream, aligned with the
+ * shifted overlay video
+ */
+export function addPictureInPictureAudio(
+  graph: FilterGraph,
+  audioInput: string,
+  pipAudioInput: string,
+  pip: PictureInPicture,
+  output: string
+): string {
+  const [pipAudio] = graph.chain(pipAudioInput, [
+    ...getPipTimingFilters(pip, 'audio'),
+    filter('volume', [formatNumber(Math.max(0, Math.min(pip.volume, 200)) / 100)]),
+  ], graph.label('pipa'));
+
+  // normalize=0 keeps the main track at full level instead of halving both
+  const [result] = graph.chain([audioInput, pipAudio], [
+    filter('amix', { inputs: 2, duration: 'first', normalize: 0 }),
+  ], output);
+  return result;
+}
+
+/**
+ * Add background music to an audio stream, or make it the only audio when
+ * mainAudioInput is undefined. start and end are output times; with ducking
+ * the main audio drives a compressor on the music.
+ */
+export function addBackgroundMusic(
+  graph: FilterGraph,
+  mainAudioInput: string | undefined,
+  musicInput: string,
+  music: BackgroundMusic,
+  start: number,
+  end: number, // 0 if the end of the output is unknown
+  output: string
+): string {
+  const length = end - start;
+  const musicFilters: Filter[] = [];
+  if (length > 0) {
+    musicFilters.push(filter('atrim', { duration: formatNumber(length) }));
+  }
+  musicFilters.push(
+    filter('asetpts', ['PTS-STARTPTS']),
+    filter('volume', [formatNumber(Math.max(0, Math.min(music.volume, 200)) / 100)])
+  );
+  if (music.fadeIn > 0) {
+    musicFilters.push(filter('afade', { t: 'in', st: 0, d: music.fadeIn }));
+  }
+  if (music.fadeOut > 0 && length > 0) {
+    const fadeOut = Math.min(music.fadeOut, length);
+    musicFilters.push(filter('afade', { t: 'out', st: formatNumber(length - fadeOut), d: fadeOut }));
+  }
+  if (start > 0) {
+    musicFilters.push(filter('adelay', { delays: Math.round(start * 1000), all: 1 }));
+  }
+
+  if (!mainAudioInput) {
+    const [result] = graph.chain(musicInput, musicFilters, output);
+    return result;
+  }
+
+  let [musicAudio] = graph.chain(musicInput, musicFilters, graph.label('music'));
+  let mainAudio = mainAudioInput;
+  if (music.ducking) {
+    // The main audio is read twice: once to mix, once to drive the compressor
+    const [mixInput, sidechain] = graph.chain(mainAudio, [filter('asplit', [2])], [graph.label('amain'), graph.label('asc')]);
+    [musicAudio] = graph.chain([musicAudio, sidechain], [
+      filter('sidechaincompress', DUCKING_ARGS),
+    ], graph.label('ducked'));
+    mainAudio = mixInput;
+  }
+
+  const [result] = graph.chain([mainAudio, musicAudio], [
+    filter('amix', { inputs: 2, duration: 'first', normalize: 0 }),
+  ], output);
+  return result;
+}
+
+/**
+ * Frame rate and size of an animation. Lanczos keeps text legible when
+ * screen recordings are scaled down.
+ */
+export function getAnimationFilters({ fps, width }: AnimationOptions): Filter[] {
+  return [
+    filter('fps', [fps]),
+    filter('scale', { w: `min(iw,${width})`, h: -2, flags: 'lanczos' }),
+  ];
+}
+
+/**
+ * First pass of a GIF export: one 256 colour palette for the whole clip.
+ * stats_mode=diff builds it from the pixels that change, so static UI does
+ * not crowd out the colours of whatever moves.
+ */
+export function addAnimationPalette(
+  graph: FilterGraph,
+  videoInput: string,
+  options: AnimationOptions,
+  output: string
+): string {
+  const [result] = graph.chain(videoInput, [
+    ...getAnimationFilters(options),
+    filter('palettegen', { stats_mode: 'diff' }),
+  ], output);
+  return result;
+}
+
+/**
+ * Frames of an animation. GIFs are mapped onto the palette from the first
+ * pass; diff_mode=rectangle only re-dithers the area that changed, which
+ * keeps still parts of the screen from shimmering.
+ */
+export function addAnimationFrames(
+  graph: FilterGraph,
+  videoInput: string,
+  options: AnimationOptions,
+  paletteInput: string | undefined,
+  output: string
+): string {
+  if (options.format !== 'gif' || !paletteInput) {
+    const [result] = graph.chain(videoInput, getAnimationFilters(options), output);
+    return result;
+  }
+
+  const [frames] = graph.chain(videoInput, getAnimationFilters(options), graph.label('vanim'));
+  const [result] = graph.chain([frames, paletteInput], [
+    filter('paletteuse', { dither: options.dither, diff_mode: 'rectangle' }),
+  ], output);
+  return result;
+}
+
+function getPipTimingFilters(pip: PictureInPicture, type: 'video' | 'audio'): Filter[] {
+  if (pip.offset < 0) {
+    // Start part way into the overlay
+    return type === 'video'
+      ? [filter('trim', { start: -pip.offset }), filter('setpts', ['PTS-STARTPTS'])]
+      : [filter('atrim', { start: -pip.offset }), filter('asetpts', ['PTS-STARTPTS'])];
+  }
+
+  return type === 'video'
+    ? [filter('setpts', [`PTS-STARTPTS+${formatNumber(pip.offset)}/TB`])]
+    : [filter('asetpts', ['PTS-STARTPTS']), filter('adelay', { delays: Math.round(pip.offset * 1000), all: 1 })];
+}
+
+/**
+ * Parse the rectangle from a cropdetect log line, e.g.
+ * "[Parsed_cropdetect_0 @ 0x...] x1:0 x2:1919 ... crop=1920:1040:0:0"
+ */
+export function parseCropDetectLine(line: string): CropRect | null {
+  const match = line.match(/crop=(\d+):(\d+):(\d+):(\d+)/);
+  if (!match) {
+    return null;
+  }
+  const [width, height, x, y] = match.slice(1).map(Number);
+  return { x, y, width, height };
+}
+
+export type DetectedEventKind = 'silence' | 'freeze';
+
+/**
+ * Parse a range boundary from silencedetect or freezedetect output, e.g.
+ * "[silencedetect @ 0x...] silence_end: 15.2 | silence_duration: 2.72" or
+ * "[freezedetect @ 0x...] lavfi.freezedetect.freeze_start: 5.005"
+ */
+export function parseDetectedEventLine(
+  line: string,
+  kind: DetectedEventKind
+): { boundary: 'start' | 'end'; time: number } | null {
+  const match = line.match(new RegExp(`${kind}_(start|end): (-?[\\d.]+)`));
+  if (!match) {
+    return null;
+  }
+  return { boundary: match[1] as 'start' | 'end', time: Math.max(0, parseFloat(match[2])) };
+}
+
+export class FilterGraph {
+  private chains: FilterChain[] = [];
+  private labelCounts = new Map<string, number>();
+
+  /**
+   * Reserve a unique pad label with the given prefix
+   */
+  label(prefix: string): string {
+    const count = this.labelCounts.get(prefix) || 0;
+    this.labelCounts.set(prefix, count + 1);
+    return count === 0 ? prefix : `${prefix}${count}`;
+  }
+
+  /**
+   * Add a linear chain of filters and return its output labels
+   */
+  chain(inputs: string | string[], filters: Filter[], outputs: string | string[]): string[] {
+    const chain: FilterChain = {
+      inputs: Array.isArray(inputs) ? inputs : [inputs],
+      filters,
+      outputs: Array.isArray(outputs) ? outputs : [outputs],
+    };
+    this.chains.push(chain);
+    return chain.outputs;
+  }
+
+  get isEmpty(): boolean {
+    return this.chains.length === 0;
+  }
+
+  toString(): string {
+    return this.chains
+      .map(({ inputs, filters, outputs }) => {
+        const body = filters.length > 0 ? filters.map(formatFilter).join(',') : 'null';
+        return `${inputs.map(pad => `[${pad}]`).join('')}${body}${outputs.map(pad => `[${pad}]`).join('')}`;
+      })
+      .join(';');
+  }
+}
+
+/**
+ * The ranges of the input that end up in the output. A null end means
+ * "until the end of the input".
+ */
+export function getKeptRanges(options: VideoEditOptions, inputDuration: number): { start: number; end: number | null }[] {
+  if (options.segments && options.segments.length > 0) {
+    return normalizeRanges(options.segments, inputDuration);
+  }
+
+  const start = Math.max(0, options.startTime);
+  return [{ start, end: options.endTime > start ? options.endTime : null }];
+}
+
+/**
+ * Kept ranges split wherever a speed range starts or ends, each with the
+ * speed it plays at. Speed ranges outside the kept ranges have no effect.
+ */
+export function getPlaybackRanges(options: VideoEditOptions, inputDuration: number): PlaybackRange[] {
+  const kept = getKeptRanges(options, inputDuration);
+  const speedRanges = [...(options.speedRanges || [])]
+    .map(range => ({ ...range, speed: clampSpeed(range.speed) }))
+    .filter(range => range.speed !== 1)
+    .sort((a, b) => a.start - b.start);
+  if (speedRanges.length === 0) {
+    return kept.map(range => ({ ...range, speed: 1 }));
+  }
+
+  const pieces: PlaybackRange[] = [];
+  for (const range of kept) {
+    const end = range.end ?? (inputDuration > 0 ? inputDuration : Infinity);
+    let cursor = range.start;
+
+    for (const speedRange of speedRanges) {
+      if (speedRange.end <= cursor || speedRange.start >= end) continue;
+      if (speedRange.start > cursor) {
+        pieces.push({ start: cursor, end: speedRange.start, speed: 1 });
+      }
+      const pieceEnd = Math.min(speedRange.end, end);
+      pieces.push({ start: Math.max(cursor, speedRange.start), end: pieceEnd, speed: speedRange.speed });
+      cursor = pieceEnd;
+    }
+
+    if (end > cursor) {
+      pieces.push({ start: cursor, end: end === Infinity ? null : end, speed: 1 });
+    }
+  }
+
+  return pieces.filter(piece => piece.end === null || piece.end - piece.start >= MIN_RANGE_DURATION);
+}
+
+/**
+ * Where a source time ends up in the output, after cuts and speed changes.
+ * A time inside a cut maps to where the next kept range starts.
+ */
+export function getOutputTime(ranges: PlaybackRange[], time: number, speed: number, inputDuration: number): number {
+  let output = 0;
+  for (const range of ranges) {
+    const end = range.end ?? inputDuration;
+    if (time <= range.start) break;
+    output += (Math.min(time, end) - range.start) / range.speed;
+  }
+  return output / clampSpeed(speed);
+}
+
+/**
+ * Noise reduction for microphone audio: a high-pass for low hum, then
+ * afftdn, which tracks the noise floor as it changes over the recording
+ */
+export function getNoiseReductionFilters(strength: NoiseReductionStrength): Filter[] {
+  const preset = NOISE_REDUCTION_PRESETS[strength];
+  return [
+    filter('highpass', { f: NOISE_HIGHPASS_FREQUENCY }),
+    filter('afftdn', { nr: preset.reduction, nf: preset.floor, tn: 1 }),
+  ];
+}
+
+/**
+ * atempo filters for a speed change. Each atempo instance is kept within
+ * 0.5-2, which every FFmpeg version supports, by chaining several; 16x
+ * takes four. Muted audio keeps its timing but is silenced, by default
+ * above MAX_AUDIBLE_SPEED.
+ */
+export function getTempoFilters(speed: number, mute: boolean = speed > MAX_AUDIBLE_SPEED): Filter[] {
+  const filters: Filter[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push(filter('atempo', [2]));
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push(filter('atempo', [0.5]));
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 0.0001) {
+    filters.push(filter('atempo', [formatNumber(remaining)]));
+  }
+  if (mute) {
+    filters.push(filter('volume', [0]));
+  }
+  return filters;
+}
+
+// Rate audio is brought back to after loudnorm
+const LOUDNORM_SAMPLE_RATE = 48000;
+
+/**
+ * loudnorm for a target. With a first-pass measurement the gain is
+ * applied linearly, which keeps the dynamics; without one loudnorm
+ * adjusts dynamically and prints its measurement as JSON.
+ */
+export function getLoudnormFilters(target: LoudnessTarget, measured?: LoudnessMeasurement): Filter[] {
+  const args: Record<string, FilterValue> = {
+    I: target.integrated,
+    TP: target.truePeak,
+    LRA: target.range,
+  };
+  if (measured) {
+    Object.assign(args, {
+      measured_I: measured.integrated,
+      measured_TP: measured.truePeak,
+      measured_LRA: measured.range,
+      measured_thresh: measured.threshold,
+      offset: measured.offset,
+      linear: 'true',
+    });
+  } else {
+    args.print_format = 'json';
+  }
+
+  // loudnorm resamples to 192 kHz internally
+  return [filter('loudnorm', args), filter('aresample', [LOUDNORM_SAMPLE_RATE])];
+}
+
+// A range's own speed change. Its audio is muted when the range plays too
+// fast once the whole clip's speed is applied as well
+function getRangeSpeedFilters(speed: number, type: 'video' | 'audio', clipSpeed: number): Filter[] {
+  if (speed === 1) {
+    return [];
+  }
+  return type === 'video'
+    ? [filter('setpts', [`PTS/${formatNumber(speed)}`])]
+    : getTempoFilters(speed, speed * clipSpeed > MAX_AUDIBLE_SPEED);
+}
+
+/**
+ * Build the -filter_complex graph for VideoEditOptions. Segments are
+ * trimmed individually and joined with concat; fades are placed relative
+ * to the joined, speed-adjusted output so they line up with what the
+ * viewer sees. Audio-only edits leave out everything that only affects
+ * the picture.
+ */
+export function buildEditGraph(
+  options: VideoEditOptions,
+  input: EditGraphInput,
+  resolveFontFile?: (font: OverlayFont) => string
+): EditGraph {
+  const graph = new FilterGraph();
+  const speed = clampSpeed(options.speed);
+
+  const ranges = getPlaybackRanges(options, input.duration);
+  const keptDuration = ranges.reduce((total, range) => {
+    const end = range.end ?? input.duration;
+    return total + Math.max(0, end - range.start) / range.speed;
+  }, 0);
+  // Unknown when an open-ended range meets an input of unknown length
+  const duration = ranges.some(range => range.end === null) && input.duration === 0
+    ? 0
+    : keptDuration / speed;
+
+  const videoFilters: Filter[] = [];
+  const audioFilters: Filter[] = [];
+  let videoInput = '0:v';
+  let audioInput = '0:a';
+  const withVideo = !input.audioOnly;
+
+  if (withVideo && options.redactions && options.redactions.length > 0) {
+    videoInput = addRedactions(graph, videoInput, options.redactions);
+  }
+
+  // Crop, zoom, picture-in-picture and text run before trimming so their
+  // times stay in source time
+  const sourceFilters: Filter[] = [];
+  if (withVideo && options.crop) {
+    sourceFilters.push(getCropFilter(options.crop));
+  }
+  // Zoom goes before picture-in-picture and text so those stay readable
+  const frame = options.crop ? snapCropRect(options.crop) : { width: input.width || 0, height: input.height || 0 };
+  if (withVideo && options.zoomKeyframes && options.zoomKeyframes.length > 0 && frame.width > 0 && frame.height > 0) {
+    sourceFilters.push(...getZoomFilters(options.zoomKeyframes, frame, input.fps || 0));
+  }
+  const pip = options.pictureInPicture;
+  if (withVideo && pip && input.pipInput) {
+    // Composited onto the cropped frame, below any text
+    if (sourceFilters.length > 0) {
+      [videoInput] = graph.chain(videoInput, sourceFilters.splice(0), graph.label('vcrop'));
+    }
+    videoInput = addPictureInPicture(graph, videoInput, input.pipInput, pip, graph.label('vpip'));
+  }
+  // Only the main recording is cleaned; the overlay has its own mic
+  if (options.noiseReduction && input.hasAudio) {
+    [audioInput] = graph.chain(audioInput, getNoiseReductionFilters(options.noiseReduction), graph.label('adenoise'));
+  }
+  // The overlay's sound is only mixed into a main track; it is not a track of its own
+  if (pip && input.pipAudioInput && input.hasAudio && pip.volume > 0) {
+    audioInput = addPictureInPictureAudio(graph, audioInput, input.pipAudioInput, pip, graph.label('apip'));
+  }
+  for (const overlay of withVideo ? options.textOverlays || [] : []) {
+    sourceFilters.push(...getTextOverlayFilters(overlay, resolveFontFile));
+  }
+
+  if (ranges.length === 1) {
+    // A single range is trimmed inline at the head of each chain
+    const [range] = ranges;
+    videoFilters.push(...sourceFilters);
+    const trimArgs = {
+      start: range.start > 0 ? range.start : undefined,
+      end: range.end ?? undefined,
+    };
+    if (trimArgs.start !== undefined || trimArgs.end !== undefined) {
+      videoFilters.push(filter('trim', trimArgs), filter('setpts', ['PTS-STARTPTS']));
+      audioFilters.push(filter('atrim', trimArgs), filter('asetpts', ['PTS-STARTPTS']));
+    }
+    videoFilters.push(...getRangeSpeedFilters(range.speed, 'video', speed));
+    audioFilters.push(...getRangeSpeedFilters(range.speed, 'audio', speed));
+  } else {
+    // Each kept segment (or part of one at its own speed) becomes its own
+    // trimmed stream, then concat joins them.
+    // Filter outputs can only be read once, so a processed source is split first.
+    if (sourceFilters.length > 0) {
+      [videoInput] = graph.chain(videoInput, sourceFilters, graph.label('vpre'));
+    }
+    const videoSources = videoInput === '0:v' || !withVideo
+      ? ranges.map(() => videoInput)
+      : graph.chain(videoInput, [filter('split', [ranges.length])], ranges.map(() => graph.label('vsrc')));
+    const audioSources = audioInput === '0:a' || !input.hasAudio
+      ? ranges.map(() => audioInput)
+      : graph.chain(audioInput, [filter('asplit', [ranges.length])], ranges.map(() => graph.label('asrc')));
+    const concatInputs: string[] = [];
+    ranges.forEach((range, index) => {
+      const trimArgs = { start: range.start, end: range.end ?? undefined };
+      if (withVideo) {
+        const [video] = graph.chain(videoSources[index], [
+          filter('trim', trimArgs),
+          filter('setpts', ['PTS-STARTPTS']),
+          ...getRangeSpeedFilters(range.speed, 'video', speed),
+        ], graph.label(`v${index}`));
+        concatInputs.push(video);
+      }
+
+      if (input.hasAudio) {
+        const [audio] = graph.chain(audioSources[index], [
+          filter('atrim', trimArgs),
+          filter('asetpts', ['PTS-STARTPTS']),
+          ...getRangeSpeedFilters(range.speed, 'audio', speed),
+        ], graph.label(`a${index}`));
+        concatInputs.push(audio);
+      }
+    });
+
+    // Audio-only edits with no audio to join are rejected by the caller
+    if (withVideo || input.hasAudio) {
+      const concatOutputs = [
+        ...(withVideo ? [graph.label('vcat')] : []),
+        ...(input.hasAudio ? [graph.label('acat')] : []),
+      ];
+      graph.chain(concatInputs, [
+        filter('concat', { n: ranges.length, v: withVideo ? 1 : 0, a: input.hasAudio ? 1 : 0 }),
+      ], concatOutputs);
+      if (withVideo) {
+        videoInput = concatOutputs[0];
+      }
+      if (input.hasAudio) {
+        audioInput = concatOutputs[concatOutputs.length - 1];
+      }
+    }
+  }
+
+  let videoOutput: string | undefined;
+  if (withVideo) {
+    // Video chain
+    if (speed !== 1) {
+      videoFilters.push(filter('setpts', [`PTS/${formatNumber(speed)}`]));
+    }
+    videoFilters.push(...fadeFilters('fade', options, duration));
+    for (const custom of options.filters || []) {
+      videoFilters.push(filter(custom));
+    }
+    const scale = input.keepSize ? null : getScaleFilter(getEncodingProfile(options.quality));
+    if (scale) {
+      videoFilters.push(scale);
+    }
+    // The watermark goes on last so it is sized against the final frame
+    const { watermark } = options;
+    [videoOutput] = graph.chain(videoInput, videoFilters, graph.label(watermark && input.watermarkInput ? 'vmain' : 'vout'));
+    if (watermark && input.watermarkInput) {
+      videoOutput = addWatermark(graph, videoOutput, input.watermarkInput, watermark, graph.label('vout'));
+    }
+  }
+
+  // Without audio of its own the output takes the music's length from the
+  // duration, which then has to be known
+  const { backgroundMusic: music } = options;
+  const musicInput = music && (input.hasAudio || duration > 0) ? input.musicInput : undefined;
+  if (!input.hasAudio && !musicInput) {
+    return { graph, videoOutput, duration };
+  }
+
+  // Audio chain. Normalizing sets the level itself, so volume is left out
+  if (options.volume !== 100 && !options.normalize) {
+    audioFilters.push(filter('volume', [options.volume / 100]));
+  }
+  if (speed !== 1) {
+    audioFilters.push(...getTempoFilters(speed));
+  }
+  // Music is mixed in after cuts so it plays on without gaps
+  if (music && musicInput) {
+    const mainFilters = audioFilters.splice(0);
+    let mainAudio: string | undefined;
+    if (input.hasAudio) {
+      [mainAudio] = graph.chain(audioInput, mainFilters, graph.label('anarr'));
+    }
+    const musicStart = getOutputTime(ranges, music.start, speed, input.duration);
+    const musicEnd = music.end !== undefined ? getOutputTime(ranges, music.end, speed, input.duration) : duration;
+    audioInput = addBackgroundMusic(graph, mainAudio, musicInput, music, musicStart, musicEnd, graph.label('amusic'));
+  }
+  if (options.normalize) {
+    audioFilters.push(...getLoudnormFilters(options.normalize, input.loudness));
+  }
+  audioFilters.push(...fadeFilters('afade', options, duration));
+  const [audioOutput] = graph.chain(audioInput, audioFilters, graph.label('aout'));
+
+  return { graph, videoOutput, audioOutput, duration };
+}
+
+function fadeFilters(name: 'fade' | 'afade', options: VideoEditOptions, duration: number): Filter[] {
+  const filters: Filter[] = [];
+
+  if (options.fadeIn > 0) {
+    filters.push(filter(name, { t: 'in', st: 0, d: options.fadeIn }));
+  }
+
+  // A fade-out needs to know where the output ends
+  if (options.fadeOut > 0 && duration > 0) {
+    const fadeOut = Math.min(options.fadeOut, duration);
+    filters.push(filter(name, { t: 'out', st: duration - fadeOut, d: fadeOut }));
+  }
+
+  return filters;
+}
+
+// Common format every clip is converted to before joining
+const CONCAT_SAMPLE_RATE = 48000;
+const DEFAULT_CONCAT_FPS = 30;
+
+/**
+ * Build the -filter_complex graph that joins several inputs in order.
+ * Each input is scaled and padded onto a shared canvas at a shared frame
+ * rate, clips without sound get silence, and neighbours are joined either
+ * with concat or, when options.crossfade is set, with xfade/acrossfade.
+ * Throws if a crossfade or a silent clip needs a duration that is unknown;
+ * callers measure clips that have none in their header first.
+ */
+export function buildConcatGraph(inputs: ConcatInput[], options: ConcatOptions): EditGraph {
+  const graph = new FilterGraph();
+  const { width, height } = getConcatCanvas(inputs, options);
+  const fps = Math.max(...inputs.map(input => input.fps > 0 && input.fps <= 120 ? input.fps : 0)) || DEFAULT_CONCAT_FPS;
+  const hasAudio = inputs.some(input => input.hasAudio);
+
+  // Crossfades need every clip's length to place each transition, and a
+  // clip without sound needs its length to end the silence standing in
+  const knownDurations = inputs.every(input => input.duration > 0);
+  if (!knownDurations && options.crossfade && options.crossfade > 0) {
+    throw new Error('Crossfades need the length of every video');
+  }
+  if (hasAudio && inputs.some(input => !input.hasAudio && input.duration <= 0)) {
+    throw new Error('Videos without sound need a known length to be merged with ones that have it');
+  }
+  const shortest = Math.min(...inputs.map(input => input.duration));
+  const crossfade = options.crossfade && options.crossfade > 0
+    ? Math.min(options.crossfade, shortest / 2)
+    : 0;
+
+  const videos: string[] = [];
+  const audios: string[] = [];
+
+  inputs.forEach((input, index) => {
+    const [video] = graph.chain(`${index}:v`, [
+      filter('scale', { w: width, h: height, force_original_aspect_ratio: 'decrease' }),
+      filter('pad', { w: width, h: height, x: '(ow-iw)/2', y: '(oh-ih)/2' }),
+      filter('setsar', [1]),
+      filter('fps', [fps]),
+      filter('format', ['yuv420p']),
+      // xfade requires matching timebases
+      filter('settb', ['AVTB']),
+    ], graph.label(`v${index}`));
+    videos.push(video);
+
+    if (!hasAudio) return;
+
+    const audioFormat = filter('aformat', {
+      sample_fmts: 'fltp',
+      sample_rates: CONCAT_SAMPLE_RATE,
+      channel_layouts: 'stereo',
+    });
+    const [audio] = input.hasAudio
+      ? graph.chain(`${index}:a`, [filter('aresample', [CONCAT_SAMPLE_RATE]), audioFormat], graph.label(`a${index}`))
+      : graph.chain([], [
+          filter('anullsrc', { r: CONCAT_SAMPLE_RATE, cl: 'stereo' }),
+          filter('atrim', { duration: input.duration }),
+          audioFormat,
+        ], graph.label(`a${index}`));
+    audios.push(audio);
+  });
+
+  const totalDuration = knownDurations
+    ? inputs.reduce((total, input) => total + input.duration, 0) - crossfade * (inputs.length - 1)
+    : 0;
+
+  if (inputs.length === 1) {
+    return { graph, videoOutput: videos[0], audioOutput: audios[0], duration: totalDuration };
+  }
+
+  if (crossfade === 0) {
+    const outputs = hasAudio ? [graph.label('vout'), graph.label('aout')] : [graph.label('vout')];
+    const concatInputs = videos.flatMap((video, index) => hasAudio ? [video, audios[index]] : [video]);
+    graph.chain(concatInputs, [
+      filter('concat', { n: inputs.length, v: 1, a: hasAudio ? 1 : 0 }),
+    ], outputs);
+    return { graph, videoOutput: outputs[0], audioOutput: outputs[1], duration: totalDuration };
+  }
+
+  // Each transition starts crossfade seconds before the joined clip so far ends
+  const transition = options.transition || 'fade';
+  let videoOutput = videos[0];
+  let audioOutput = audios[0];
+  let offset = 0;
+
+  for (let index = 1; index < inputs.length; index++) {
+    offset += inputs[index - 1].duration - crossfade;
+    const last = index === inputs.length - 1;
+
+    [videoOutput] = graph.chain([videoOutput, videos[index]], [
+      filter('xfade', { transition, duration: crossfade, offset }),
+    ], graph.label(last ? 'vout' : 'vx'));
+
+    if (hasAudio) {
+      [audioOutput] = graph.chain([audioOutput, audios[index]], [
+        filter('acrossfade', { d: crossfade }),
+      ], graph.label(last ? 'aout' : 'ax'));
+    }
+  }
+
+  return { graph, videoOutput, audioOutput, duration: totalDuration };
+}
+
+/**
+ * Output size for a concat: the largest input, shrunk to the profile
+ * height if it is taller, with even dimensions for yuv420p
+ */
+function getConcatCanvas(inputs: ConcatInput[], options: ConcatOptions): { width: number; height: number } {
+  const largest = inputs.reduce((best, input) =>
+    input.width * input.height > best.width * best.height ? input : best
+  );
+  let { width, height } = largest;
+
+  const profileHeight = getEncodingProfile(options.quality).height;
+  if (profileHeight && height > profileHeight) {
+    width = (width * profileHeight) / height;
+    height = profileHeight;
+  }
+
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return { width: even(width), height: even(height) };
+}
@@ -0,0 +1,30 @@
+// Fonts bundled in public/fonts for text overlays. The server and the
+// browser (FFmpeg WASM) load the same files, and the editor preview uses
+// them through @font-face, so overlays look the same everywhere.
+
+export type OverlayFontId = 'sans' | 'sans-light' | 'mono' | 'mono-bold';
+
+export interface OverlayFont {
+  id: OverlayFontId;
+  name: string;
+  file: string; // File name in public/fonts
+  cssFamily: string; // @font-face family declared in globals.css
+  cssWeight: number;
+}
+
+// URL path the fonts are served from
+export const FONT_URL_PATH = '/fonts';
+
+export const OVERLAY_FONTS: OverlayFont[] = [
+  { id: 'sans', name: 'Lato', file: 'Lato-Regular.ttf', cssFamily: 'Overlay Lato', cssWeight: 400 },
+  { id: 'sans-light', name: 'Lato Light', file: 'Lato-Light.ttf', cssFamily: 'Overlay Lato', cssWeight: 300 },
+  { id: 'mono', name: 'Source Code Pro', file: 'SourceCodePro-Regular.ttf', cssFamily: 'Overlay Source Code Pro', cssWeight: 400 },
+  { id: 'mono-bold', name: 'Source Code Pro Bold', file: 'SourceCodePro-Bold.ttf', cssFamily: 'Overlay Source Code Pro', cssWeight: 700 },
+];
+
+/**
+ * Look up a font, falling back to Lato for unknown IDs
+ */
+export function getOverlayFont(id: string | undefined): OverlayFont {
+  return OVERLAY_FONTS.find(font => font.id === id) || OVERLAY_FONTS[0];
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMasterPlaylist,
+  DEFAULT_HLS_LADDER,
+  getVariantCodecs,
+  HlsVariant,
+  isHlsFilePath,
+  parseMasterPlaylist,
+  parseMediaPlaylist,
+  selectRenditions
+} from './hls';
+
+const VARIANTS: HlsVariant[] = [
+  { name: '720p', uri: '720p/playlist.m3u8', bandwidth: 2928000, width: 1280, height: 720, codecs: getVariantCodecs(true) },
+  { name: '360p', uri: '360p/playlist.m3u8', bandwidth: 896000, width: 640, height: 360, codecs: getVariantCodecs(true) },
+];
+
+describe('parseMasterPlaylist', () => {
+  it('reads back the variants of a built playlist, lowest bandwidth first', () => {
+    expect(parseMasterPlaylist(buildMasterPlaylist(VARIANTS))).toEqual([VARIANTS[1], VARIANTS[0]]);
+  });
+
+  it('fills in names and codecs a playlist leaves out', () => {
+    const text = [
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360',
+      '',
+      '360p/playlist.m3u8',
+    ].join('\r\n');
+
+    expect(parseMasterPlaylist(text)).toEqual([{
+      name: '360p',
+      uri: '360p/playlist.m3u8',
+      bandwidth: 800000,
+      width: 640,
+      height: 360,
+      codecs: getVariantCodecs(true),
+    }]);
+  });
+
+  it('keeps commas inside quoted attributes', () => {
+    const text = '#EXTM3U\n#EXT-X-STREAM-INF:CODECS="avc1.4d4028,mp4a.40.2",BANDWIDTH=1\nlow.m3u8\n';
+    expect(parseMasterPlaylist(text)[0]).toMatchObject({ codecs: 'avc1.4d4028,mp4a.40.2', bandwidth: 1 });
+  });
+
+  it('skips a variant without a URI', () => {
+    expect(parseMasterPlaylist('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\n')).toEqual([]);
+  });
+});
+
+describe('parseMediaPlaylist', () => {
+  it('reads the init segment and places segments back to back', () => {
+    const text = [
+      '#EXTM3U',
+      '#EXT-X-TARGETDURATION:6',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:6.000000,',
+      'segment_00000.m4s',
+      '#EXTINF:6.000000,',
+      'segment_00001.m4s',
+      '#EXTINF:2.500000,',
+      'segment_00002.m4s',
+      '#EXT-X-ENDLIST',
+    ].join('\n');
+
+    expect(parseMediaPlaylist(text)).toEqual({
+      initUri: 'init.mp4',
+      segments: [
+        { uri: 'segment_00000.m4s', start: 0, duration: 6 },
+        { uri: 'segment_00001.m4s', start: 6, duration: 6 },
+        { uri: 'segment_00002.m4s', start: 12, duration: 2.5 },
+      ],
+      duration: 14.5,
+    });
+  });
+
+  it('ignores URIs without a duration and defaults the init segment', () => {
+    expect(parseMediaPlaylist('#EXTM3U\nstray.m4s\n')).toEqual({ initUri: 'init.mp4', segments: [], duration: 0 });
+  });
+});
+
+describe('selectRenditions', () => {
+  it('skips renditions taller than the source', () => {
+    expect(selectRenditions(DEFAULT_HLS_LADDER, 720).map(rendition => rendition.name)).toEqual(['360p', '720p']);
+  });
+
+  it('encodes a small source at its own even height', () => {
+    expect(selectRenditions(DEFAULT_HLS_LADDER, 241)).toMatchObject([{ name: '240p', height: 240 }]);
+  });
+});
+
+describe('isHlsFilePath', () => {
+  it('accepts the files packaging writes', () => {
+    expect(isHlsFilePath(['master.m3u8'])).toBe(true);
+    expect(isHlsFilePath(['720p', 'playlist.m3u8'])).toBe(true);
+    expect(isHlsFilePath(['1080p', 'init.mp4'])).toBe(true);
+    expect(isHlsFilePath(['360p', 'segment_00042.m4s'])).toBe(true);
+  });
+
+  it('rejects anything else below the video directory', () => {
+    expect(isHlsFilePath([])).toBe(false);
+    expect(isHlsFilePath(['manifest.json'])).toBe(false);
+    expect(isHlsFilePath(['..', 'playlist.m3u8'])).toBe(false);
+    expect(isHlsFilePath(['720p', '..'])).toBe(false);
+    expect(isHlsFilePath(['720p', 'segment_42.m4s'])).toBe(false);
+    expect(isHlsFilePath(['720p', 'segment_00042.m4s', 'extra'])).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+// HLS for long recordings: a ladder of fragmented MP4 renditions and the
+// playlists that describe them. Shared by the server, which packages and
+// serves them, and the Media Source player; no Node dependencies.
+
+export interface HlsRendition {
+  name: string; // Directory name and label, e.g. '720p'
+  height: number; // Target height; width follows the aspect ratio
+  videoBitrate: number; // kbit/s
+  audioBitrate: number; // kbit/s
+}
+
+// Renditions taller than the source are skipped
+export const DEFAULT_HLS_LADDER: HlsRendition[] = [
+  { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+  { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 160 },
+];
+
+// Every rendition has a keyframe at the same times, so segments line up
+// and the player can switch between renditions at any segment boundary
+export const HLS_SEGMENT_DURATION = 6;
+
+// H.264 Main at level 4.0 and AAC-LC for every rendition, so the player
+// can switch renditions on a single SourceBuffer
+export const HLS_VIDEO_CODEC = 'avc1.4d4028';
+export const HLS_AUDIO_CODEC = 'mp4a.40.2';
+
+export const MASTER_PLAYLIST_NAME = 'master.m3u8';
+export const MEDIA_PLAYLIST_NAME = 'playlist.m3u8';
+export const INIT_SEGMENT_NAME = 'init.mp4';
+
+export interface HlsVariant {
+  name: string;
+  uri: string; // Media playlist, relative to the master playlist
+  bandwidth: number; // Peak bits per second
+  width: number;
+  height: number;
+  codecs: string;
+}
+
+// What a packaged video holds, stored next to its playlists
+export interface HlsManifest {
+  variants: HlsVariant[];
+  duration: number; // Seconds
+  width: number; // Source frame size, which edits are measured against
+  height: number;
+  hasAudio: boolean;
+  createdAt: string;
+}
+
+export interface HlsSegment {
+  uri: string;
+  start: number; // Seconds from the start of the stream
+  duration: number;
+}
+
+export interface HlsMediaPlaylist {
+  initUri: string;
+  segments: HlsSegment[];
+  duration: number;
+}
+
+/**
+ * Renditions worth encoding for a source: none taller than it, and a
+ * single source-height rendition when it is smaller than the whole ladder
+ */
+export function selectRenditions(ladder: HlsRendition[], sourceHeight: number): HlsRendition[] {
+  const sorted = [...ladder].sort((a, b) => a.height - b.height);
+  const fitting = sorted.filter(rendition => rendition.height <= sourceHeight);
+  if (fitting.length > 0 || sorted.length === 0) {
+    return fitting;
+  }
+  // Even heights keep yuv420p happy
+  const height = Math.max(2, Math.floor(sourceHeight / 2) * 2);
+  return [{ ...sorted[0], name: `${height}p`, height }];
+}
+
+/**
+ * Peak bandwidth to advertise for a rendition, in bits per second
+ */
+export function getRenditionBandwidth(rendition: HlsRendition, hasAudio: boolean): number {
+  return (rendition.videoBitrate + (hasAudio ? rendition.audioBitrate : 0)) * 1000;
+}
+
+export function getVariantCodecs(hasAudio: boolean): string {
+  return hasAudio ? `${HLS_VIDEO_CODEC},${HLS_AUDIO_CODEC}` : HLS_VIDEO_CODEC;
+}
+
+export function buildMasterPlaylist(variants: HlsVariant[]): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:7', '#EXT-X-INDEPENDENT-SEGMENTS'];
+  for (const variant of variants) {
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height},CODECS="${variant.codecs}",NAME="${variant.name}"`,
+      variant.uri
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Read the variants from a master playlist, lowest bandwidth first
+ */
+export function parseMasterPlaylist(text: string): HlsVariant[] {
+  const variants: HlsVariant[] = [];
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+
+  lines.forEach((line, index) => {
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+    const uri = lines.slice(index + 1).find(next => next && !next.startsWith('#'));
+    if (!uri) return;
+
+    const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+    const [width, height] = (attributes.RESOLUTION || '0x0').split('x').map(Number);
+    variants.push({
+      name: attributes.NAME || `${height}p`,
+      uri,
+      bandwidth: Number(attributes.BANDWIDTH) || 0,
+      width: width || 0,
+      height: height || 0,
+      codecs: attributes.CODECS || getVariantCodecs(true),
+    });
+  });
+
+  return variants.sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+/**
+ * Read the init segment and media segments from a media playlist
+ */
+export function parseMediaPlaylist(text: string): HlsMediaPlaylist {
+  let initUri = INIT_SEGMENT_NAME;
+  let pendingDuration: number | null = null;
+  let start = 0;
+  const segments: HlsSegment[] = [];
+
+  for (const line of text.split(/\r?\n/).map(value => value.trim())) {
+    if (line.startsWith('#EXT-X-MAP:')) {
+      initUri = parseAttributes(line.slice('#EXT-X-MAP:'.length)).URI || initUri;
+    } else if (line.startsWith('#EXTINF:')) {
+      pendingDuration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line && !line.startsWith('#') && pendingDuration !== null) {
+      segments.push({ uri: line, start, duration: pendingDuration });
+      start += pendingDuration;
+      pendingDuration = null;
+    }
+  }
+
+  return { initUri, segments, duration: start };
+}
+
+/**
+ * Whether a path below a packaged video's directory is one the server
+ * writes, e.g. ['master.m3u8'] or ['720p', 'segment_00003.m4s']. Keeps
+ * requests from reaching anything else on disk.
+ */
+export function isHlsFilePath(parts: string[]): boolean {
+  if (parts.length === 1) {
+    return parts[0] === MASTER_PLAYLIST_NAME;
+  }
+  return parts.length === 2
+    && /^\d{2,4}p$/.test(parts[0])
+    && (parts[1] === MEDIA_PLAYLIST_NAME || parts[1] === INIT_SEGMENT_NAME || /^segment_\d{5}\.m4s$/.test(parts[1]));
+}
+
+// Attribute lists look like BANDWIDTH=800000,CODECS="avc1.4d4028,mp4a.40.2"
+function parseAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
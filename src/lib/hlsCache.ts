@@ -0,0 +1,45 @@
+import path from 'path';
+import { HlsManifest, isHlsFilePath } from './hls';
+import { createVideoCacheWorkDir, getVideoCacheDir, publishVideoCache, readVideoCache } from './videoCache';
+
+// Packaged HLS renditions, one cache directory per Drive file ID. A video
+// is only visible here once packaging has finished.
+
+/**
+ * Directory holding a video's renditions
+ */
+export function getHlsDir(videoId: string): string {
+  return getVideoCacheDir('hls', videoId);
+}
+
+/**
+ * The manifest of a packaged video, or null if it has not been packaged
+ */
+export function readHlsManifest(videoId: string): Promise<HlsManifest | null> {
+  return readVideoCache<HlsManifest>('hls', videoId);
+}
+
+/**
+ * Fresh directory to package into before publishHls moves it into place
+ */
+export function createHlsWorkDir(videoId: string, jobId: string): Promise<string> {
+  return createVideoCacheWorkDir('hls', videoId, jobId);
+}
+
+/**
+ * Store the manifest and replace any earlier packaging of the video
+ */
+export function publishHls(videoId: string, workDir: string, manifest: HlsManifest): Promise<void> {
+  return publishVideoCache('hls', videoId, workDir, manifest);
+}
+
+/**
+ * Local path of a playlist or segment, or null for anything that is not
+ * one of the files packaging writes
+ */
+export function resolveHlsFile(videoId: string, parts: string[]): string | null {
+  if (!isHlsFilePath(parts)) {
+    return null;
+  }
+  return path.join(getHlsDir(videoId), ...parts);
+}
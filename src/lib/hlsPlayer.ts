@@ -0,0 +1,289 @@
+import {
+  getVariantCodecs,
+  HlsMediaPlaylist,
+  HlsVariant,
+  parseMasterPlaylist,
+  parseMediaPlaylist
+} from './hls';
+
+// A small HLS player on Media Source Extensions, for the fragmented MP4
+// renditions the server packages. It keeps a window of media buffered
+// around the playhead and picks the rendition from measured throughput.
+// Browser only.
+
+// Seconds of media kept buffered ahead of the playhead
+const BUFFER_AHEAD = 30;
+// Seconds kept behind it before older media is removed
+const BUFFER_BEHIND = 30;
+// Share of the measured throughput a rendition may use
+const BANDWIDTH_SAFETY = 0.7;
+// Weight of the newest sample in the throughput estimate
+const BANDWIDTH_SMOOTHING = 0.3;
+// Buffering is re-checked this often while nothing else happens
+const TICK_MS = 1000;
+// Gaps smaller than this between buffered ranges count as contiguous
+const GAP_TOLERANCE = 0.1;
+
+interface LoadedPlaylist extends HlsMediaPlaylist {
+  url: URL; // Segment URIs are relative to it
+}
+
+export class HlsPlayer {
+  private video: HTMLVideoElement;
+  private masterUrl: URL;
+  private onRendition?: (variant: HlsVariant) => void;
+  private mediaSource: MediaSource | null = null;
+  private sourceBuffer: SourceBuffer | null = null;
+  private objectUrl: string | null = null;
+  private variants: HlsVariant[] = [];
+  private playlists = new Map<string, LoadedPlaylist>();
+  private initVariant: HlsVariant | null = null; // Rendition whose init segment was appended last
+  private controller: AbortController | null = null;
+  private bandwidth = 0; // Bits per second, 0 until a segment has been measured
+  private loading = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private destroyed = false;
+
+  constructor(video: HTMLVideoElement, masterUrl: string, onRendition?: (variant: HlsVariant) => void) {
+    this.video = video;
+    this.masterUrl = new URL(masterUrl, window.location.href);
+    this.onRendition = onRendition;
+  }
+
+  /**
+   * Whether this browser can play the renditions through Media Source
+   */
+  static isSupported(codecs: string = getVariantCodecs(true)): boolean {
+    return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(`video/mp4; codecs="${codecs}"`);
+  }
+
+  /**
+   * Read the master playlist and attach to the video element. Playback
+   * starts at the lowest rendition so the first frame shows quickly.
+   */
+  async load(): Promise<void> {
+    this.variants = parseMasterPlaylist(await this.fetchText(this.masterUrl));
+    if (this.variants.length === 0) {
+      throw new Error('Master playlist has no renditions');
+    }
+
+    const first = this.variants[0];
+    const playlist = await this.getPlaylist(first);
+
+    const mediaSource = new MediaSource();
+    this.mediaSource = mediaSource;
+    this.objectUrl = URL.createObjectURL(mediaSource);
+    this.video.src = this.objectUrl;
+    await new Promise<void>(resolve => mediaSource.addEventListener('sourceopen', () => resolve(), { once: true }));
+    if (this.destroyed) return;
+
+    mediaSource.duration = playlist.duration;
+    this.sourceBuffer = mediaSource.addSourceBuffer(`video/mp4; codecs="${first.codecs}"`);
+
+    this.video.addEventListener('seeking', this.handleSeeking);
+    this.video.addEventListener('timeupdate', this.pump);
+    this.timer = setInterval(this.pump, TICK_MS);
+    this.pump();
+  }
+
+  /**
+   * Stop loading and detach from the video element
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.controller?.abort();
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.video.removeEventListener('seeking', this.handleSeeking);
+    this.video.removeEventListener('timeupdate', this.pump);
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      if (this.video.src === this.objectUrl) {
+        this.video.removeAttribute('src');
+        this.video.load();
+      }
+    }
+  }
+
+  // Drop whatever is in flight and load from the new position
+  private handleSeeking = () => {
+    this.controller?.abort();
+    if (this.sourceBuffer?.updating && this.mediaSource?.readyState === 'open') {
+      this.sourceBuffer.abort();
+      // The append may have been an init segment cut short
+      this.initVariant = null;
+    }
+    this.pump();
+  };
+
+  private pump = () => {
+    this.fillBuffer().catch(error => {
+      // A seek cancelled the load; start the one for the new position
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        this.pump();
+        return;
+      }
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        this.evict(this.video.currentTime - 5);
+        return;
+      }
+      console.error('HLS playback failed:', error);
+    });
+  };
+
+  /**
+   * Load the next segment if less than BUFFER_AHEAD is buffered, or trim
+   * old media first. Only one load runs at a time.
+   */
+  private async fillBuffer(): Promise<void> {
+    const { mediaSource, sourceBuffer } = this;
+    if (this.destroyed || this.loading || !mediaSource || !sourceBuffer || sourceBuffer.updating || mediaSource.readyState === 'closed') {
+      return;
+    }
+
+    const time = this.video.currentTime;
+    const { buffered } = sourceBuffer;
+    if (buffered.length > 0 && time - buffered.start(0) > BUFFER_BEHIND * 1.5) {
+      this.evict(time - BUFFER_BEHIND);
+      return;
+    }
+
+    const bufferedEnd = this.getBufferedEnd(time);
+    if (bufferedEnd - time >= BUFFER_AHEAD) {
+      return;
+    }
+
+    this.loading = true;
+    try {
+      const variant = this.chooseVariant();
+      const playlist = await this.getPlaylist(variant);
+      const segment = playlist.segments.find(candidate => candidate.start + candidate.duration > bufferedEnd + GAP_TOLERANCE);
+
+      if (!segment) {
+        if (mediaSource.readyState === 'open' && !sourceBuffer.updating) {
+          mediaSource.endOfStream();
+        }
+        return;
+      }
+
+      // Switching renditions starts with the new one's init segment
+      if (this.initVariant !== variant) {
+        await this.append(await this.fetchData(new URL(playlist.initUri, playlist.url)));
+        this.initVariant = variant;
+        this.onRendition?.(variant);
+      }
+
+      const started = performance.now();
+      const data = await this.fetchData(new URL(segment.uri, playlist.url));
+      this.measure(data.byteLength, performance.now() - started);
+      await this.append(data);
+    } finally {
+      this.loading = false;
+    }
+
+    this.pump();
+  }
+
+  /**
+   * End of the buffered range the playhead is in, or the playhead itself
+   * when nothing around it is buffered
+   */
+  private getBufferedEnd(time: number): number {
+    const buffered = this.sourceBuffer?.buffered;
+    if (!buffered) return time;
+
+    for (let index = 0; index < buffered.length; index++) {
+      if (buffered.start(index) <= time + GAP_TOLERANCE && time <= buffered.end(index) + GAP_TOLERANCE) {
+        return buffered.end(index);
+      }
+    }
+    return time;
+  }
+
+  // The highest rendition the measured throughput can sustain
+  private chooseVariant(): HlsVariant {
+    if (this.bandwidth === 0) {
+      return this.initVariant || this.variants[0];
+    }
+    const budget = this.bandwidth * BANDWIDTH_SAFETY;
+    const affordable = this.variants.filter(variant => variant.bandwidth <= budget);
+    return affordable[affordable.length - 1] || this.variants[0];
+  }
+
+  private measure(bytes: number, milliseconds: number): void {
+    if (milliseconds <= 0) return;
+    const sample = (bytes * 8) / (milliseconds / 1000);
+    this.bandwidth = this.bandwidth === 0
+      ? sample
+      : this.bandwidth * (1 - BANDWIDTH_SMOOTHING) + sample * BANDWIDTH_SMOOTHING;
+  }
+
+  private evict(end: number): void {
+    const { sourceBuffer } = this;
+    if (!sourceBuffer || sourceBuffer.updating || sourceBuffer.buffered.length === 0) return;
+    const start = sourceBuffer.buffered.start(0);
+    if (end > start) {
+      sourceBuffer.remove(start, end);
+    }
+  }
+
+  private append(data: ArrayBuffer): Promise<void> {
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer) {
+      return Promise.reject(new Error('Player is not attached'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        sourceBuffer.removeEventListener('updateend', handleEnd);
+        sourceBuffer.removeEventListener('error', handleError);
+      };
+      const handleEnd = () => {
+        cleanup();
+        resolve();
+      };
+      const handleError = () => {
+        cleanup();
+        reject(new Error('Failed to append media'));
+      };
+
+      sourceBuffer.addEventListener('updateend', handleEnd);
+      sourceBuffer.addEventListener('error', handleError);
+      try {
+        sourceBuffer.appendBuffer(data);
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  private async getPlaylist(variant: HlsVariant): Promise<LoadedPlaylist> {
+    const cached = this.playlists.get(variant.uri);
+    if (cached) return cached;
+
+    const url = new URL(variant.uri, this.masterUrl);
+    const playlist = { ...parseMediaPlaylist(await this.fetchText(url)), url };
+    this.playlists.set(variant.uri, playlist);
+    return playlist;
+  }
+
+  private async fetchText(url: URL): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url.pathname}`);
+    }
+    return response.text();
+  }
+
+  private async fetchData(url: URL): Promise<ArrayBuffer> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url.pathname}`);
+    }
+    return response.arrayBuffer();
+  }
+}
@@ -0,0 +1,56 @@
+import type { ProcessingJob } from '@/types/video';
+
+// Following a server job from the browser over its Server-Sent Events
+// progress stream. Browser only.
+
+export interface WaitForJobOptions {
+  onProgress?: (job: ProcessingJob) => void; // Each update while the job is queued or running
+  signal?: AbortSignal; // Aborting stops following the job; the job itself keeps running
+}
+
+/**
+ * Follow a job until it completes, fails or is cancelled, and resolve
+ * with the job as it ended
+ */
+export function waitForJob(
+  videoId: string,
+  jobId: string,
+  { onProgress, signal }: WaitForJobOptions = {}
+): Promise<ProcessingJob> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Stopped following job progress'));
+      return;
+    }
+
+    const events = new EventSource(`/api/videos/${videoId}/process/events?jobId=${jobId}`);
+
+    const handleAbort = () => {
+      events.close();
+      reject(new Error('Stopped following job progress'));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const finish = () => {
+      events.close();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    events.addEventListener('progress', (event) => {
+      onProgress?.(JSON.parse((event as MessageEvent).data));
+    });
+
+    events.addEventListener('end', (event) => {
+      finish();
+      resolve(JSON.parse((event as MessageEvent).data));
+    });
+
+    events.onerror = () => {
+      // EventSource retries on its own unless the server refused the stream
+      if (events.readyState === EventSource.CLOSED) {
+        finish();
+        reject(new Error('Lost connection to job progress'));
+      }
+    };
+  });
+}
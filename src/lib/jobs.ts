@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobStage = 'queued' | 'downloading' | 'probing' | 'processing' | 'uploading' | 'done';
+
+// Jobs in each lane wait only for jobs in the same lane. Work nobody asked
+// for, like thumbnails for a video that was only opened, goes in
+// 'background' so it never holds up an export.
+export type JobLane = 'default' | 'background';
+
+// Failures the client can act on rather than just report
+export type JobErrorCode = 'reauthenticate';
+
+export interface JobMetrics {
+  timemark: string; // HH:MM:SS.xx position in the output
+  fps: number;
+  speed: number; // encoding speed relative to realtime
+}
+
+export interface Job<TResult = unknown> {
+  id: string;
+  type: string;
+  userId: string;
+  videoId: string;
+  variant?: string; // Settings the job runs with, for jobs whose result depends on them
+  shared?: boolean; // Computes a result of the video itself, so anyone who can open the video may follow it
+  status: JobStatus;
+  stage: JobStage;
+  percent: number; // 0-100, progress of the current stage
+  metrics?: JobMetrics;
+  createdAt: string;
+  updatedAt: string;
+  result?: TResult;
+  error?: string;
+  errorCode?: JobErrorCode;
+}
+
+export interface JobContext {
+  jobId: string;
+  signal: AbortSignal;
+  setStage: (stage: JobStage) => void;
+  setPercent: (percent: number, metrics?: JobMetrics) => void;
+}
+
+export interface JobQueueEvents {
+  update: [job: Job];
+}
+
+/**
+ * Error thrown by a runner to fail its job with a code the client can act on
+ */
+export class JobError extends Error {
+  code: JobErrorCode;
+
+  constructor(message: string, code: JobErrorCode) {
+    super(message);
+    this.name = 'JobError';
+    this.code = code;
+  }
+}
+
+export type JobRunner<TResult> = (context: JobContext) => Promise<TResult>;
+
+interface JobEntry {
+  job: Job;
+  lane: JobLane;
+  controller: AbortController;
+  runner: JobRunner<unknown>;
+}
+
+// Finished jobs are kept around this long so clients can read the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class JobQueue extends EventEmitter<JobQueueEvents> {
+  private entries = new Map<string, JobEntry>();
+  private pending: Record<JobLane, string[]> = { default: [], background: [] };
+  private running: Record<JobLane, number> = { default: 0, background: 0 };
+  private concurrency: Record<JobLane, number>;
+
+  constructor(concurrency: number = 1, backgroundConcurrency: number = 1) {
+    super();
+    // Every open progress stream subscribes to updates
+    this.setMaxListeners(0);
+    this.concurrency = { default: concurrency, background: backgroundConcurrency };
+  }
+
+  /**
+   * Queue a job and start it as soon as a worker slot in its lane is free
+   */
+  enqueue<TResult>(
+    details: { type: string; userId: string; videoId: string; variant?: string; shared?: boolean },
+    runner: JobRunner<TResult>,
+    lane: JobLane = 'default'
+  ): Job<TResult> {
+    this.prune();
+
+    const now = new Date().toISOString();
+    const job: Job<TResult> = {
+      id: randomUUID(),
+      ...details,
+      status: 'queued',
+      stage: 'queued',
+      percent: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.entries.set(job.id, {
+      job,
+      lane,
+      controller: new AbortController(),
+      runner,
+    });
+    this.pending[lane].push(job.id);
+    this.drain(lane);
+
+    return { ...job };
+  }
+
+  /**
+   * Get a snapshot of a job
+   */
+  get(jobId: string): Job | undefined {
+    const entry = this.entries.get(jobId);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  /**
+   * List a user's jobs, newest first
+   */
+  listForUser(userId: string): Job[] {
+    this.prune();
+
+    return Array.from(this.entries.values())
+      .map(entry => ({ ...entry.job }))
+      .filter(job => job.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Find a queued or running job of a type for a video, whoever started it
+   */
+  findActive(type: string, videoId: string, variant?: string): Job | undefined {
+    for (const { job } of this.entries.values()) {
+      if (job.type === type && job.videoId === videoId && job.variant === variant && isActive(job)) {
+        return { ...job };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Cancel a queued or running job. Returns false if it already finished.
+   */
+  cancel(jobId: string): boolean {
+    const entry = this.entries.get(jobId);
+    if (!entry || !isActive(entry.job)) {
+      return false;
+    }
+
+    this.pending[entry.lane] = this.pending[entry.lane].filter(id => id !== jobId);
+    this.update(entry.job, { status: 'cancelled' });
+    entry.controller.abort();
+    return true;
+  }
+
+  private drain(lane: JobLane) {
+    const pending = this.pending[lane];
+    while (this.running[lane] < this.concurrency[lane] && pending.length > 0) {
+      const entry = this.entries.get(pending.shift()!);
+      if (entry) {
+        this.running[lane]++;
+        this.execute(entry).finally(() => {
+          this.running[lane]--;
+          this.drain(lane);
+        });
+      }
+    }
+  }
+
+  private async execute(entry: JobEntry) {
+    const { job, controller, runner } = entry;
+    this.update(job, { status: 'running' });
+
+    const context: JobContext = {
+      jobId: job.id,
+      signal: controller.signal,
+      setStage: (stage) => {
+        if (job.status === 'running') {
+          this.update(job, { stage, percent: 0, metrics: undefined });
+        }
+      },
+      setPercent: (percent, metrics) => {
+        if (job.status === 'running') {
+          this.update(job, {
+            percent: Math.max(0, Math.min(100, Math.round(percent))),
+            metrics,
+          });
+        }
+      },
+    };
+
+    try {
+      const result = await runner(context);
+      if (job.status === 'running') {
+        this.update(job, { status: 'completed', stage: 'done', percent: 100, result });
+      }
+    } catch (error) {
+      if (job.status === 'running') {
+        console.error(`Job ${job.id} failed:`, error);
+        this.update(job, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorCode: error instanceof JobError ? error.code : undefined,
+        });
+      }
+    }
+  }
+
+  private update(job: Job, changes: Partial<Job>) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    this.emit('update', { ...job });
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, entry] of this.entries) {
+      if (!isActive(entry.job) && Date.parse(entry.job.updatedAt) < cutoff) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+export function isActive(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+// Keep a single queue across Next.js dev-server module reloads
+const globalForJobs = globalThis as unknown as { jobQueue?: JobQueue };
+
+export const jobQueue = globalForJobs.jobQueue ??
+  new JobQueue(
+    parseInt(process.env.JOB_CONCURRENCY || '1'),
+    parseInt(process.env.BACKGROUND_JOB_CONCURRENCY || '1')
+  );
+
+globalForJobs.jobQueue = jobQueue;
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { ease, Easing, getZoomView, interpolateKeyframes, keyframeExpression, ZoomKeyframe } from './keyframes';
+
+const FRAME = { x: 0, y: 0, width: 1920, height: 1080 };
+
+const keyframe = (time: number, rect: Partial<ZoomKeyframe>, easing: Easing = 'linear'): ZoomKeyframe => ({
+  id: `keyframe-${time}`,
+  time,
+  easing,
+  ...FRAME,
+  ...rect,
+});
+
+// Zoom in on the top left, hold, then ease back out
+const KEYFRAMES = [
+  keyframe(2, {}),
+  keyframe(4, { width: 960, height: 540 }),
+  keyframe(6, { width: 960, height: 540 }),
+  keyframe(10, {}, 'ease-in-out'),
+];
+
+// Evaluate an expression the way FFmpeg would, for the few functions
+// keyframeExpression uses
+const evaluate = (expression: string, time: number): number => {
+  const run = new Function('t', 'iff', 'lt', `return ${expression.replace(/\bif\(/g, 'iff(')};`);
+  return run(time, (condition: number, then: number, otherwise: number) => condition ? then : otherwise,
+    (a: number, b: number) => Number(a < b));
+};
+
+describe('ease', () => {
+  it('runs every curve from 0 to 1', () => {
+    for (const easing of ['linear', 'ease-in', 'ease-out', 'ease-in-out'] as Easing[]) {
+      expect(ease(easing, 0)).toBe(0);
+      expect(ease(easing, 1)).toBe(1);
+    }
+  });
+
+  it('shapes the middle of the move', () => {
+    expect(ease('linear', 0.5)).toBe(0.5);
+    expect(ease('ease-in', 0.5)).toBe(0.25);
+    expect(ease('ease-out', 0.5)).toBe(0.75);
+    expect(ease('ease-in-out', 0.5)).toBe(0.5);
+    expect(ease('ease-in-out', 0.25)).toBeLessThan(0.25);
+  });
+
+  it('clamps progress outside the move', () => {
+    expect(ease('ease-in', -1)).toBe(0);
+    expect(ease('ease-out', 2)).toBe(1);
+  });
+});
+
+describe('interpolateKeyframes', () => {
+  it('shows the whole frame without keyframes', () => {
+    expect(interpolateKeyframes([], 5, FRAME)).toEqual(FRAME);
+  });
+
+  it('holds the first and last keyframes outside them', () => {
+    expect(interpolateKeyframes(KEYFRAMES, 0, FRAME)).toEqual(FRAME);
+    expect(interpolateKeyframes(KEYFRAMES, 12, FRAME)).toEqual(FRAME);
+  });
+
+  it('moves between keyframes on the curve of the later one', () => {
+    expect(interpolateKeyframes(KEYFRAMES, 3, FRAME)).toEqual({ x: 0, y: 0, width: 1440, height: 810 });
+    expect(interpolateKeyframes(KEYFRAMES, 5, FRAME)).toEqual({ x: 0, y: 0, width: 960, height: 540 });
+    // A quarter of the way into the ease-in-out move is under a quarter of the change
+    expect(interpolateKeyframes(KEYFRAMES, 7, FRAME).width).toBeLessThan(1200);
+  });
+
+  it('sorts keyframes by time first', () => {
+    const shuffled = [KEYFRAMES[2], KEYFRAMES[0], KEYFRAMES[3], KEYFRAMES[1]];
+    expect(interpolateKeyframes(shuffled, 3, FRAME)).toEqual(interpolateKeyframes(KEYFRAMES, 3, FRAME));
+  });
+});
+
+describe('getZoomView', () => {
+  it('fits the rectangle and keeps its centre', () => {
+    expect(getZoomView({ x: 480, y: 270, width: 960, height: 540 }, FRAME)).toEqual({ zoom: 2, x: 480, y: 270 });
+  });
+
+  it('keeps the view inside the frame', () => {
+    expect(getZoomView({ x: 1800, y: 1000, width: 480, height: 270 }, FRAME)).toEqual({ zoom: 4, x: 1440, y: 810 });
+  });
+
+  it('caps the zoom', () => {
+    expect(getZoomView({ x: 0, y: 0, width: 10, height: 10 }, FRAME).zoom).toBe(8);
+  });
+});
+
+describe('keyframeExpression', () => {
+  it('is a constant without keyframes or with one', () => {
+    expect(keyframeExpression([], 'width', 'it')).toBe('0');
+    expect(evaluate(keyframeExpression([keyframe(3, { x: 120 })], 'x', 't'), 10)).toBe(120);
+  });
+
+  it('nests one branch per pair of keyframes', () => {
+    expect(keyframeExpression(KEYFRAMES.slice(0, 2), 'width', 'it')).toBe(
+      'if(lt(it,2),1920,if(lt(it,4),1920-960*((it-2)/2),960))'
+    );
+  });
+
+  it('follows the same path as the preview', () => {
+    for (const key of ['x', 'y', 'width', 'height'] as const) {
+      const expression = keyframeExpression(KEYFRAMES, key, 't');
+      for (const time of [0, 2, 2.5, 3, 4, 5, 6, 7, 8.5, 10, 11]) {
+        expect(evaluate(expression, time)).toBeCloseTo(interpolateKeyframes(KEYFRAMES, time, FRAME)[key], 6);
+      }
+    }
+  });
+
+  it('jumps between keyframes at the same time', () => {
+    const expression = keyframeExpression([keyframe(2, {}), keyframe(2, { width: 960 })], 'width', 't');
+    expect(evaluate(expression, 1)).toBe(1920);
+    expect(evaluate(expression, 3)).toBe(960);
+  });
+});
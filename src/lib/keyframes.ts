@@ -0,0 +1,140 @@
+import type { CropRect } from './filterGraph';
+
+// Keyframe interpolation for zoom and pan. The same curves are evaluated
+// in JavaScript for the editor preview and turned into FFmpeg expressions
+// for the export, so both follow the same path. No Node dependencies.
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+// The area of the frame in view at a point in source time. The view
+// eases from the previous keyframe into this one, and holds before the
+// first and after the last keyframe.
+export interface ZoomKeyframe extends CropRect {
+  id: string;
+  time: number; // Source time in seconds
+  easing: Easing; // Curve of the move into this keyframe
+}
+
+export interface ZoomView {
+  zoom: number; // Magnification, 1 shows the whole frame
+  x: number; // Top-left of the visible area in frame pixels
+  y: number;
+}
+
+// Zoom is capped so the picture does not turn into a few blurry pixels
+export const MAX_ZOOM = 8;
+
+type RectKey = 'x' | 'y' | 'width' | 'height';
+
+/**
+ * Apply an easing curve to progress p in [0, 1]
+ */
+export function ease(easing: Easing, p: number): number {
+  const t = Math.max(0, Math.min(p, 1));
+  switch (easing) {
+    case 'ease-in':
+      return t * t;
+    case 'ease-out':
+      return 1 - (1 - t) * (1 - t);
+    case 'ease-in-out':
+      return t * t * (3 - 2 * t);
+    default:
+      return t;
+  }
+}
+
+/**
+ * The same curves as ease(), as an FFmpeg expression of progress p
+ */
+export function easeExpression(easing: Easing, p: string): string {
+  switch (easing) {
+    case 'ease-in':
+      return `(${p})*(${p})`;
+    case 'ease-out':
+      return `(1-(1-(${p}))*(1-(${p})))`;
+    case 'ease-in-out':
+      return `(${p})*(${p})*(3-2*(${p}))`;
+    default:
+      return `(${p})`;
+  }
+}
+
+export function sortKeyframes(keyframes: ZoomKeyframe[]): ZoomKeyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * The rectangle in view at a source time. Without keyframes the whole
+ * frame is shown.
+ */
+export function interpolateKeyframes(keyframes: ZoomKeyframe[], time: number, frame: CropRect): CropRect {
+  const sorted = sortKeyframes(keyframes);
+  if (sorted.length === 0) {
+    return { x: 0, y: 0, width: frame.width, height: frame.height };
+  }
+
+  const nextIndex = sorted.findIndex(keyframe => keyframe.time > time);
+  if (nextIndex === 0) {
+    return pickRect(sorted[0]);
+  }
+  if (nextIndex === -1) {
+    return pickRect(sorted[sorted.length - 1]);
+  }
+
+  const from = sorted[nextIndex - 1];
+  const to = sorted[nextIndex];
+  const p = ease(to.easing, (time - from.time) / (to.time - from.time));
+  const lerp = (key: RectKey) => from[key] + (to[key] - from[key]) * p;
+  return { x: lerp('x'), y: lerp('y'), width: lerp('width'), height: lerp('height') };
+}
+
+/**
+ * Zoom and offset that fit a rectangle in the frame, keeping the frame's
+ * aspect ratio and the rectangle's centre
+ */
+export function getZoomView(rect: CropRect, frame: Pick<CropRect, 'width' | 'height'>): ZoomView {
+  const zoom = Math.max(1, Math.min(frame.width / rect.width, frame.height / rect.height, MAX_ZOOM));
+  const viewWidth = frame.width / zoom;
+  const viewHeight = frame.height / zoom;
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+
+  return {
+    zoom,
+    x: clamp(rect.x + rect.width / 2 - viewWidth / 2, frame.width - viewWidth),
+    y: clamp(rect.y + rect.height / 2 - viewHeight / 2, frame.height - viewHeight),
+  };
+}
+
+/**
+ * FFmpeg expression for one rectangle field over time, as a chain of
+ * if() branches with one eased interpolation per pair of keyframes.
+ * timeVar is the filter's time variable, e.g. 'it' in zoompan.
+ */
+export function keyframeExpression(keyframes: ZoomKeyframe[], key: RectKey, timeVar: string): string {
+  const sorted = sortKeyframes(keyframes);
+  if (sorted.length === 0) {
+    return '0';
+  }
+
+  const format = (value: number) => String(Math.round(value * 1000) / 1000);
+  let expression = format(sorted[sorted.length - 1][key]);
+
+  // Built from the last keyframe backwards so each branch nests the later ones
+  for (let index = sorted.length - 1; index > 0; index--) {
+    const from = sorted[index - 1];
+    const to = sorted[index];
+    const length = to.time - from.time;
+    const change = to[key] - from[key];
+    const progress = easeExpression(to.easing, `(${timeVar}-${format(from.time)})/${format(length)}`);
+    const move = length > 0
+      ? `${format(from[key])}${change < 0 ? '-' : '+'}${format(Math.abs(change))}*${progress}`
+      : format(to[key]);
+    expression = `if(lt(${timeVar},${format(to.time)}),${move},${expression})`;
+  }
+
+  return `if(lt(${timeVar},${format(sorted[0].time)}),${format(sorted[0][key])},${expression})`;
+}
+
+function pickRect({ x, y, width, height }: CropRect): CropRect {
+  return { x, y, width, height };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { getLoudnessPresetId, LOUDNESS_PRESETS, parseLoudnormOutput } from './loudness';
+
+// The end of FFmpeg's stderr after a loudnorm pass with print_format=json
+const loudnormOutput = (values: Record<string, string>) => [
+  'size=N/A time=00:01:00.00 bitrate=N/A speed=92.1x',
+  '[Parsed_loudnorm_0 @ 0x5581c0c3a2c0] ',
+  '{',
+  ...Object.entries(values).map(([key, value], index, entries) =>
+    `\t"${key}" : "${value}"${index < entries.length - 1 ? ',' : ''}`),
+  '}',
+].join('\n');
+
+const MEASURED = {
+  input_i: '-27.61',
+  input_tp: '-4.47',
+  input_lra: '18.06',
+  input_thresh: '-39.20',
+  output_i: '-16.58',
+  output_tp: '-1.50',
+  output_lra: '14.78',
+  output_thresh: '-27.71',
+  normalization_type: 'dynamic',
+  target_offset: '0.58',
+};
+
+describe('parseLoudnormOutput', () => {
+  it('reads the input measurement and the offset', () => {
+    expect(parseLoudnormOutput(loudnormOutput(MEASURED))).toEqual({
+      integrated: -27.61,
+      truePeak: -4.47,
+      range: 18.06,
+      threshold: -39.2,
+      offset: 0.58,
+    });
+  });
+
+  it('reads the last block when something else printed braces first', () => {
+    const output = `Input #0, matroska,webm, from 'input': { stray }\n${loudnormOutput(MEASURED)}`;
+    expect(parseLoudnormOutput(output)?.integrated).toBe(-27.61);
+  });
+
+  it('returns null for silent audio measured as -inf', () => {
+    expect(parseLoudnormOutput(loudnormOutput({
+      ...MEASURED,
+      input_i: '-inf',
+      input_tp: '-inf',
+      input_lra: '0.00',
+      input_thresh: '-inf',
+      target_offset: 'inf',
+    }))).toBeNull();
+  });
+
+  it('returns null without a complete block', () => {
+    expect(parseLoudnormOutput('size=N/A time=00:01:00.00 bitrate=N/A')).toBeNull();
+    expect(parseLoudnormOutput('{\n\t"input_i" : "-27.61",')).toBeNull();
+    expect(parseLoudnormOutput('{ "input_i" : "-27.61" }')).toBeNull();
+  });
+});
+
+describe('getLoudnessPresetId', () => {
+  it('matches targets to presets', () => {
+    expect(getLoudnessPresetId(LOUDNESS_PRESETS.web.target)).toBe('web');
+    expect(getLoudnessPresetId({ ...LOUDNESS_PRESETS.broadcast.target })).toBe('broadcast');
+  });
+
+  it('finds none for custom or missing targets', () => {
+    expect(getLoudnessPresetId({ integrated: -16, truePeak: -1, range: 11 })).toBeUndefined();
+    expect(getLoudnessPresetId(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+// Loudness normalization targets and parsing of loudnorm's measurement
+// output. Shared by the server and the editor; no Node dependencies.
+
+export interface LoudnessTarget {
+  integrated: number; // Integrated loudness in LUFS
+  truePeak: number; // Maximum true peak in dBTP
+  range: number; // Loudness range in LU
+}
+
+export type LoudnessPresetId = 'web' | 'broadcast';
+
+export const LOUDNESS_PRESETS: Record<LoudnessPresetId, { label: string; target: LoudnessTarget }> = {
+  web: {
+    label: 'Web (-14 LUFS)',
+    target: { integrated: -14, truePeak: -1, range: 11 },
+  },
+  broadcast: {
+    label: 'Broadcast, EBU R128 (-23 LUFS)',
+    target: { integrated: -23, truePeak: -1, range: 7 },
+  },
+};
+
+// What loudnorm's first pass reports about the input
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  range: number; // LU
+  threshold: number; // Gating threshold in LUFS
+  offset: number; // Gain loudnorm applies after its limiter, in LU
+}
+
+/**
+ * Find the preset matching a target, if any
+ */
+export function getLoudnessPresetId(target: LoudnessTarget | undefined): LoudnessPresetId | undefined {
+  if (!target) {
+    return undefined;
+  }
+  return (Object.keys(LOUDNESS_PRESETS) as LoudnessPresetId[]).find(id => {
+    const preset = LOUDNESS_PRESETS[id].target;
+    return preset.integrated === target.integrated
+      && preset.truePeak === target.truePeak
+      && preset.range === target.range;
+  });
+}
+
+/**
+ * Parse the JSON block loudnorm prints with print_format=json, e.g.
+ * { "input_i" : "-27.61", "input_tp" : "-4.47", ... }. Returns null when
+ * there is none, or when the input was silent and measured as -inf.
+ */
+export function parseLoudnormOutput(output: string): LoudnessMeasurement | null {
+  const start = output.lastIndexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return null;
+  }
+
+  let values: Record<string, string>;
+  try {
+    values = JSON.parse(output.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const measurement = {
+    integrated: parseFloat(values.input_i),
+    truePeak: parseFloat(values.input_tp),
+    range: parseFloat(values.input_lra),
+    threshold: parseFloat(values.input_thresh),
+    offset: parseFloat(values.target_offset),
+  };
+  return Object.values(measurement).every(Number.isFinite) ? measurement : null;
+}
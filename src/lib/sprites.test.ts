@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSpriteTrack,
+  DEFAULT_SPRITE_OPTIONS,
+  findSpriteThumbnail,
+  formatSpriteOptions,
+  getSpriteInterval,
+  getSpriteTileHeight,
+  parseSpriteOptions,
+  parseSpriteTrack,
+  SpriteSheet
+} from './sprites';
+
+const TRACK_URL = 'https://editor.example/api/videos/abc/sprites/thumbnails.vtt';
+
+// 23 seconds at one tile every 10: the last tile covers a partial interval
+const SHEET: SpriteSheet = {
+  interval: 10,
+  columns: 2,
+  rows: 2,
+  count: 3,
+  tileWidth: 160,
+  tileHeight: 90,
+  duration: 23,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('buildSpriteTrack', () => {
+  it('writes one cue per tile, row by row, ending at the duration', () => {
+    expect(buildSpriteTrack(SHEET)).toBe([
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:10.000',
+      'sprites.jpg#xywh=0,0,160,90',
+      '',
+      '00:00:10.000 --> 00:00:20.000',
+      'sprites.jpg#xywh=160,0,160,90',
+      '',
+      '00:00:20.000 --> 00:00:23.000',
+      'sprites.jpg#xywh=0,90,160,90',
+      '',
+    ].join('\n'));
+  });
+
+  it('formats hours and milliseconds', () => {
+    const track = buildSpriteTrack({ ...SHEET, interval: 2.5, count: 1, duration: 3725.125 }, 'sheet.jpg');
+    expect(track).toContain('00:00:00.000 --> 01:02:05.125\nsheet.jpg#xywh=0,0,160,90');
+  });
+
+  it('gives the last tile a full interval when the duration is unknown', () => {
+    expect(buildSpriteTrack({ ...SHEET, duration: 0 })).toContain('00:00:20.000 --> 00:00:30.000');
+  });
+});
+
+describe('parseSpriteTrack', () => {
+  it('reads back a built track with URLs resolved against the track', () => {
+    expect(parseSpriteTrack(buildSpriteTrack(SHEET), TRACK_URL)).toEqual([
+      { start: 0, end: 10, url: 'https://editor.example/api/videos/abc/sprites/sprites.jpg', x: 0, y: 0, width: 160, height: 90 },
+      { start: 10, end: 20, url: 'https://editor.example/api/videos/abc/sprites/sprites.jpg', x: 160, y: 0, width: 160, height: 90 },
+      { start: 20, end: 23, url: 'https://editor.example/api/videos/abc/sprites/sprites.jpg', x: 0, y: 90, width: 160, height: 90 },
+    ]);
+  });
+
+  it('reads cue identifiers, CRLF and short timestamps', () => {
+    const text = 'WEBVTT\r\n\r\n1\r\n01:30.500 --> 01:32.500\r\n/thumbs.jpg#xywh=10,20,30,40\r\n';
+    expect(parseSpriteTrack(text, TRACK_URL)).toEqual([
+      { start: 90.5, end: 92.5, url: 'https://editor.example/thumbs.jpg', x: 10, y: 20, width: 30, height: 40 },
+    ]);
+  });
+
+  it('skips cues without a tile', () => {
+    const text = 'WEBVTT\n\n00:00.000 --> 00:10.000\nsprites.jpg\n\n00:10.000 --> 00:20.000\n';
+    expect(parseSpriteTrack(text, TRACK_URL)).toEqual([]);
+  });
+});
+
+describe('findSpriteThumbnail', () => {
+  const thumbnails = parseSpriteTrack(buildSpriteTrack(SHEET), TRACK_URL);
+
+  it('finds the tile covering a time', () => {
+    expect(findSpriteThumbnail(thumbnails, 0)?.x).toBe(0);
+    expect(findSpriteThumbnail(thumbnails, 10)?.x).toBe(160);
+    expect(findSpriteThumbnail(thumbnails, 22.9)?.y).toBe(90);
+  });
+
+  it('uses the last tile past the end and none without tiles', () => {
+    expect(findSpriteThumbnail(thumbnails, 30)).toBe(thumbnails[2]);
+    expect(findSpriteThumbnail([], 5)).toBeNull();
+  });
+});
+
+describe('sheet layout', () => {
+  it('spaces tiles further apart for long videos', () => {
+    expect(getSpriteInterval(60)).toBe(2);
+    expect(getSpriteInterval(4 * 60 * 60)).toBe(36);
+    expect(getSpriteInterval(0)).toBe(10);
+  });
+
+  it('keeps tile heights even and falls back to 16:9', () => {
+    expect(getSpriteTileHeight(160, 1920, 1080)).toBe(90);
+    expect(getSpriteTileHeight(160, 1000, 750)).toBe(120);
+    expect(getSpriteTileHeight(150, 0, 0)).toBe(84);
+  });
+});
+
+describe('sheet options', () => {
+  it('reads back formatted options and defaults missing ones', () => {
+    const options = { interval: 2.5, tileWidth: 120, columns: 8 };
+    expect(parseSpriteOptions(new URLSearchParams(formatSpriteOptions(options)))).toEqual(options);
+    expect(parseSpriteOptions(new URLSearchParams('columns=5'))).toEqual({ ...DEFAULT_SPRITE_OPTIONS, columns: 5 });
+  });
+
+  it('rejects options out of range', () => {
+    expect(parseSpriteOptions(new URLSearchParams('interval=-1'))).toMatch(/^interval/);
+    expect(parseSpriteOptions(new URLSearchParams('tileWidth=1000'))).toMatch(/^tileWidth/);
+    expect(parseSpriteOptions(new URLSearchParams('columns=2.5'))).toMatch(/^columns/);
+  });
+});
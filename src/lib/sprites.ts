@@ -0,0 +1,182 @@
+import type { TimeRange } from './timeRanges';
+
+// Thumbnail sprite sheets for timeline hover previews: one small frame
+// every few seconds, tiled into a single JPEG, and a WebVTT track mapping
+// each time range to its tile. Shared by the server, which generates
+// them, and the timeline; no Node dependencies.
+
+export type SpriteOptions = {
+  interval: number; // Seconds between tiles; 0 picks one from the duration
+  tileWidth: number; // Pixels; height follows the aspect ratio
+  columns: number;
+};
+
+export const DEFAULT_SPRITE_OPTIONS: SpriteOptions = {
+  interval: 0,
+  tileWidth: 160,
+  columns: 10,
+};
+
+// Long recordings get wider spacing so the sheet stays a few megabytes
+const MAX_SPRITE_TILES = 400;
+const MIN_SPRITE_INTERVAL = 2;
+// Used when neither the file nor Drive knows how long the video is
+const FALLBACK_SPRITE_INTERVAL = 10;
+
+// Accepted sheet options
+const MAX_SPRITE_INTERVAL = 60;
+const MIN_SPRITE_TILE_WIDTH = 40;
+const MAX_SPRITE_TILE_WIDTH = 320;
+const MAX_SPRITE_COLUMNS = 20;
+
+export const SPRITE_IMAGE_NAME = 'sprites.jpg';
+export const SPRITE_TRACK_NAME = 'thumbnails.vtt';
+
+// Layout of a generated sheet, stored next to it
+export interface SpriteSheet {
+  interval: number;
+  columns: number;
+  rows: number;
+  count: number; // Tiles actually filled
+  tileWidth: number;
+  tileHeight: number;
+  duration: number; // Seconds
+  createdAt: string;
+}
+
+// One cue of the thumbnails track, resolved to a rectangle of the sheet
+export interface SpriteThumbnail extends TimeRange {
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Sheet options from a query string, with the defaults for any missing,
+ * or an error message if one is invalid
+ */
+export function parseSpriteOptions(params: URLSearchParams): SpriteOptions | string {
+  const interval = Number(params.get('interval') ?? DEFAULT_SPRITE_OPTIONS.interval);
+  const tileWidth = Number(params.get('tileWidth') ?? DEFAULT_SPRITE_OPTIONS.tileWidth);
+  const columns = Number(params.get('columns') ?? DEFAULT_SPRITE_OPTIONS.columns);
+
+  if (!Number.isFinite(interval) || interval < 0 || interval > MAX_SPRITE_INTERVAL) {
+    return `interval must be between 0 and ${MAX_SPRITE_INTERVAL} seconds`;
+  }
+  if (!Number.isInteger(tileWidth) || tileWidth < MIN_SPRITE_TILE_WIDTH || tileWidth > MAX_SPRITE_TILE_WIDTH) {
+    return `tileWidth must be between ${MIN_SPRITE_TILE_WIDTH} and ${MAX_SPRITE_TILE_WIDTH} pixels`;
+  }
+  if (!Number.isInteger(columns) || columns < 1 || columns > MAX_SPRITE_COLUMNS) {
+    return `columns must be between 1 and ${MAX_SPRITE_COLUMNS}`;
+  }
+  return { interval, tileWidth, columns };
+}
+
+/**
+ * Query string for sheet options. Sheets are cached per options, so the
+ * status, track and image URLs of a sheet all carry it.
+ */
+export function formatSpriteOptions({ interval, tileWidth, columns }: SpriteOptions): string {
+  return new URLSearchParams({
+    interval: String(interval),
+    tileWidth: String(tileWidth),
+    columns: String(columns),
+  }).toString();
+}
+
+/**
+ * Seconds between tiles for a video of this length
+ */
+export function getSpriteInterval(duration: number): number {
+  if (!(duration > 0)) {
+    return FALLBACK_SPRITE_INTERVAL;
+  }
+  return Math.max(MIN_SPRITE_INTERVAL, Math.ceil(duration / MAX_SPRITE_TILES));
+}
+
+/**
+ * Tile height for a frame size, kept even for the JPEG encoder
+ */
+export function getSpriteTileHeight(tileWidth: number, width: number, height: number): number {
+  const ratio = width > 0 && height > 0 ? height / width : 9 / 16;
+  return Math.max(2, Math.round(tileWidth * ratio / 2) * 2);
+}
+
+function formatCueTime(seconds: number): string {
+  const total = Math.round(seconds * 1000);
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const secs = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(millis).padStart(3, '0')}`;
+}
+
+function parseCueTime(value: string): number {
+  const parts = value.trim().split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * WebVTT thumbnails track for a sheet, with a media fragment
+ * (#xywh=) naming the tile of each cue
+ */
+export function buildSpriteTrack(sheet: SpriteSheet, imageUri: string = SPRITE_IMAGE_NAME): string {
+  const lines = ['WEBVTT', ''];
+  for (let index = 0; index < sheet.count; index++) {
+    const start = index * sheet.interval;
+    const end = index === sheet.count - 1 && sheet.duration > start
+      ? sheet.duration
+      : (index + 1) * sheet.interval;
+    const x = (index % sheet.columns) * sheet.tileWidth;
+    const y = Math.floor(index / sheet.columns) * sheet.tileHeight;
+    lines.push(
+      `${formatCueTime(start)} --> ${formatCueTime(end)}`,
+      `${imageUri}#xywh=${x},${y},${sheet.tileWidth},${sheet.tileHeight}`,
+      ''
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Read a thumbnails track. Image URIs are resolved against trackUrl;
+ * cues without a #xywh fragment are skipped.
+ */
+export function parseSpriteTrack(text: string, trackUrl: string): SpriteThumbnail[] {
+  const thumbnails: SpriteThumbnail[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const timing = lines[index].match(/^\s*([\d:.]+)\s+-->\s+([\d:.]+)/);
+    const target = lines[index + 1]?.trim();
+    if (!timing || !target) continue;
+
+    const fragment = target.match(/^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+    if (!fragment) continue;
+
+    const [, uri, x, y, width, height] = fragment;
+    thumbnails.push({
+      start: parseCueTime(timing[1]),
+      end: parseCueTime(timing[2]),
+      url: new URL(uri, trackUrl).toString(),
+      x: Number(x),
+      y: Number(y),
+      width: Number(width),
+      height: Number(height),
+    });
+    index++;
+  }
+
+  return thumbnails;
+}
+
+/**
+ * The thumbnail for a time, or the last one past the end
+ */
+export function findSpriteThumbnail(thumbnails: SpriteThumbnail[], time: number): SpriteThumbnail | null {
+  if (thumbnails.length === 0) return null;
+  return thumbnails.find(thumbnail => time >= thumbnail.start && time < thumbnail.end)
+    || (time >= thumbnails[thumbnails.length - 1].end ? thumbnails[thumbnails.length - 1] : thumbnails[0]);
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findRangeIndex,
+  formatTime,
+  invertRanges,
+  nextPlayableTime,
+  normalizeRanges,
+  overlayRanges,
+  shrinkRanges,
+  subtractRanges,
+  totalDuration
+} from './timeRanges';
+
+describe('normalizeRanges', () => {
+  it('sorts and merges overlapping ranges', () => {
+    expect(normalizeRanges([{ start: 20, end: 30 }, { start: 0, end: 10 }, { start: 5, end: 12 }])).toEqual([
+      { start: 0, end: 12 },
+      { start: 20, end: 30 },
+    ]);
+  });
+
+  it('merges ranges that touch', () => {
+    expect(normalizeRanges([{ start: 0, end: 10 }, { start: 10, end: 15 }])).toEqual([{ start: 0, end: 15 }]);
+  });
+
+  it('keeps a range inside another as one', () => {
+    expect(normalizeRanges([{ start: 0, end: 30 }, { start: 10, end: 20 }])).toEqual([{ start: 0, end: 30 }]);
+  });
+
+  it('clamps to the duration and drops ranges past the end', () => {
+    expect(normalizeRanges([{ start: -5, end: 10 }, { start: 55, end: 70 }, { start: 65, end: 80 }], 60)).toEqual([
+      { start: 0, end: 10 },
+      { start: 55, end: 60 },
+    ]);
+  });
+
+  it('leaves ends alone when the duration is unknown', () => {
+    expect(normalizeRanges([{ start: 50, end: 90 }])).toEqual([{ start: 50, end: 90 }]);
+  });
+
+  it('drops ranges shorter than a frame', () => {
+    expect(normalizeRanges([{ start: 1, end: 1.01 }, { start: 5, end: 4 }])).toEqual([]);
+  });
+
+  it('does not change its input', () => {
+    const ranges = [{ start: 0, end: 10 }, { start: 5, end: 15 }];
+    normalizeRanges(ranges);
+    expect(ranges).toEqual([{ start: 0, end: 10 }, { start: 5, end: 15 }]);
+  });
+});
+
+describe('invertRanges', () => {
+  it('turns a keep-list into the gaps around it', () => {
+    expect(invertRanges([{ start: 10, end: 20 }, { start: 30, end: 40 }], 60)).toEqual([
+      { start: 0, end: 10 },
+      { start: 20, end: 30 },
+      { start: 40, end: 60 },
+    ]);
+  });
+
+  it('has no gaps at ranges that reach the ends', () => {
+    expect(invertRanges([{ start: 0, end: 20 }, { start: 40, end: 60 }], 60)).toEqual([{ start: 20, end: 40 }]);
+  });
+
+  it('inverts nothing to the whole duration and back', () => {
+    expect(invertRanges([], 60)).toEqual([{ start: 0, end: 60 }]);
+    expect(invertRanges([{ start: 0, end: 60 }], 60)).toEqual([]);
+  });
+
+  it('ignores ranges past the end', () => {
+    expect(invertRanges([{ start: 50, end: 90 }, { start: 70, end: 80 }], 60)).toEqual([{ start: 0, end: 50 }]);
+  });
+});
+
+describe('subtractRanges', () => {
+  it('splits a kept range around a cut inside it', () => {
+    expect(subtractRanges([{ start: 0, end: 60 }], [{ start: 20, end: 30 }], 60)).toEqual([
+      { start: 0, end: 20 },
+      { start: 30, end: 60 },
+    ]);
+  });
+
+  it('trims cuts that overlap the ends of kept ranges', () => {
+    expect(subtractRanges(
+      [{ start: 0, end: 20 }, { start: 30, end: 50 }],
+      [{ start: 15, end: 35 }],
+      60
+    )).toEqual([
+      { start: 0, end: 15 },
+      { start: 35, end: 50 },
+    ]);
+  });
+
+  it('handles overlapping cuts and cuts that touch a kept range', () => {
+    expect(subtractRanges(
+      [{ start: 10, end: 40 }],
+      [{ start: 0, end: 10 }, { start: 20, end: 28 }, { start: 25, end: 30 }],
+      60
+    )).toEqual([
+      { start: 10, end: 20 },
+      { start: 30, end: 40 },
+    ]);
+  });
+
+  it('removes a kept range that is cut entirely', () => {
+    expect(subtractRanges([{ start: 10, end: 20 }], [{ start: 5, end: 25 }], 60)).toEqual([]);
+  });
+
+  it('ignores cuts past the end', () => {
+    expect(subtractRanges([{ start: 0, end: 60 }], [{ start: 70, end: 80 }], 60)).toEqual([{ start: 0, end: 60 }]);
+  });
+
+  it('drops slivers left between cuts', () => {
+    expect(subtractRanges([{ start: 0, end: 30 }], [{ start: 0, end: 10 }, { start: 10.01, end: 30 }], 60)).toEqual([]);
+  });
+});
+
+describe('shrinkRanges', () => {
+  it('pads both ends and drops ranges that vanish', () => {
+    expect(shrinkRanges([{ start: 10, end: 12 }, { start: 20, end: 20.4 }], 0.25)).toEqual([{ start: 10.25, end: 11.75 }]);
+  });
+
+  it('keeps ranges as they are without padding', () => {
+    expect(shrinkRanges([{ start: 1, end: 2 }], 0)).toEqual([{ start: 1, end: 2 }]);
+  });
+});
+
+describe('overlayRanges', () => {
+  it('cuts existing ranges under a new one and keeps their values', () => {
+    expect(overlayRanges(
+      [{ start: 0, end: 10, speed: 2 }, { start: 20, end: 30, speed: 4 }],
+      [{ start: 5, end: 22, speed: 8 }],
+      60
+    )).toEqual([
+      { start: 0, end: 5, speed: 2 },
+      { start: 5, end: 22, speed: 8 },
+      { start: 22, end: 30, speed: 4 },
+    ]);
+  });
+
+  it('replaces a range covered entirely', () => {
+    expect(overlayRanges([{ start: 10, end: 12, speed: 2 }], [{ start: 0, end: 20, speed: 4 }], 60)).toEqual([
+      { start: 0, end: 20, speed: 4 },
+    ]);
+  });
+});
+
+describe('totalDuration', () => {
+  it('adds up the range lengths', () => {
+    expect(totalDuration([{ start: 0, end: 10 }, { start: 20, end: 25 }])).toBe(15);
+    expect(totalDuration([])).toBe(0);
+  });
+});
+
+describe('nextPlayableTime', () => {
+  const kept = [{ start: 5, end: 10 }, { start: 20, end: 30 }];
+
+  it('plays on inside a range', () => {
+    expect(nextPlayableTime(kept, 7)).toBe(7);
+    expect(nextPlayableTime(kept, 20)).toBe(20);
+  });
+
+  it('jumps from a gap to the next range', () => {
+    expect(nextPlayableTime(kept, 0)).toBe(5);
+    expect(nextPlayableTime(kept, 12)).toBe(20);
+  });
+
+  it('treats the end of a range as outside it', () => {
+    expect(findRangeIndex(kept, 10)).toBe(-1);
+    expect(nextPlayableTime(kept, 10)).toBe(20);
+  });
+
+  it('stops after the last range', () => {
+    expect(nextPlayableTime(kept, 30)).toBeNull();
+    expect(nextPlayableTime([], 0)).toBeNull();
+  });
+});
+
+describe('formatTime', () => {
+  it('writes minutes and padded seconds', () => {
+    expect(formatTime(0)).toBe('0:00');
+    expect(formatTime(65.9)).toBe('1:05');
+    expect(formatTime(3725)).toBe('62:05');
+  });
+});
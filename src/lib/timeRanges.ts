@@ -0,0 +1,133 @@
+// Helpers for lists of time ranges (keep-lists, cut-lists, detected regions).
+// No Node dependencies, so the editor UI can share them with the server.
+
+export interface TimeRange {
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+// Ranges shorter than this are dropped; FFmpeg cannot trim to less than a frame
+export const MIN_RANGE_DURATION = 0.05;
+
+/**
+ * Sort, clamp to [0, duration] and merge overlapping ranges.
+ * A duration of 0 means the length is unknown and ends are not clamped.
+ */
+export function normalizeRanges(ranges: TimeRange[], duration: number = 0): TimeRange[] {
+  const clamped = ranges
+    .map(({ start, end }) => ({
+      start: Math.max(0, start),
+      end: duration > 0 ? Math.min(end, duration) : end,
+    }))
+    .filter(range => range.end - range.start >= MIN_RANGE_DURATION)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRange[] = [];
+  for (const range of clamped) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Turn a keep-list into a cut-list (or back) within [0, duration]
+ */
+export function invertRanges(ranges: TimeRange[], duration: number): TimeRange[] {
+  const inverted: TimeRange[] = [];
+  let cursor = 0;
+
+  for (const range of normalizeRanges(ranges, duration)) {
+    if (range.start - cursor >= MIN_RANGE_DURATION) {
+      inverted.push({ start: cursor, end: range.start });
+    }
+    cursor = range.end;
+  }
+
+  if (duration - cursor >= MIN_RANGE_DURATION) {
+    inverted.push({ start: cursor, end: duration });
+  }
+  return inverted;
+}
+
+/**
+ * Remove the given ranges from a keep-list
+ */
+export function subtractRanges(keep: TimeRange[], remove: TimeRange[], duration: number): TimeRange[] {
+  const removed = normalizeRanges(remove, duration);
+  return normalizeRanges(keep, duration).flatMap(range => {
+    const pieces: TimeRange[] = [];
+    let cursor = range.start;
+
+    for (const cut of removed) {
+      if (cut.end <= cursor || cut.start >= range.end) continue;
+      if (cut.start > cursor) {
+        pieces.push({ start: cursor, end: cut.start });
+      }
+      cursor = Math.max(cursor, cut.end);
+    }
+
+    if (range.end > cursor) {
+      pieces.push({ start: cursor, end: range.end });
+    }
+    return pieces.filter(piece => piece.end - piece.start >= MIN_RANGE_DURATION);
+  });
+}
+
+/**
+ * Shrink each range by padding at both ends, dropping ranges that vanish.
+ * Used to keep a little of each pause around the speech when cutting it.
+ */
+export function shrinkRanges(ranges: TimeRange[], padding: number): TimeRange[] {
+  return ranges
+    .map(range => ({ start: range.start + padding, end: range.end - padding }))
+    .filter(range => range.end - range.start >= MIN_RANGE_DURATION);
+}
+
+/**
+ * Lay new ranges over existing ones, cutting the existing ones where they
+ * overlap so each stretch keeps only the values of the range on top.
+ * Sorted by start.
+ */
+export function overlayRanges<T extends TimeRange>(existing: T[], added: T[], duration: number): T[] {
+  const uncovered = existing.flatMap(range =>
+    subtractRanges([range], added, duration).map(piece => ({ ...range, ...piece }))
+  );
+  return [...uncovered, ...added].sort((a, b) => a.start - b.start);
+}
+
+export function totalDuration(ranges: TimeRange[]): number {
+  return ranges.reduce((total, range) => total + (range.end - range.start), 0);
+}
+
+/**
+ * Index of the range containing time, or -1
+ */
+export function findRangeIndex(ranges: TimeRange[], time: number): number {
+  return ranges.findIndex(range => time >= range.start && time < range.end);
+}
+
+/**
+ * Where playback should continue from: time itself if it is inside a
+ * range, otherwise the start of the next range, or null after the last one
+ */
+export function nextPlayableTime(ranges: TimeRange[], time: number): number | null {
+  if (findRangeIndex(ranges, time) !== -1) {
+    return time;
+  }
+  const next = ranges.find(range => range.start > time);
+  return next ? next.start : null;
+}
+
+/**
+ * A time as m:ss, the way the editor labels the playhead and ranges
+ */
+export function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FFmpegVideoEditor, RunOptions } from './ffmpeg';
+import { canAccessDriveFile, downloadDriveFile, getGoogleUser, requireSignedIn } from './drive';
+import { createVideoCacheWorkDir, publishVideoCache, readVideoCache, VideoCacheKind } from './videoCache';
+import { JobLane, jobQueue } from './jobs';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+
+// Analyses of a whole video (crop detection, silences, ...) run as queued
+// jobs, since the file can take longer to download than a request may stay
+// open, and their results are cached per video and settings. A Drive file
+// never changes, so each is computed once.
+
+export type AnalysisSettings = Record<string, number>;
+
+// What an analysis gets besides its settings: a directory for files
+// published with the result, and the query it was asked with, for hints
+// that do not change the result
+export interface AnalysisContext {
+  workDir: string;
+  searchParams: URLSearchParams;
+}
+
+export interface AnalysisRouteConfig<TSettings extends AnalysisSettings, TResult> {
+  kind: VideoCacheKind; // Cache kind, job type and the result's field in responses
+  label: string; // Names the analysis in messages, e.g. 'crop detection'
+  // Settings from the query string, or an error message if they are invalid
+  parseSettings?: (params: URLSearchParams) => TSettings | string;
+  lane?: JobLane; // Queue lane of the jobs, 'background' for results nobody waits on
+  analyze: (
+    editor: FFmpegVideoEditor,
+    inputPath: string,
+    settings: TSettings,
+    runOptions: RunOptions,
+    context: AnalysisContext
+  ) => Promise<TResult>;
+}
+
+interface CachedAnalysis<TSettings, TResult> {
+  settings: TSettings;
+  result: TResult;
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Cache variant for a set of settings, e.g. "threshold-35_minDuration1",
+ * or undefined for an analysis without any
+ */
+export function getAnalysisVariant(settings: AnalysisSettings): string | undefined {
+  const entries = Object.entries(settings);
+  return entries.length > 0
+    ? entries.map(([name, value]) => `${name}${value}`).join('_')
+    : undefined;
+}
+
+/**
+ * GET and POST handlers for an analysis. GET returns the cached result
+ * once there is one and the job computing it if there is one;
+ * POST returns the cached result or queues the job, reusing one already
+ * queued with the same settings.
+ */
+export function createAnalysisRoute<TSettings extends AnalysisSettings, TResult>({
+  kind,
+  label,
+  parseSettings = () => ({} as TSettings),
+  lane = 'default',
+  analyze,
+}: AnalysisRouteConfig<TSettings, TResult>) {
+  const title = label.charAt(0).toUpperCase() + label.slice(1);
+
+  // Authenticate, check access to the video and read the settings. Returns
+  // a response to send instead when any of them fails.
+  const prepare = async (request: NextRequest, { params }: RouteContext) => {
+    const { id } = await params;
+    const token = request.cookies.get('google_token')?.value;
+    const user = token ? await getGoogleUser(token) : null;
+
+    if (!token || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Not authenticated'
+      }, { status: 401 });
+    }
+
+    if (!await canAccessDriveFile(token, id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Video not found'
+      }, { status: 404 });
+    }
+
+    const settings = parseSettings(request.nextUrl.searchParams);
+    if (typeof settings === 'string') {
+      return NextResponse.json({
+        success: false,
+        error: settings
+      }, { status: 400 });
+    }
+
+    const variant = getAnalysisVariant(settings);
+    const cached = await readVideoCache<CachedAnalysis<TSettings, TResult>>(kind, id, variant);
+    return { id, token, user, settings, variant, cached };
+  };
+
+  async function GET(request: NextRequest, context: RouteContext) {
+    try {
+      const prepared = await prepare(request, context);
+      if (prepared instanceof NextResponse) {
+        return prepared;
+      }
+
+      const { id, variant, cached } = prepared;
+      const job = jobQueue.findActive(kind, id, variant);
+
+      return NextResponse.json({
+        success: true,
+        ready: Boolean(cached),
+        [kind]: cached?.result,
+        jobId: job?.id
+      });
+
+    } catch (error) {
+      console.error(`Failed to read ${label}:`, error);
+      return NextResponse.json({
+        success: false,
+        error: `Failed to read ${label}`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 });
+    }
+  }
+
+  async function POST(request: NextRequest, context: RouteContext) {
+    try {
+      const prepared = await prepare(request, context);
+      if (prepared instanceof NextResponse) {
+        return prepared;
+      }
+
+      const { id, token, user, settings, variant, cached } = prepared;
+      if (cached) {
+        return NextResponse.json({
+          success: true,
+          ready: true,
+          [kind]: cached.result
+        });
+      }
+
+      // Asking again with the same settings reuses the job in progress
+      const running = jobQueue.findActive(kind, id, variant);
+      if (running) {
+        return NextResponse.json({
+          success: true,
+          message: `${title} already queued`,
+          jobId: running.id,
+          job: running
+        }, { status: 202 });
+      }
+
+      const job = jobQueue.enqueue(
+        { type: kind, userId: user.id, videoId: id, variant, shared: true },
+        async ({ jobId, signal, setStage, setPercent }) => {
+          const tempDir = path.join(process.cwd(), 'temp', jobId);
+          const inputPath = path.join(tempDir, 'input');
+          const workDir = await createVideoCacheWorkDir(kind, id, jobId, variant);
+
+          try {
+            setStage('downloading');
+            await requireSignedIn(token);
+            await mkdir(tempDir, { recursive: true });
+            await downloadDriveFile(token, id, inputPath, signal);
+
+            setStage('processing');
+            const editor = new FFmpegVideoEditor(tempDir);
+            editor.on('progress', ({ percent, timemark, fps, speed }) => {
+              setPercent(percent, { timemark, fps, speed });
+            });
+            const result = await analyze(editor, inputPath, settings, { signal }, {
+              workDir,
+              searchParams: request.nextUrl.searchParams,
+            });
+            await publishVideoCache<CachedAnalysis<TSettings, TResult>>(kind, id, workDir, { settings, result }, variant);
+
+            return { [kind]: result };
+          } finally {
+            // Clean up temp files, and the work directory if it was not published
+            await rm(tempDir, { recursive: true, force: true });
+            await rm(workDir, { recursive: true, force: true });
+          }
+        },
+        lane
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: `${title} queued`,
+        jobId: job.id,
+        job
+      }, { status: 202 });
+
+    } catch (error) {
+      console.error(`Failed to queue ${label}:`, error);
+      return NextResponse.json({
+        success: false,
+        error: `Failed to queue ${label}`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }, { status: 500 });
+    }
+  }
+
+  return { GET, POST };
+}
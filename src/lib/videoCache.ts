@@ -0,0 +1,74 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Files generated from a Drive video on the server (streaming renditions,
+// thumbnail sprites, keyframe lists, analysis results) live on local disk
+// under cache/<kind>/<video ID>, or cache/<kind>/<video ID>/<variant> for
+// results that depend on settings. Each is written to a work directory and
+// renamed into place with its metadata once complete, so readers never see
+// half a result.
+
+export type VideoCacheKind = 'hls' | 'sprites' | 'keyframes' | 'crop' | 'silences' | 'idle' | 'loudness';
+
+const CACHE_DIR = path.join(process.cwd(), 'cache');
+const METADATA_FILE_NAME = 'manifest.json';
+
+/**
+ * Directory holding one kind of generated files for a video
+ */
+export function getVideoCacheDir(kind: VideoCacheKind, videoId: string, variant?: string): string {
+  // Drive IDs are URL-safe base64; anything else could escape the cache
+  if (!/^[\w-]+$/.test(videoId)) {
+    throw new Error('Invalid video ID');
+  }
+  if (variant === undefined) {
+    return path.join(CACHE_DIR, kind, videoId);
+  }
+  if (!/^\w[\w.-]*$/.test(variant)) {
+    throw new Error('Invalid cache variant');
+  }
+  return path.join(CACHE_DIR, kind, videoId, variant);
+}
+
+/**
+ * Metadata stored with a published directory, or null if there is none
+ */
+export async function readVideoCache<T>(kind: VideoCacheKind, videoId: string, variant?: string): Promise<T | null> {
+  try {
+    const data = await fs.readFile(path.join(getVideoCacheDir(kind, videoId, variant), METADATA_FILE_NAME), 'utf8');
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fresh directory to write into before publishVideoCache moves it into place
+ */
+export async function createVideoCacheWorkDir(
+  kind: VideoCacheKind,
+  videoId: string,
+  jobId: string,
+  variant?: string
+): Promise<string> {
+  const workDir = `${getVideoCacheDir(kind, videoId, variant)}.work-${jobId}`;
+  await fs.rm(workDir, { recursive: true, force: true });
+  await fs.mkdir(workDir, { recursive: true });
+  return workDir;
+}
+
+/**
+ * Store the metadata and replace any earlier result for the video
+ */
+export async function publishVideoCache<T>(
+  kind: VideoCacheKind,
+  videoId: string,
+  workDir: string,
+  metadata: T,
+  variant?: string
+): Promise<void> {
+  const dir = getVideoCacheDir(kind, videoId, variant);
+  await fs.writeFile(path.join(workDir, METADATA_FILE_NAME), JSON.stringify(metadata, null, 2));
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.rename(workDir, dir);
+}
@@ -1,3 +1,18 @@
+import type { EncodingProfileId } from '@/lib/encodingProfiles';
+import type {
+  BackgroundMusic,
+  CropRect,
+  NoiseReductionStrength,
+  PictureInPicture,
+  Redaction,
+  SpeedRange,
+  TextOverlay,
+  Watermark
+} from '@/lib/filterGraph';
+import type { ZoomKeyframe } from '@/lib/keyframes';
+import type { LoudnessTarget } from '@/lib/loudness';
+import type { TimeRange } from '@/lib/timeRanges';
+
 export interface Video {
   id: string;
   name: string;
@@ -17,7 +32,37 @@ export interface VideoEditOptions {
   fadeIn: number;
   fadeOut: number;
   speed: number;
-  quality: 'low' | 'medium' | 'high';
+  quality: EncodingProfileId;
+  segments?: TimeRange[]; // Kept ranges in seconds; overrides startTime/endTime when set
+  speedRanges?: SpeedRange[];
+  crop?: CropRect; // In source video pixels
+  redactions?: Redaction[];
+  textOverlays?: TextOverlay[];
+  watermark?: Watermark;
+  pictureInPicture?: PictureInPicture;
+  zoomKeyframes?: ZoomKeyframe[];
+  normalize?: LoudnessTarget; // Replaces volume when set
+  noiseReduction?: NoiseReductionStrength;
+  backgroundMusic?: BackgroundMusic;
+}
+
+export interface ProcessingJob {
+  id: string;
+  type: string;
+  videoId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  stage: 'queued' | 'downloading' | 'probing' | 'processing' | 'uploading' | 'done';
+  percent: number;
+  metrics?: {
+    timemark: string;
+    fps: number;
+    speed: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+  result?: { videoId: string };
+  error?: string;
+  errorCode?: 'reauthenticate'; // The Google sign-in expired before the job could use it
 }
 
 export interface User {